@@ -0,0 +1,35 @@
+// Service worker for risk notifications
+//
+// Notifications are shown through the registration so they still appear while
+// the dashboard tab is in the background. Action clicks are relayed back to the
+// open dashboard tabs, which own the alert state.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const action = event.action || 'open';
+  notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    windows.forEach((client) => {
+      client.postMessage({ type: 'notification-action', action, data: notification.data || null });
+    });
+
+    // A plain click brings the dashboard to the front
+    if (action === 'open') {
+      if (windows.length > 0) {
+        await windows[0].focus();
+      } else {
+        await self.clients.openWindow(self.registration.scope);
+      }
+    }
+  })());
+});
@@ -1,34 +1,72 @@
 import { useState, useEffect } from 'react';
+import { Toaster } from 'sonner';
 import { CurrentRateCard } from './components/CurrentRateCard';
 import { HistoryTable } from './components/HistoryTable';
+import { DailyStatsTable } from './components/DailyStatsTable';
+import { AlertsTable } from './components/AlertsTable';
+import { PnlPanel } from './components/PnlPanel';
+import { BacktestPanel } from './components/BacktestPanel';
+import { ExportPanel } from './components/ExportPanel';
+import { ImportWizard } from './components/ImportWizard';
+import { RiskLegend } from './components/RiskLegend';
 import { RateChart } from './components/RateChart';
+import { RateRecommendation } from './components/RateRecommendation';
 import { SettingsPanel, SettingsButton } from './components/SettingsPanel';
 import { AlertBanner, AlertModal, NotificationToggle } from './components/AlertSystem';
+import { OutboxStatus } from './components/OutboxStatus';
+import { PairOverview, PairSwitcher } from './components/PairOverview';
+import { LoginPanel, UserMenu } from './components/AuthPanel';
 import { useRateFetcher, useCurrentTime } from './hooks/useRateFetcher';
-import { useRateStore } from './store/rateStore';
-import { Activity, Wifi, WifiOff, Clock, BarChart2, Table } from 'lucide-react';
+import { useRiskNotifications } from './hooks/useRiskNotifications';
+import { useAlertChannels } from './hooks/useAlertChannels';
+import { useRealtimeSync } from './hooks/useRealtimeSync';
+import { usePairConfig, useRateStore } from './store/rateStore';
+import { getRateSources } from './services/rateSources';
+import { onAuthUserChange } from './services/auth';
+import { getTimeZoneLabel } from './utils/pairs';
+import { Activity, Wifi, WifiOff, Clock, BarChart2, Table, CalendarDays, Siren, Server, Wallet, FlaskConical, FileDown } from 'lucide-react';
 
 function App() {
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'chart' | 'table'>('chart');
-  const { isLoading, error, refetch } = useRateFetcher();
-  const { marketRate, platformRate, isInitialized, syncWithSupabase } = useRateStore();
+  const pair = usePairConfig();
+  const [activeTab, setActiveTab] = useState<'chart' | 'table' | 'daily' | 'pnl' | 'alerts' | 'backtest' | 'export'>('chart');
+  const { isLoading, error, refetch, monitorMode } = useRateFetcher();
+  const { marketRate, platformRate, isInitialized, syncWithSupabase, authUser, authChecked, setAuthUser } = useRateStore();
+  const userId = authUser?.id;
   const { isLockWindow, formattedTime } = useCurrentTime();
+  useRiskNotifications();
+  useAlertChannels();
+  useRealtimeSync();
 
-  // Initial Supabase sync
+  useEffect(() => onAuthUserChange(setAuthUser), [setAuthUser]);
+
+  // Initial Supabase sync, once signed in (RLS hides everything from anonymous users)
   useEffect(() => {
-    syncWithSupabase();
-  }, [syncWithSupabase]);
+    if (userId) syncWithSupabase();
+  }, [userId, syncWithSupabase]);
 
   // Page title update
   useEffect(() => {
     if (marketRate > 0) {
       const diff = platformRate - marketRate;
-      document.title = `MYR ${marketRate.toFixed(4)} | 点差 ${(diff >= 0 ? '+' : '')}${diff.toFixed(4)}`;
+      document.title = `${pair.id} ${marketRate.toFixed(4)} | 点差 ${(diff >= 0 ? '+' : '')}${diff.toFixed(4)}`;
     } else {
-      document.title = 'MYR/USDT 汇率监控';
+      document.title = `${pair.label} 汇率监控`;
     }
-  }, [marketRate, platformRate]);
+  }, [pair, marketRate, platformRate]);
+
+  if (!authChecked) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center text-white">
+        <Activity className="w-12 h-12 text-blue-500 animate-spin mb-4" />
+        <p className="text-gray-400">正在检查登录状态...</p>
+      </div>
+    );
+  }
+
+  if (!authUser) {
+    return <LoginPanel />;
+  }
 
   if (!isInitialized) {
     return (
@@ -52,18 +90,34 @@ function App() {
             <div className="flex items-center gap-3">
               <Activity className="w-8 h-8 text-blue-500" />
               <div>
-                <h1 className="text-xl font-bold text-white">MYR/USDT 汇率监控</h1>
+                <h1 className="text-xl font-bold text-white">{pair.label} 汇率监控</h1>
                 <p className="text-gray-400 text-sm">实时监控 · 风险告警 · 历史复盘</p>
               </div>
             </div>
 
             <div className="flex items-center gap-3">
+              <PairSwitcher />
+
               {/* Connection Status */}
               <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${error ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
                 {error ? <WifiOff className="w-4 h-4" /> : <Wifi className="w-4 h-4" />}
                 <span className="text-sm">{error ? '连接失败' : '已连接'}</span>
               </div>
 
+              {/* Pending Cloud Writes */}
+              <OutboxStatus />
+
+              {/* Headless Monitor Indicator */}
+              {monitorMode === 'reader' && (
+                <div
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-500/20 text-blue-400"
+                  title="后台监控运行中，本页面仅读取其记录的数据"
+                >
+                  <Server className="w-4 h-4" />
+                  <span className="text-sm">后台监控</span>
+                </div>
+              )}
+
               {/* Lock Window Indicator */}
               {isLockWindow && (
                 <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-yellow-500/20 text-yellow-400">
@@ -72,6 +126,7 @@ function App() {
                 </div>
               )}
 
+              <UserMenu />
               <NotificationToggle />
               <SettingsButton onClick={() => setSettingsOpen(true)} />
             </div>
@@ -100,9 +155,15 @@ function App() {
           </div>
         )}
 
+        {/* All Pairs */}
+        <PairOverview />
+
         {/* Current Rate Card */}
         <CurrentRateCard isLoading={isLoading} onRefresh={refetch} />
 
+        {/* Platform Rate Recommendation */}
+        <RateRecommendation />
+
         {/* Tab Navigation */}
         <div className="flex items-center gap-2">
           <button
@@ -125,35 +186,83 @@ function App() {
             <Table className="w-4 h-4" />
             历史数据
           </button>
+          <button
+            onClick={() => setActiveTab('daily')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${activeTab === 'daily'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            每日统计
+          </button>
+          <button
+            onClick={() => setActiveTab('pnl')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${activeTab === 'pnl'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+          >
+            <Wallet className="w-4 h-4" />
+            盈亏
+          </button>
+          <button
+            onClick={() => setActiveTab('alerts')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${activeTab === 'alerts'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+          >
+            <Siren className="w-4 h-4" />
+            告警记录
+          </button>
+          <button
+            onClick={() => setActiveTab('backtest')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${activeTab === 'backtest'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+          >
+            <FlaskConical className="w-4 h-4" />
+            规则回测
+          </button>
+          <button
+            onClick={() => setActiveTab('export')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${activeTab === 'export'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+          >
+            <FileDown className="w-4 h-4" />
+            导入导出
+          </button>
         </div>
 
         {/* Chart or Table */}
-        {activeTab === 'chart' ? <RateChart /> : <HistoryTable />}
+        {activeTab === 'chart' && <RateChart />}
+        {activeTab === 'table' && <HistoryTable key={pair.id} />}
+        {activeTab === 'daily' && <DailyStatsTable />}
+        {activeTab === 'pnl' && <PnlPanel />}
+        {activeTab === 'alerts' && <AlertsTable />}
+        {activeTab === 'backtest' && <BacktestPanel key={pair.id} />}
+        {activeTab === 'export' && (
+          <>
+            <ExportPanel key={pair.id} />
+            <ImportWizard key={`import-${pair.id}`} />
+          </>
+        )}
 
         {/* Info Footer */}
         <div className="bg-gray-800/30 rounded-xl p-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-            <div>
-              <h3 className="text-gray-400 font-medium mb-2">点差规则</h3>
-              <ul className="text-gray-500 space-y-1">
-                <li className="flex items-center gap-2"><span className="text-yellow-400">⚠️</span> |点差| ≥0.05: 注意</li>
-                <li className="flex items-center gap-2"><span className="text-orange-400">●</span> |点差| ≥0.06: 危险</li>
-                <li className="flex items-center gap-2"><span className="text-red-400">●</span> |点差| ≥0.08: 紧急</li>
-              </ul>
-            </div>
-            <div>
-              <h3 className="text-gray-400 font-medium mb-2">锁价时段 (23:20-00:30)</h3>
-              <ul className="text-gray-500 space-y-1">
-                <li>• |点差| ≥0.04: 黄色警告</li>
-                <li>• 连续2次扩张: 红色警告</li>
-                <li>• 刷新频率: 每分钟</li>
-              </ul>
-            </div>
+            <RiskLegend />
             <div>
               <h3 className="text-gray-400 font-medium mb-2">数据来源</h3>
               <ul className="text-gray-500 space-y-1">
-                <li>• CoinGecko API</li>
-                <li>• 时区: GMT+8 (马来西亚)</li>
+                {getRateSources(pair.id).map(source => (
+                  <li key={source.id}>• {source.name}</li>
+                ))}
+                <li>• 时区: {getTimeZoneLabel(pair)} ({pair.region})</li>
                 <li>• 历史保留: 7天</li>
               </ul>
             </div>
@@ -165,14 +274,16 @@ function App() {
       <footer className="bg-gray-800/30 border-t border-gray-700 mt-8">
         <div className="max-w-7xl mx-auto px-4 py-4">
           <div className="flex items-center justify-between text-sm text-gray-500">
-            <span>MYR/USDT 汇率监控系统 v1.0</span>
-            <span>当前时间: {formattedTime} (GMT+8)</span>
+            <span>USDT 汇率监控系统 v1.0</span>
+            <span>当前时间: {formattedTime} ({getTimeZoneLabel(pair)})</span>
           </div>
         </div>
       </footer>
 
+      <Toaster theme="dark" position="bottom-right" richColors />
+
       {/* Settings Modal */}
-      <SettingsPanel isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+      <SettingsPanel key={pair.id} isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
     </div>
   );
 }
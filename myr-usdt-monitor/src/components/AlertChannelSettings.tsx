@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import {
+  AlertChannelConfig,
+  AlertChannelType,
+  DEFAULT_ALERT_TEMPLATE,
+  buildAlertMessage,
+  deliverAlert,
+  getAlertChannelAdapter,
+  hasChannelSecrets,
+} from '../services/alertChannels';
+import { RiskTransition } from '../services/riskTransitions';
+import { usePairConfig } from '../store/rateStore';
+import type { PairConfig } from '../utils/pairs';
+import { getRiskText } from '../utils/rateUtils';
+import { Plus, Trash2, Send } from 'lucide-react';
+
+interface AlertChannelSettingsProps {
+  channels: AlertChannelConfig[];
+  errors: string[];
+  onChange: (channels: AlertChannelConfig[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500';
+
+function createChannel(type: AlertChannelType, base?: AlertChannelConfig): AlertChannelConfig {
+  const common = {
+    id: base?.id ?? `channel-${Date.now()}`,
+    name: base?.name ?? '',
+    enabled: base?.enabled ?? true,
+    minLevel: base?.minLevel ?? 'danger',
+    template: base?.template,
+    maxAttempts: base?.maxAttempts ?? 3,
+  } as const;
+  switch (type) {
+    case 'webhook': return { ...common, type, url: '' };
+    case 'chatbot': return { ...common, type, apiBase: 'https://api.telegram.org', chatId: '' };
+    case 'email': return { ...common, type, host: '', port: 25, from: '', to: [] };
+  }
+}
+
+function getTypeLabel(type: AlertChannelType): string {
+  switch (type) {
+    case 'webhook': return 'Webhook';
+    case 'chatbot': return '聊天机器人';
+    case 'email': return '邮件 (SMTP)';
+  }
+}
+
+// Synthetic transition used by the test button
+function createTestTransition(pair: PairConfig): RiskTransition {
+  return {
+    pair: pair.id,
+    from: { level: 'safe', side: null },
+    to: { level: 'danger', side: 'loss' },
+    diff: -0.06 * pair.scale,
+    marketRate: pair.defaultPlatformRate + 0.06 * pair.scale,
+    platformRate: pair.defaultPlatformRate,
+    isLockWindow: false,
+    timestamp: Date.now(),
+  };
+}
+
+export function AlertChannelSettings({ channels, errors, onChange }: AlertChannelSettingsProps) {
+  const [testStatus, setTestStatus] = useState<Record<string, string>>({});
+  const pair = usePairConfig();
+
+  const updateChannel = (index: number, next: AlertChannelConfig) => {
+    onChange(channels.map((channel, i) => (i === index ? next : channel)));
+  };
+
+  const handleTest = async (channel: AlertChannelConfig) => {
+    if (!getAlertChannelAdapter(channel.type)?.isSupported()) {
+      setTestStatus(prev => ({ ...prev, [channel.id]: '浏览器中不可用，由后台监控发送' }));
+      return;
+    }
+    if (!hasChannelSecrets(channel)) {
+      setTestStatus(prev => ({ ...prev, [channel.id]: '已保存的 Token 仅后台监控可读，请重新填写后测试' }));
+      return;
+    }
+    setTestStatus(prev => ({ ...prev, [channel.id]: '发送中...' }));
+    const delivered = await deliverAlert(
+      { ...channel, maxAttempts: 1 },
+      buildAlertMessage(channel, createTestTransition(pair))
+    );
+    setTestStatus(prev => ({ ...prev, [channel.id]: delivered ? '测试消息已发送' : '发送失败，详见投递日志' }));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-gray-400 text-sm">外部告警渠道</label>
+        <button
+          onClick={() => onChange([...channels, createChannel('webhook')])}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title="新增渠道"
+        >
+          <Plus className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {channels.map((channel, index) => (
+          <div key={channel.id} className="bg-gray-700/40 rounded-lg p-2 space-y-1">
+            <div className="grid grid-cols-6 gap-1 items-center">
+              <input
+                type="checkbox"
+                checked={channel.enabled}
+                onChange={(e) => updateChannel(index, { ...channel, enabled: e.target.checked })}
+                className="accent-blue-500 justify-self-start"
+                title="启用"
+              />
+              <input
+                value={channel.name}
+                onChange={(e) => updateChannel(index, { ...channel, name: e.target.value })}
+                className={`${inputClass} col-span-2`}
+                placeholder="渠道名称"
+              />
+              <select
+                value={channel.type}
+                onChange={(e) => updateChannel(index, createChannel(e.target.value as AlertChannelType, channel))}
+                className={inputClass}
+              >
+                {(['webhook', 'chatbot', 'email'] as const).map(type => (
+                  <option key={type} value={type}>{getTypeLabel(type)}</option>
+                ))}
+              </select>
+              <select
+                value={channel.minLevel}
+                onChange={(e) => updateChannel(index, { ...channel, minLevel: e.target.value as AlertChannelConfig['minLevel'] })}
+                className={inputClass}
+                title="最低等级"
+              >
+                {(['warning', 'danger', 'critical'] as const).map(level => (
+                  <option key={level} value={level}>≥ {getRiskText(level)}</option>
+                ))}
+              </select>
+              <div className="flex items-center justify-end gap-1">
+                <button
+                  onClick={() => handleTest(channel)}
+                  className="p-1 rounded hover:bg-white/10 transition-colors"
+                  title="发送测试消息"
+                >
+                  <Send className="w-4 h-4 text-gray-400" />
+                </button>
+                <button
+                  onClick={() => onChange(channels.filter((_, i) => i !== index))}
+                  className="p-1 rounded hover:bg-white/10 transition-colors"
+                  title="删除渠道"
+                >
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </button>
+              </div>
+            </div>
+
+            {channel.type === 'webhook' && (
+              <input
+                value={channel.url}
+                onChange={(e) => updateChannel(index, { ...channel, url: e.target.value })}
+                className={inputClass}
+                placeholder="https://example.com/hooks/alerts"
+              />
+            )}
+            {channel.type === 'chatbot' && (
+              <div className="grid grid-cols-3 gap-1">
+                <input
+                  value={channel.apiBase}
+                  onChange={(e) => updateChannel(index, { ...channel, apiBase: e.target.value })}
+                  className={inputClass}
+                  placeholder="Bot API 地址"
+                />
+                <input
+                  type="password"
+                  value={channel.botToken ?? ''}
+                  onChange={(e) => updateChannel(index, { ...channel, botToken: e.target.value || undefined })}
+                  className={inputClass}
+                  placeholder="Bot Token (留空不修改)"
+                />
+                <input
+                  value={channel.chatId}
+                  onChange={(e) => updateChannel(index, { ...channel, chatId: e.target.value })}
+                  className={inputClass}
+                  placeholder="Chat ID"
+                />
+              </div>
+            )}
+            {channel.type === 'email' && (
+              <div className="grid grid-cols-4 gap-1">
+                <input
+                  value={channel.host}
+                  onChange={(e) => updateChannel(index, { ...channel, host: e.target.value })}
+                  className={`${inputClass} col-span-3`}
+                  placeholder="SMTP 主机"
+                />
+                <input
+                  type="number"
+                  value={Number.isNaN(channel.port) ? '' : channel.port}
+                  onChange={(e) => updateChannel(index, { ...channel, port: parseInt(e.target.value, 10) })}
+                  className={inputClass}
+                  placeholder="端口"
+                />
+                <input
+                  value={channel.username ?? ''}
+                  onChange={(e) => updateChannel(index, { ...channel, username: e.target.value || undefined })}
+                  className={`${inputClass} col-span-2`}
+                  placeholder="用户名 (可选)"
+                />
+                <input
+                  type="password"
+                  value={channel.password ?? ''}
+                  onChange={(e) => updateChannel(index, { ...channel, password: e.target.value || undefined })}
+                  className={`${inputClass} col-span-2`}
+                  placeholder="密码 (可选，留空不修改)"
+                />
+                <input
+                  value={channel.from}
+                  onChange={(e) => updateChannel(index, { ...channel, from: e.target.value })}
+                  className={`${inputClass} col-span-2`}
+                  placeholder="发件地址"
+                />
+                <input
+                  value={channel.to.join(', ')}
+                  onChange={(e) => updateChannel(index, {
+                    ...channel,
+                    to: e.target.value.split(',').map(address => address.trim()).filter(Boolean),
+                  })}
+                  className={`${inputClass} col-span-2`}
+                  placeholder="收件地址，逗号分隔"
+                />
+              </div>
+            )}
+
+            <textarea
+              value={channel.template ?? ''}
+              onChange={(e) => updateChannel(index, { ...channel, template: e.target.value || undefined })}
+              className={`${inputClass} h-12 resize-none`}
+              placeholder={DEFAULT_ALERT_TEMPLATE}
+            />
+            {testStatus[channel.id] && (
+              <p className="text-gray-400 text-xs">{testStatus[channel.id]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-gray-500 text-xs mt-1">
+        模板变量: {'{{pairLabel}} {{levelText}} {{sideText}} {{diff}} {{marketRate}} {{platformRate}} {{time}}'}；失败自动重试
+      </p>
+      <p className="text-gray-500 text-xs mt-1">
+        Bot Token 和 SMTP 密码只保存在服务端，不会同步到各个看板；需要凭据的渠道由后台监控发送
+      </p>
+      {errors.map(error => (
+        <p key={error} className="text-red-400 text-xs mt-1">{error}</p>
+      ))}
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react';
-import { useRateStore } from '../store/rateStore';
-import { calculateRiskLevel, getRiskColor, getRiskBgColor, getRiskText, isLockPriceWindow, formatMalaysiaTime } from '../utils/rateUtils';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { assessRisk, getRiskBannerColor, getRiskText, isLockPriceWindow, formatLocalTime } from '../utils/rateUtils';
+import { getSideText } from '../utils/riskRules';
 import { AlertTriangle, X, Bell, BellOff, Volume2 } from 'lucide-react';
 
 export function AlertBanner() {
-  const { marketRate, platformRate, alertDismissed, dismissAlert, resetAlert, consecutiveExpansions } = useRateStore();
+  const { marketRate, platformRate, costBuffer, alertDismissed, activeAlert, dismissAlert, resetAlert, consecutiveExpansions, riskRules } = useRateStore();
+  const pair = usePairConfig();
 
   const diff = platformRate - marketRate;
-  const isLockWindow = isLockPriceWindow();
-  const riskLevel = calculateRiskLevel(diff, isLockWindow, consecutiveExpansions);
+  const isLockWindow = isLockPriceWindow(new Date(), pair);
+  const { level: riskLevel, side } = assessRisk(diff, { isLockWindow, consecutiveExpansions, costBuffer }, riskRules);
+  const isLossSide = side === 'loss';
 
   // Reset dismissed state when risk level changes
   useEffect(() => {
@@ -17,23 +21,32 @@ export function AlertBanner() {
     }
   }, [riskLevel, resetAlert]);
 
-  if (riskLevel === 'safe' || alertDismissed || marketRate === 0) {
+  // An acknowledged incident stays quiet, also across reloads
+  if (riskLevel === 'safe' || alertDismissed || activeAlert?.acknowledgedAt || marketRate === 0) {
     return null;
   }
 
-  const bgColor = riskLevel === 'critical' ? 'bg-red-600' :
-    riskLevel === 'danger' ? 'bg-orange-600' : 'bg-yellow-600';
+  const bgColor = getRiskBannerColor(riskLevel, side);
 
+  // Only a losing spread is urgent enough to flash
   return (
-    <div className={`fixed top-0 left-0 right-0 ${bgColor} ${riskLevel === 'critical' ? 'animate-pulse' : ''} z-50`}>
+    <div className={`fixed top-0 left-0 right-0 ${bgColor} ${riskLevel === 'critical' && isLossSide ? 'animate-pulse' : ''} z-50`}>
       <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
         <div className="flex items-center gap-3">
           <AlertTriangle className="w-5 h-5 text-white" />
           <span className="text-white font-medium">
-            {riskLevel === 'critical' && '🚨 紧急告警: '}
-            {riskLevel === 'danger' && '🔴 危险告警: '}
-            {riskLevel === 'warning' && '⚠️ 注意告警: '}
-            点差 {(diff >= 0 ? '+' : '') + diff.toFixed(4)} MYR
+            {isLossSide ? (
+              <>
+                {riskLevel === 'critical' && '🚨 紧急告警: '}
+                {riskLevel === 'danger' && '🔴 危险告警: '}
+                {riskLevel === 'warning' && '⚠️ 注意告警: '}
+              </>
+            ) : (
+              `📈 ${getRiskText(riskLevel, side)}: `
+            )}
+            {side && `${getSideText(side)} · `}
+            点差 {(diff >= 0 ? '+' : '') + diff.toFixed(4)} {pair.id}
+            {isLossSide && costBuffer > 0 && ` (含成本 ${(diff - costBuffer).toFixed(4)})`}
             {isLockWindow && ' (锁价时段)'}
           </span>
         </div>
@@ -49,18 +62,21 @@ export function AlertBanner() {
 }
 
 export function AlertModal() {
-  const { marketRate, platformRate, consecutiveExpansions } = useRateStore();
+  const { marketRate, platformRate, costBuffer, consecutiveExpansions, riskRules, activeAlert, acknowledgeAlert } = useRateStore();
+  const pair = usePairConfig();
   const [isOpen, setIsOpen] = useState(false);
   const [lastAlertTime, setLastAlertTime] = useState(0);
 
   const diff = platformRate - marketRate;
-  const isLockWindow = isLockPriceWindow();
-  const riskLevel = calculateRiskLevel(diff, isLockWindow, consecutiveExpansions);
+  const isLockWindow = isLockPriceWindow(new Date(), pair);
+  const { level: riskLevel, side } = assessRisk(diff, { isLockWindow, consecutiveExpansions, costBuffer }, riskRules);
 
-  // Show modal for critical alerts (with cooldown)
+  // Show modal for critical alerts on the losing side (with cooldown);
+  // an uncompetitive premium only raises the banner
   useEffect(() => {
     const now = Date.now();
-    if (riskLevel === 'critical' && marketRate > 0 && now - lastAlertTime > 300000) { // 5 min cooldown
+    if (activeAlert?.acknowledgedAt) return;
+    if (riskLevel === 'critical' && side === 'loss' && marketRate > 0 && now - lastAlertTime > 300000) { // 5 min cooldown
       setIsOpen(true);
       setLastAlertTime(now);
 
@@ -70,7 +86,12 @@ export function AlertModal() {
         audio.play().catch(() => { }); // Ignore if audio fails
       } catch { }
     }
-  }, [riskLevel, marketRate, lastAlertTime]);
+  }, [riskLevel, side, marketRate, lastAlertTime, activeAlert?.acknowledgedAt]);
+
+  const handleAcknowledge = () => {
+    setIsOpen(false);
+    if (activeAlert) acknowledgeAlert(activeAlert.id);
+  };
 
   if (!isOpen) return null;
 
@@ -84,7 +105,7 @@ export function AlertModal() {
 
           <h2 className="text-2xl font-bold text-red-500 mb-2">🚨 紧急告警</h2>
           <p className="text-gray-300 mb-6">
-            汇率点差已达到紧急水平，请立即关注！
+            平台汇率低于市场，亏损点差已达到紧急水平，请立即关注！
           </p>
 
           <div className="bg-gray-700/50 rounded-xl p-4 mb-6">
@@ -103,16 +124,21 @@ export function AlertModal() {
               <p className="text-3xl font-bold text-red-500">
                 {(diff >= 0 ? '+' : '') + diff.toFixed(4)}
               </p>
+              {costBuffer > 0 && (
+                <p className="text-gray-400 text-sm mt-1">
+                  含成本缓冲: {(diff - costBuffer).toFixed(4)}
+                </p>
+              )}
             </div>
           </div>
 
           <div className="text-sm text-gray-400 mb-6">
-            {formatMalaysiaTime()} (GMT+8)
+            {formatLocalTime(new Date(), undefined, pair.utcOffset)} ({getTimeZoneLabel(pair)})
             {isLockWindow && <span className="text-yellow-400 ml-2">• 锁价时段</span>}
           </div>
 
           <button
-            onClick={() => setIsOpen(false)}
+            onClick={handleAcknowledge}
             className="w-full px-6 py-3 bg-red-600 hover:bg-red-500 text-white rounded-xl font-medium transition-colors"
           >
             我已知晓
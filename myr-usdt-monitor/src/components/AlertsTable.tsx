@@ -0,0 +1,178 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { useCurrentTime } from '../hooks/useRateFetcher';
+import { getIncidentDuration, getResponseTime } from '../services/alertHistory';
+import { getRiskColor, getRiskBgColor, getRiskText, formatLocalTime, formatDuration } from '../utils/rateUtils';
+import { getSideText } from '../utils/riskRules';
+import { Siren, RefreshCw, ChevronDown, ChevronRight, CheckCircle } from 'lucide-react';
+
+type AlertFilter = 'all' | 'open' | 'closed';
+
+function formatSigned(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(4);
+}
+
+export function AlertsTable() {
+  const { alertHistory, acknowledgeAlert, loadAlertHistory } = useRateStore();
+  const pair = usePairConfig();
+  const { time } = useCurrentTime();
+  const [filter, setFilter] = useState<AlertFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const displayedAlerts = useMemo(() => {
+    return alertHistory.filter(alert => {
+      if (filter === 'open') return alert.endedAt === null;
+      if (filter === 'closed') return alert.endedAt !== null;
+      return true;
+    });
+  }, [alertHistory, filter]);
+
+  const openCount = alertHistory.filter(alert => alert.endedAt === null).length;
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadAlertHistory();
+    setIsRefreshing(false);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Siren className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">告警记录</h2>
+          {openCount > 0 && (
+            <span className="px-2 py-0.5 rounded text-xs bg-red-500/20 text-red-400">{openCount} 进行中</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as AlertFilter)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="all">全部</option>
+            <option value="open">进行中</option>
+            <option value="closed">已结束</option>
+          </select>
+          <button
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50"
+            title="刷新"
+          >
+            <RefreshCw className={`w-4 h-4 text-gray-300 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {displayedAlerts.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          暂无告警记录，点差离开安全区间时将自动记录
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">开始 ({getTimeZoneLabel(pair)})</th>
+                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">结束</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">持续时间</th>
+                <th className="px-4 py-3 text-center text-gray-400 text-sm font-medium">峰值等级</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">峰值点差</th>
+                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">确认</th>
+              </tr>
+            </thead>
+            <tbody>
+              {displayedAlerts.map(alert => {
+                const isExpanded = expandedId === alert.id;
+                const responseTime = getResponseTime(alert);
+                return (
+                  <Fragment key={alert.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : alert.id)}
+                      className="border-b border-gray-700/50 hover:bg-gray-700/30 cursor-pointer"
+                    >
+                      <td className="px-4 py-4 text-white font-medium">
+                        <div className="flex items-center gap-1">
+                          {isExpanded
+                            ? <ChevronDown className="w-4 h-4 text-gray-500" />
+                            : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                          {formatLocalTime(new Date(alert.startedAt), 'MM-dd HH:mm:ss', pair.utcOffset)}
+                        </div>
+                      </td>
+                      <td className="px-4 py-4 text-gray-300">
+                        {alert.endedAt === null ? (
+                          <span className="px-2 py-0.5 rounded text-xs bg-red-500/20 text-red-400 animate-pulse">进行中</span>
+                        ) : (
+                          formatLocalTime(new Date(alert.endedAt), 'MM-dd HH:mm:ss', pair.utcOffset)
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-right text-gray-300 font-mono">
+                        {formatDuration(getIncidentDuration(alert, time.getTime()))}
+                      </td>
+                      <td className="px-4 py-4 text-center">
+                        <span className={`px-3 py-1 rounded-full text-sm font-medium ${getRiskBgColor(alert.peakLevel, alert.peakSide)} ${getRiskColor(alert.peakLevel, alert.peakSide)}`}>
+                          {getRiskText(alert.peakLevel, alert.peakSide)}
+                        </span>
+                      </td>
+                      <td className={`px-4 py-4 text-right font-mono ${getRiskColor(alert.peakLevel, alert.peakSide)}`}>
+                        {formatSigned(alert.peakDiff)}
+                      </td>
+                      <td className="px-4 py-4 text-sm">
+                        {alert.acknowledgedAt !== null ? (
+                          <div className="text-gray-300">
+                            <div className="flex items-center gap-1">
+                              <CheckCircle className="w-4 h-4 text-green-400" />
+                              {alert.acknowledgedBy}
+                            </div>
+                            <div className="text-gray-500 text-xs">
+                              {formatLocalTime(new Date(alert.acknowledgedAt), 'HH:mm:ss', pair.utcOffset)}
+                              {responseTime !== null && ` · 响应 ${formatDuration(responseTime)}`}
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              acknowledgeAlert(alert.id);
+                            }}
+                            className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white text-xs transition-colors"
+                          >
+                            我已知晓
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-gray-700/50 bg-gray-900/30">
+                        <td colSpan={6} className="px-8 py-3">
+                          <ol className="space-y-1 text-sm">
+                            {alert.transitions.map((change, index) => (
+                              <li key={`${change.at}-${index}`} className="flex items-center gap-3">
+                                <span className="text-gray-500 font-mono">
+                                  {formatLocalTime(new Date(change.at), 'HH:mm:ss', pair.utcOffset)}
+                                </span>
+                                <span className={getRiskColor(change.level, change.side)}>
+                                  {getRiskText(change.level, change.side)}
+                                </span>
+                                {change.side && <span className="text-gray-500">{getSideText(change.side)}</span>}
+                                <span className="text-gray-400 font-mono">{formatSigned(change.diff)}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
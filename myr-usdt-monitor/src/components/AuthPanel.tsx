@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { useRateStore } from '../store/rateStore';
+import { getRoleText, signIn, signOut } from '../services/auth';
+import { Activity, LogIn, LogOut, UserCircle } from 'lucide-react';
+
+export function LoginPanel() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await signIn(email.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '登录失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl p-8 w-full max-w-sm space-y-5">
+        <div className="flex items-center gap-3">
+          <Activity className="w-8 h-8 text-blue-500" />
+          <div>
+            <h1 className="text-xl font-bold text-white">USDT 汇率监控</h1>
+            <p className="text-gray-400 text-sm">请登录后查看监控数据</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-gray-400 text-sm mb-2">邮箱</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="username"
+            required
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-400 text-sm mb-2">密码</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <LogIn className="w-4 h-4" />
+          {isSubmitting ? '登录中...' : '登录'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function UserMenu() {
+  const { authUser } = useRateStore();
+  if (!authUser) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-800">
+      <UserCircle className="w-4 h-4 text-gray-400" />
+      <span className="text-sm text-gray-300">{authUser.displayName || authUser.email}</span>
+      <span className="px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-400">{getRoleText(authUser.role)}</span>
+      <button
+        onClick={() => signOut().catch(error => console.error('Sign-out failed:', error))}
+        className="p-1 rounded hover:bg-white/10 transition-colors"
+        title="退出登录"
+      >
+        <LogOut className="w-4 h-4 text-gray-400" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { backfillHistory, BackfillResult } from '../services/backfill';
+import { getBusinessDateKey } from '../utils/rateUtils';
+import { History, Loader2 } from 'lucide-react';
+
+export function BackfillPanel() {
+  const { platformRates, costBuffer, riskRules, syncWithSupabase } = useRateStore();
+  const pair = usePairConfig();
+  const today = getBusinessDateKey(new Date(), pair.utcOffset);
+
+  const [fromDate, setFromDate] = useState(getBusinessDateKey(new Date(Date.now() - 7 * 24 * 3600000), pair.utcOffset));
+  const [toDate, setToDate] = useState(getBusinessDateKey(new Date(Date.now() - 24 * 3600000), pair.utcOffset));
+  const [historicalRate, setHistoricalRate] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<BackfillResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBackfill = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setError('请选择有效的日期范围');
+      return;
+    }
+    const rate = historicalRate.trim() === '' ? null : parseFloat(historicalRate);
+    if (rate !== null && !(rate > 0)) {
+      setError('请输入有效的平台汇率');
+      return;
+    }
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const backfilled = await backfillHistory(pair, fromDate, toDate, rate, riskRules, costBuffer, platformRates);
+      setResult(backfilled);
+      if (backfilled.inserted > 0) await syncWithSupabase();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '回填失败');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-gray-400 text-sm mb-2">
+        历史数据回填
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={fromDate}
+          max={today}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+        <span className="text-gray-500">~</span>
+        <input
+          type="date"
+          value={toDate}
+          max={today}
+          onChange={(e) => setToDate(e.target.value)}
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleBackfill}
+          disabled={isRunning}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm flex items-center gap-1 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+          回填
+        </button>
+      </div>
+      <input
+        type="number"
+        step="0.0001"
+        value={historicalRate}
+        onChange={(e) => setHistoricalRate(e.target.value)}
+        placeholder={`当时的平台汇率 (${pair.id}，仅用于账本中没有记录的日期)`}
+        className="w-full mt-2 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+      />
+      {error && <p className="text-red-400 text-xs mt-1">{error}</p>}
+      {result && (
+        <p className="text-gray-500 text-xs mt-1">
+          已回填 {result.filled.length} 天 ({result.inserted} 条)，跳过已有 {result.skipped.length} 天
+          {result.empty.length > 0 && `，无数据 ${result.empty.length} 天`}
+          {result.unpriced.length > 0 && `，缺少平台汇率 ${result.unpriced.length} 天 (${result.unpriced.join('、')})`}
+        </p>
+      )}
+      {!result && !error && (
+        <p className="text-gray-500 text-xs mt-1">
+          从历史数据源补录缺失日期，已有记录的日期将自动跳过
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useMemo, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import type { RateRecord } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { fetchRateHistory } from '../services/rateRepository';
+import { BacktestResult, BacktestSegment, runBacktest } from '../utils/backtest';
+import { RiskRulesEditor } from './RiskRulesEditor';
+import { RiskAssessment, RiskLevel, RiskRule, validateRiskRules } from '../utils/riskRules';
+import { formatDuration, formatLocalTime, getBusinessDateKey, getBusinessDayRange, getRiskColor, getRiskText } from '../utils/rateUtils';
+import { FlaskConical, Loader2, Play } from 'lucide-react';
+
+const ALERT_LEVELS: RiskLevel[] = ['warning', 'danger', 'critical'];
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 200;
+const STRIP_HEIGHT = 14;
+
+// Overlay fill for a stretch at a level; the uncompetitive side stays blue as elsewhere
+function getSegmentFill(assessment: RiskAssessment): string | null {
+  if (assessment.level === 'safe') return null;
+  if (assessment.side === 'uncompetitive') {
+    return { warning: '#60A5FA', danger: '#3B82F6', critical: '#1D4ED8' }[assessment.level];
+  }
+  return { warning: '#EAB308', danger: '#F97316', critical: '#EF4444' }[assessment.level];
+}
+
+interface BacktestRun {
+  records: RateRecord[];
+  start: number;
+  end: number;
+  current: BacktestResult;
+  candidate: BacktestResult;
+}
+
+export function BacktestPanel() {
+  const { riskRules, costBuffer } = useRateStore();
+  const pair = usePairConfig();
+  const today = getBusinessDateKey(new Date(), pair.utcOffset);
+
+  const [fromDate, setFromDate] = useState(getBusinessDateKey(new Date(Date.now() - 30 * 24 * 3600000), pair.utcOffset));
+  const [toDate, setToDate] = useState(today);
+  const [candidateRules, setCandidateRules] = useState<RiskRule[]>(riskRules);
+  const [ruleErrors, setRuleErrors] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState<BacktestRun | null>(null);
+
+  const handleRun = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setError('请选择有效的日期范围');
+      return;
+    }
+    const { rules, errors } = validateRiskRules(candidateRules, pair.scale);
+    setRuleErrors(errors);
+    if (!rules) return;
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const start = getBusinessDayRange(fromDate, pair.utcOffset).start;
+      const end = Math.min(getBusinessDayRange(toDate, pair.utcOffset).end, Date.now());
+      const records = await fetchRateHistory(pair.id, start, end);
+      setRun({
+        records,
+        start,
+        end,
+        current: runBacktest(records, riskRules, pair, costBuffer, end),
+        candidate: runBacktest(records, rules, pair, costBuffer, end),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '回测失败');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">规则回测</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={fromDate}
+            max={today}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="date"
+            value={toDate}
+            max={today}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm flex items-center gap-1 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            回测
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <RiskRulesEditor
+        rules={candidateRules}
+        errors={ruleErrors}
+        scale={pair.scale}
+        onChange={(rules) => {
+          setCandidateRules(rules);
+          setRuleErrors([]);
+        }}
+      />
+
+      {run && (
+        run.records.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            所选日期范围内没有历史记录
+          </div>
+        ) : (
+          <>
+            <p className="text-gray-500 text-sm">
+              回放 {run.records.length} 条记录 · {formatLocalTime(new Date(run.start), 'yyyy-MM-dd HH:mm', pair.utcOffset)} ~ {formatLocalTime(new Date(run.end), 'yyyy-MM-dd HH:mm', pair.utcOffset)} ({getTimeZoneLabel(pair)})
+            </p>
+            <p className="text-gray-500 text-xs">
+              连续扩张按轮询估算：相邻记录间隔超过一次轮询，视为中间有一次未变化的轮询，连续次数清零
+            </p>
+            <BacktestTable run={run} />
+            <BacktestOverlay run={run} />
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+function BacktestTable({ run }: { run: BacktestRun }) {
+  const pair = usePairConfig();
+  const formatTrigger = (at: number | null) =>
+    at === null ? '-' : formatLocalTime(new Date(at), 'MM-dd HH:mm:ss', pair.utcOffset);
+
+  const renderDelta = (current: number, candidate: number) => {
+    const delta = candidate - current;
+    if (delta === 0) return null;
+    return (
+      <span className={`ml-1 text-xs ${delta > 0 ? 'text-red-400' : 'text-green-400'}`}>
+        ({delta > 0 ? '+' : ''}{delta})
+      </span>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-700">
+            <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">等级</th>
+            <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">告警次数 (当前 / 候选)</th>
+            <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">持续时间 (当前 / 候选)</th>
+            <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">首次触发 (当前 / 候选)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ALERT_LEVELS.map(level => (
+            <tr key={level} className="border-b border-gray-700/50">
+              <td className={`px-4 py-3 font-medium ${getRiskColor(level)}`}>{getRiskText(level)}</td>
+              <td className="px-4 py-3 text-right text-gray-300 font-mono">
+                {run.current.alerts[level]} / {run.candidate.alerts[level]}
+                {renderDelta(run.current.alerts[level], run.candidate.alerts[level])}
+              </td>
+              <td className="px-4 py-3 text-right text-gray-300 font-mono">
+                {formatDuration(run.current.timeInLevel[level])} / {formatDuration(run.candidate.timeInLevel[level])}
+              </td>
+              <td className="px-4 py-3 text-right text-gray-300 font-mono text-sm">
+                {formatTrigger(run.current.firstTrigger[level])} / {formatTrigger(run.candidate.firstTrigger[level])}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="px-4 py-3 text-gray-400">告警事件</td>
+            <td className="px-4 py-3 text-right text-gray-300 font-mono">
+              {run.current.incidents} / {run.candidate.incidents}
+              {renderDelta(run.current.incidents, run.candidate.incidents)}
+            </td>
+            <td className="px-4 py-3 text-right text-gray-500 font-mono">
+              安全 {formatDuration(run.current.timeInLevel.safe)} / {formatDuration(run.candidate.timeInLevel.safe)}
+            </td>
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Market and platform rate over the range, with a strip under the chart for
+// each rule set showing where it would have been alerting
+function BacktestOverlay({ run }: { run: BacktestRun }) {
+  const pair = usePairConfig();
+  const { records, start, end } = run;
+
+  const { marketPath, platformPath, minRate, maxRate, xScale } = useMemo(() => {
+    // A month of records is too many to spread into Math.min
+    const min = records.reduce((acc, r) => Math.min(acc, r.marketRate, r.platformRate), Infinity) - 0.02 * pair.scale;
+    const max = records.reduce((acc, r) => Math.max(acc, r.marketRate, r.platformRate), -Infinity) + 0.02 * pair.scale;
+    const x = (timestamp: number) => ((timestamp - start) / (end - start || 1)) * CHART_WIDTH;
+    const y = (rate: number) => CHART_HEIGHT - ((rate - min) / (max - min)) * CHART_HEIGHT;
+
+    return {
+      marketPath: records.map((r, i) => `${i === 0 ? 'M' : 'L'} ${x(r.timestamp)} ${y(r.marketRate)}`).join(' '),
+      platformPath: records
+        .map((r, i) => (i === 0
+          ? `M ${x(r.timestamp)} ${y(r.platformRate)}`
+          : `L ${x(r.timestamp)} ${y(records[i - 1].platformRate)} L ${x(r.timestamp)} ${y(r.platformRate)}`))
+        .join(' '),
+      minRate: min,
+      maxRate: max,
+      xScale: x,
+    };
+  }, [records, start, end, pair.scale]);
+
+  const renderStrip = (segments: BacktestSegment[], top: number) => segments.map(segment => {
+    const fill = getSegmentFill(segment.assessment);
+    if (!fill) return null;
+    return (
+      <rect
+        key={`${top}-${segment.start}`}
+        x={xScale(segment.start)}
+        y={top}
+        width={Math.max(1, xScale(segment.end) - xScale(segment.start))}
+        height={STRIP_HEIGHT}
+        fill={fill}
+      />
+    );
+  });
+
+  const currentTop = CHART_HEIGHT + 16;
+  const candidateTop = currentTop + STRIP_HEIGHT + 6;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH + 100} ${candidateTop + STRIP_HEIGHT + 50}`} className="w-full">
+        <text x="45" y="25" fill="#9CA3AF" fontSize="10" textAnchor="end">{maxRate.toFixed(3)}</text>
+        <text x="45" y={CHART_HEIGHT + 20} fill="#9CA3AF" fontSize="10" textAnchor="end">{minRate.toFixed(3)}</text>
+
+        <g transform="translate(50, 20)">
+          <rect x="0" y="0" width={CHART_WIDTH} height={CHART_HEIGHT} fill="none" stroke="#374151" strokeDasharray="4" />
+          <path d={marketPath} fill="none" stroke="#10B981" strokeWidth="1.5" />
+          <path d={platformPath} fill="none" stroke="#3B82F6" strokeWidth="1.5" strokeDasharray="5 5" />
+
+          <text x="-5" y={currentTop + 10} fill="#9CA3AF" fontSize="10" textAnchor="end">当前</text>
+          <rect x="0" y={currentTop} width={CHART_WIDTH} height={STRIP_HEIGHT} fill="#1F2937" />
+          {renderStrip(run.current.segments, currentTop)}
+
+          <text x="-5" y={candidateTop + 10} fill="#9CA3AF" fontSize="10" textAnchor="end">候选</text>
+          <rect x="0" y={candidateTop} width={CHART_WIDTH} height={STRIP_HEIGHT} fill="#1F2937" />
+          {renderStrip(run.candidate.segments, candidateTop)}
+        </g>
+
+        {[start, (start + end) / 2, end].map(at => (
+          <text
+            key={at}
+            x={xScale(at) + 50}
+            y={candidateTop + STRIP_HEIGHT + 40}
+            fill="#9CA3AF"
+            fontSize="10"
+            textAnchor="middle"
+          >
+            {formatLocalTime(new Date(at), 'MM-dd HH:mm', pair.utcOffset)}
+          </text>
+        ))}
+      </svg>
+
+      <div className="mt-2 flex items-center justify-center gap-6 text-sm">
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-green-500"></div>
+          <span className="text-gray-400">市场汇率</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full bg-blue-500"></div>
+          <span className="text-gray-400">平台汇率</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-yellow-500"></div>
+          <div className="w-3 h-3 bg-orange-500"></div>
+          <div className="w-3 h-3 bg-red-500"></div>
+          <span className="text-gray-400">亏损风险</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-blue-400"></div>
+          <div className="w-3 h-3 bg-blue-700"></div>
+          <span className="text-gray-400">竞争力不足</span>
+        </div>
+      </div>
+    </div>
+  );
+}
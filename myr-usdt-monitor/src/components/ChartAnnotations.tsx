@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { validateNote } from '../services/annotations';
+import { formatLocalTime, getLockWindowRanges } from '../utils/rateUtils';
+import type { AnnotationMarker } from '../hooks/useAnnotationMarkers';
+import { StickyNote, X } from 'lucide-react';
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+interface AnnotationLayerProps {
+  view: TimeRange;
+  markers: AnnotationMarker[];
+  height: number;
+  xScale: (timestamp: number) => number;
+  onHover: (marker: AnnotationMarker | null) => void;
+  onSelect: (marker: AnnotationMarker) => void;
+}
+
+// Drawn inside the chart area: lock windows shaded behind the lines, markers
+// as a dashed rule with a handle along the top edge
+export function AnnotationLayer({ view, markers, height, xScale, onHover, onSelect }: AnnotationLayerProps) {
+  const pair = usePairConfig();
+  const lockWindows = useMemo(() => getLockWindowRanges(view.start, view.end, pair), [view.start, view.end, pair]);
+
+  return (
+    <g>
+      {lockWindows.map(range => (
+        <rect
+          key={range.start}
+          x={xScale(range.start)}
+          y={0}
+          width={Math.max(xScale(range.end) - xScale(range.start), 1)}
+          height={height}
+          fill="#EAB308"
+          fillOpacity="0.08"
+        />
+      ))}
+
+      {markers.map(marker => {
+        const x = xScale(marker.timestamp);
+        return (
+          <g key={marker.id}>
+            <line x1={x} x2={x} y1={0} y2={height} stroke={marker.color} strokeOpacity="0.5" strokeDasharray="2 3" pointerEvents="none" />
+            <g
+              className="cursor-pointer"
+              onMouseDown={(e) => e.stopPropagation()}
+              onMouseEnter={() => onHover(marker)}
+              onMouseLeave={() => onHover(null)}
+              onClick={() => onSelect(marker)}
+            >
+              {marker.kind === 'note' && <path d={`M ${x - 5} 0 L ${x + 5} 0 L ${x} 8 Z`} fill={marker.color} />}
+              {marker.kind === 'risk' && <circle cx={x} cy={4} r={4} fill={marker.color} />}
+              {marker.kind === 'platform' && <rect x={x - 4} y={0} width={8} height={8} fill={marker.color} />}
+              {marker.kind === 'setting' && <path d={`M ${x} 0 L ${x + 4} 4 L ${x} 8 L ${x - 4} 4 Z`} fill={marker.color} />}
+            </g>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+interface NoteComposerProps {
+  timestamp: number;
+  onClose: () => void;
+}
+
+export function NoteComposer({ timestamp, onClose }: NoteComposerProps) {
+  const { addNote } = useRateStore();
+  const pair = usePairConfig();
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = async () => {
+    const { note, errors: noteErrors } = validateNote({ timestamp, text });
+    setErrors(noteErrors);
+    if (!note) return;
+    if (await addNote(note.timestamp, note.text)) onClose();
+  };
+
+  return (
+    <div className="mb-3 bg-gray-900/60 border border-yellow-500/30 rounded-lg p-3">
+      <div className="flex items-center gap-2">
+        <StickyNote className="w-4 h-4 text-yellow-400 shrink-0" />
+        <span className="text-gray-400 text-sm shrink-0">
+          {formatLocalTime(new Date(timestamp), 'MM-dd HH:mm:ss', pair.utcOffset)}
+        </span>
+        <input
+          type="text"
+          value={text}
+          autoFocus
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="备注内容，例如：供应商报价异常"
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors"
+        >
+          保存
+        </button>
+        <button onClick={onClose} className="p-1 rounded hover:bg-white/10 transition-colors" title="取消">
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+      {errors.length > 0 && <p className="text-red-400 text-xs mt-1">{errors.join('，')}</p>}
+    </div>
+  );
+}
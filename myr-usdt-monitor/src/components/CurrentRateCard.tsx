@@ -1,11 +1,15 @@
-import { useRateStore } from '../store/rateStore';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { RateConsensus } from '../services/rateApi';
+import { getRateSourceName } from '../services/rateSources';
+import { getSideText } from '../utils/riskRules';
 import { useCurrentTime } from '../hooks/useRateFetcher';
 import {
-  calculateRiskLevel,
+  assessRisk,
   getRiskColor,
   getRiskBgColor,
   getRiskText,
   calculateAdjustedDiff,
+  formatLocalTime,
   isLockPriceWindow,
 } from '../utils/rateUtils';
 import { RefreshCw, Clock, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
@@ -16,18 +20,20 @@ interface CurrentRateCardProps {
 }
 
 export function CurrentRateCard({ isLoading, onRefresh }: CurrentRateCardProps) {
-  const { marketRate, platformRate, costBuffer, consecutiveExpansions, lastUpdated } = useRateStore();
-  const { formattedTime, isLockWindow } = useCurrentTime();
+  const { marketRate, platformRate, platformRates, costBuffer, consecutiveExpansions, lastUpdated, rateConsensus, riskRules } = useRateStore();
+  const pair = usePairConfig();
+  const { time, formattedTime, isLockWindow } = useCurrentTime();
+  const scheduledRate = platformRates.find(e => e.effectiveFrom > time.getTime());
 
   const diff = platformRate - marketRate;
   const adjustedDiff = calculateAdjustedDiff(marketRate, platformRate, costBuffer);
-  const riskLevel = calculateRiskLevel(diff, isLockWindow, consecutiveExpansions);
+  const { level: riskLevel, side } = assessRisk(diff, { isLockWindow, consecutiveExpansions, costBuffer }, riskRules);
 
-  const riskColorClass = getRiskColor(riskLevel);
-  const riskBgClass = getRiskBgColor(riskLevel);
+  const riskColorClass = getRiskColor(riskLevel, side);
+  const riskBgClass = getRiskBgColor(riskLevel, side);
 
   return (
-    <div className={`rounded-xl border-2 p-6 ${riskBgClass} ${riskLevel === 'critical' ? 'animate-pulse' : ''}`}>
+    <div className={`rounded-xl border-2 p-6 ${riskBgClass} ${riskLevel === 'critical' && side === 'loss' ? 'animate-pulse' : ''}`}>
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-3">
@@ -57,7 +63,7 @@ export function CurrentRateCard({ isLoading, onRefresh }: CurrentRateCardProps)
           <p className="text-4xl font-bold text-white">
             {marketRate > 0 ? marketRate.toFixed(4) : '--'}
           </p>
-          <p className="text-gray-500 text-xs mt-1">1 USDT = ? MYR</p>
+          <p className="text-gray-500 text-xs mt-1">1 USDT = ? {pair.id}</p>
         </div>
 
         {/* Platform Rate */}
@@ -66,7 +72,11 @@ export function CurrentRateCard({ isLoading, onRefresh }: CurrentRateCardProps)
           <p className="text-4xl font-bold text-blue-400">
             {platformRate.toFixed(4)}
           </p>
-          <p className="text-gray-500 text-xs mt-1">当日锁定</p>
+          <p className="text-gray-500 text-xs mt-1">
+            {scheduledRate
+              ? `下一汇率 ${scheduledRate.rate.toFixed(4)} · ${formatLocalTime(new Date(scheduledRate.effectiveFrom), 'HH:mm', pair.utcOffset)} 生效`
+              : '当日锁定'}
+          </p>
         </div>
 
         {/* Diff */}
@@ -90,18 +100,22 @@ export function CurrentRateCard({ isLoading, onRefresh }: CurrentRateCardProps)
       <div className="mt-6 flex items-center justify-center gap-4">
         <div className={`px-4 py-2 rounded-full ${riskBgClass} border`}>
           <span className={`font-semibold ${riskColorClass}`}>
-            风险等级: {getRiskText(riskLevel)}
+            风险等级: {getRiskText(riskLevel, side)}
+            {side && ` · ${getSideText(side)}`}
           </span>
         </div>
         {costBuffer > 0 && (
           <div className="text-gray-400 text-sm">
-            实际风险点差: <span className={diff - costBuffer >= 0.05 ? 'text-yellow-400' : 'text-gray-300'}>
+            实际风险点差: <span className={side === 'loss' ? riskColorClass : 'text-gray-300'}>
               {(adjustedDiff >= 0 ? '+' : '') + adjustedDiff.toFixed(4)}
             </span>
           </div>
         )}
       </div>
 
+      {/* Source Breakdown */}
+      {rateConsensus && <SourceBreakdown consensus={rateConsensus} />}
+
       {/* Last Updated */}
       <div className="mt-4 text-center text-gray-500 text-xs">
         上次更新: {new Date(lastUpdated).toLocaleTimeString('zh-CN')}
@@ -110,3 +124,42 @@ export function CurrentRateCard({ isLoading, onRefresh }: CurrentRateCardProps)
     </div>
   );
 }
+
+function getConfidenceColor(confidence: number): string {
+  if (confidence >= 0.75) return 'text-green-400';
+  if (confidence >= 0.4) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+function SourceBreakdown({ consensus }: { consensus: RateConsensus }) {
+  return (
+    <div className="mt-6 bg-gray-800/40 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <span className="text-gray-400">数据源共识 ({consensus.quotes.length} 个有效)</span>
+        <span className="text-gray-400">
+          可信度: <span className={`font-semibold ${getConfidenceColor(consensus.confidence)}`}>
+            {(consensus.confidence * 100).toFixed(0)}%
+          </span>
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+        {consensus.quotes.map(quote => (
+          <div key={quote.source} className="flex items-center justify-between px-3 py-2 bg-gray-700/40 rounded">
+            <span className="text-gray-300">{getRateSourceName(quote.source)}</span>
+            <span className="font-mono text-white" title={`买 ${quote.bid.toFixed(4)} / 卖 ${quote.ask.toFixed(4)}`}>
+              {quote.mid.toFixed(4)}
+            </span>
+          </div>
+        ))}
+        {consensus.dropped.map(dropped => (
+          <div key={dropped.source} className="flex items-center justify-between px-3 py-2 bg-red-500/10 rounded" title={dropped.reason}>
+            <span className="text-gray-500 line-through">{getRateSourceName(dropped.source)}</span>
+            <span className="font-mono text-red-400/70 text-xs">
+              {dropped.quote ? dropped.quote.mid.toFixed(4) : '已剔除'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
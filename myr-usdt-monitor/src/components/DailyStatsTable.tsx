@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { useDailyPnl } from '../hooks/useDailyPnl';
+import { getRiskColor, getRiskBgColor, getRiskText, getBusinessDateKey } from '../utils/rateUtils';
+import { CalendarDays, RefreshCw } from 'lucide-react';
+
+function formatSigned(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(4);
+}
+
+export function DailyStatsTable() {
+  const { dailyStats, lockTime, recomputeDailyStats } = useRateStore();
+  const pair = usePairConfig();
+  const [recomputeDate, setRecomputeDate] = useState(getBusinessDateKey(new Date(), pair.utcOffset));
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const dailyPnl = useDailyPnl();
+  const pnlByDate = useMemo(() => new Map(dailyPnl.map(day => [day.date, day])), [dailyPnl]);
+
+  const displayedStats = useMemo(() => {
+    return [...dailyStats].sort((a, b) => b.date.localeCompare(a.date));
+  }, [dailyStats]);
+
+  const handleRecompute = async (date: string) => {
+    setBusyDate(date);
+    setMessage(null);
+    const stats = await recomputeDailyStats(date);
+    setMessage(stats ? `${date} 已重新统计 (${stats.sampleCount} 条记录)` : `${date} 无可用记录`);
+    setBusyDate(null);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">每日统计</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={recomputeDate}
+            max={getBusinessDateKey(new Date(), pair.utcOffset)}
+            onChange={(e) => setRecomputeDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={() => handleRecompute(recomputeDate)}
+            disabled={!recomputeDate || busyDate !== null}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${busyDate === recomputeDate ? 'animate-spin' : ''}`} />
+            重新统计
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="text-gray-400 text-sm mb-4">{message}</p>}
+
+      {displayedStats.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          暂无统计数据，监控过程中将按营业日自动汇总
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">日期 ({getTimeZoneLabel(pair)})</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">平台汇率</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium" title="均值按记录条数计算，未按时间加权">市场汇率 (低/均/高)</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium" title="均值按记录条数计算，未按时间加权">点差 (低/均/高)</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">{lockTime} 汇率</th>
+                <th className="px-4 py-3 text-center text-gray-400 text-sm font-medium">最高风险</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">盈亏 ({pair.id})</th>
+                <th className="px-4 py-3 text-center text-gray-400 text-sm font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {displayedStats.map(stats => {
+                const pnl = pnlByDate.get(stats.date);
+                return (
+                <tr key={stats.date} className="border-b border-gray-700/50">
+                  <td className="px-4 py-4 text-white font-medium">
+                    {stats.date}
+                    {stats.source?.startsWith('backfill') && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-400" title={stats.source}>
+                        回填
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-right text-blue-400 font-mono">
+                    {stats.platformRate.toFixed(4)}
+                  </td>
+                  <td className="px-4 py-4 text-right font-mono text-sm text-gray-300">
+                    {stats.minMarketRate.toFixed(4)} / <span className="text-white">{stats.avgMarketRate.toFixed(4)}</span> / {stats.maxMarketRate.toFixed(4)}
+                  </td>
+                  <td className="px-4 py-4 text-right font-mono text-sm text-gray-300">
+                    {formatSigned(stats.minDiff)} / <span className="text-white">{formatSigned(stats.avgDiff)}</span> / {formatSigned(stats.maxDiff)}
+                  </td>
+                  <td className="px-4 py-4 text-right font-mono text-white">
+                    {stats.lockTimeRate !== undefined ? stats.lockTimeRate.toFixed(4) : '--'}
+                  </td>
+                  <td className="px-4 py-4 text-center">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getRiskBgColor(stats.riskLevel)} ${getRiskColor(stats.riskLevel)}`}>
+                      {getRiskText(stats.riskLevel)}
+                    </span>
+                  </td>
+                  <td
+                    className={`px-4 py-4 text-right font-mono ${!pnl ? 'text-gray-500' : pnl.total >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                    title={pnl ? `已实现 ${pnl.realized.toFixed(2)} / 未实现 ${pnl.unrealized.toFixed(2)} · 净敞口 ${pnl.exposure.toFixed(2)} USDT` : undefined}
+                  >
+                    {pnl ? (pnl.total >= 0 ? '+' : '') + pnl.total.toFixed(2) : '--'}
+                  </td>
+                  <td className="px-4 py-4 text-center">
+                    <button
+                      onClick={() => handleRecompute(stats.date)}
+                      disabled={busyDate !== null}
+                      className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                      title="从历史记录重新统计"
+                    >
+                      <RefreshCw className={`w-4 h-4 text-gray-400 ${busyDate === stats.date ? 'animate-spin' : ''}`} />
+                    </button>
+                  </td>
+                </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { exportData, ExportData, ExportFormat, loadExportData } from '../services/exports';
+import { buildReportHtml, printReport } from '../services/dailyReport';
+import { getBusinessDateKey } from '../utils/rateUtils';
+import { FileDown, FileJson, FileSpreadsheet, FileText, Loader2, Printer } from 'lucide-react';
+
+type ExportAction = ExportFormat | 'report';
+
+const ACTIONS: { id: ExportAction; label: string; description: string; icon: typeof FileDown }[] = [
+  { id: 'csv', label: 'CSV', description: '汇率历史记录', icon: FileText },
+  { id: 'xlsx', label: 'Excel', description: '历史记录、小时K线、每日统计、告警四张工作表', icon: FileSpreadsheet },
+  { id: 'json', label: 'JSON', description: '原始记录，便于程序处理', icon: FileJson },
+  { id: 'report', label: 'PDF 报告', description: '走势图、每日统计与告警汇总，打印时选择"另存为 PDF"', icon: Printer },
+];
+
+export function ExportPanel() {
+  const { lockTime } = useRateStore();
+  const pair = usePairConfig();
+  const today = getBusinessDateKey(new Date(), pair.utcOffset);
+
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [busyAction, setBusyAction] = useState<ExportAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastExport, setLastExport] = useState<ExportData | null>(null);
+
+  const handleExport = async (action: ExportAction) => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setError('请选择有效的日期范围');
+      return;
+    }
+    setBusyAction(action);
+    setError(null);
+    try {
+      const data = await loadExportData(pair, fromDate, toDate);
+      if (action === 'report') {
+        printReport(buildReportHtml(data, pair, lockTime));
+      } else {
+        exportData(data, pair, action);
+      }
+      setLastExport(data);
+    } catch (err) {
+      console.error('Failed to export:', err);
+      setError(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileDown className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">数据导出</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={fromDate}
+            max={today}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="date"
+            value={toDate}
+            max={today}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {ACTIONS.map(({ id, label, description, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => handleExport(id)}
+            disabled={busyAction !== null}
+            className="bg-gray-900/40 hover:bg-gray-700/60 rounded-lg p-4 text-left transition-colors disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 mb-2">
+              {busyAction === id
+                ? <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
+                : <Icon className="w-5 h-5 text-blue-400" />}
+              <span className="text-white font-medium">{label}</span>
+            </div>
+            <p className="text-gray-400 text-sm">{description}</p>
+          </button>
+        ))}
+      </div>
+
+      {lastExport && (
+        <p className="text-gray-500 text-sm">
+          {lastExport.fromDate} ~ {lastExport.toDate}：{lastExport.records.length} 条汇率记录，
+          {lastExport.dailyStats.length} 天统计，{lastExport.alerts.length} 次告警
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,125 +1,329 @@
-import { useMemo } from 'react';
-import { useRateStore, DailyStats } from '../store/rateStore';
-import { formatMalaysiaTime, getRiskColor, getRiskBgColor, getRiskText, exportToCSV } from '../utils/rateUtils';
-import { format, startOfDay, subDays } from 'date-fns';
-import { Calendar, Download, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DailyStats, usePairConfig } from '../store/rateStore';
+import type { RateRecord } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { RiskLevel, RISK_LEVELS } from '../utils/riskRules';
+import {
+  formatLocalTime, getBusinessDateKey, getBusinessDayRange, getRiskColor, getRiskBgColor, getRiskText, exportToCSV,
+} from '../utils/rateUtils';
+import { fetchDailyStats, fetchFilteredRateHistory, RateHistoryQuery, RateHistorySortKey } from '../services/rateRepository';
+import { toHistoryExportRow } from '../services/exports';
+import { useRateHistoryPages } from '../hooks/useRateHistoryPages';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { format } from 'date-fns';
+import {
+  ArrowDown, ArrowUp, ArrowUpDown, Calendar, Download, Loader2, Minus, RefreshCw, TrendingDown, TrendingUp,
+} from 'lucide-react';
+
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 560;
+
+// 'HH:mm' to minutes since midnight
+function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+interface SortHeaderProps {
+  label: string;
+  column: RateHistorySortKey;
+  sortBy: RateHistorySortKey;
+  ascending: boolean;
+  align: 'left' | 'right';
+  onSort: (column: RateHistorySortKey) => void;
+}
+
+function SortHeader({ label, column, sortBy, ascending, align, onSort }: SortHeaderProps) {
+  const Icon = sortBy !== column ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+  return (
+    <th className={`px-4 py-3 ${align === 'left' ? 'text-left' : 'text-right'} text-gray-400 text-sm font-medium`}>
+      <button
+        onClick={() => onSort(column)}
+        className={`inline-flex items-center gap-1 hover:text-white transition-colors ${sortBy === column ? 'text-white' : ''}`}
+      >
+        {label}
+        <Icon className="w-3 h-3" />
+      </button>
+    </th>
+  );
+}
 
 export function HistoryTable() {
-  const { rateHistory } = useRateStore();
+  const pair = usePairConfig();
+  const today = getBusinessDateKey(new Date(), pair.utcOffset);
+
+  const [fromDate, setFromDate] = useState(getBusinessDateKey(new Date(Date.now() - 7 * 24 * 3600000), pair.utcOffset));
+  const [toDate, setToDate] = useState(today);
+  const [levels, setLevels] = useState<RiskLevel[]>(RISK_LEVELS);
+  const [timeFrom, setTimeFrom] = useState('');
+  const [timeTo, setTimeTo] = useState('');
+  const [sortBy, setSortBy] = useState<RateHistorySortKey>('timestamp');
+  const [ascending, setAscending] = useState(false);
+  const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const query = useMemo<RateHistoryQuery>(() => {
+    const minuteFrom = parseTimeOfDay(timeFrom);
+    const minuteTo = parseTimeOfDay(timeTo);
+    return {
+      start: getBusinessDayRange(fromDate, pair.utcOffset).start,
+      end: getBusinessDayRange(toDate, pair.utcOffset).end,
+      levels: levels.length === RISK_LEVELS.length ? null : levels,
+      timeOfDay: minuteFrom !== null && minuteTo !== null ? { from: minuteFrom, to: minuteTo, utcOffset: pair.utcOffset } : null,
+      sortBy,
+      ascending,
+    };
+  }, [fromDate, toDate, levels, timeFrom, timeTo, sortBy, ascending, pair]);
+
+  const isValidRange = Boolean(fromDate && toDate && fromDate <= toDate);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [rowCount, setRowCount] = useState(0);
+  const { start, end, paddingTop, paddingBottom, onScroll, scrollToTop } = useVirtualRows(scrollRef, rowCount, ROW_HEIGHT);
+  const { total, error, getRow, refresh } = useRateHistoryPages(pair.id, query, start, end);
 
-  const displayedHistory = useMemo(() => {
-    // Sort by timestamp descending and take top 50
-    return [...rateHistory].sort((a, b) => b.timestamp - a.timestamp).slice(0, 50);
-  }, [rateHistory]);
+  useEffect(() => {
+    setRowCount(isValidRange ? total ?? 0 : 0);
+  }, [total, isValidRange]);
+
+  useEffect(() => {
+    scrollToTop();
+  }, [query, scrollToTop]);
+
+  // Daily market ranges come from the stored day statistics
+  useEffect(() => {
+    if (!isValidRange) return;
+    fetchDailyStats(pair.id, fromDate, toDate)
+      .then(setDailyStats)
+      .catch(err => console.error('Failed to load daily stats:', err));
+  }, [pair.id, fromDate, toDate, isValidRange]);
 
   const dailyRanges = useMemo(() => {
     const ranges = new Map<string, { min: number; max: number }>();
-    rateHistory.forEach(r => {
-      const date = format(new Date(r.timestamp), 'yyyy-MM-dd');
-      const current = ranges.get(date) || { min: r.marketRate, max: r.marketRate };
-      ranges.set(date, {
-        min: Math.min(current.min, r.marketRate),
-        max: Math.max(current.max, r.marketRate),
-      });
-    });
+    dailyStats.forEach(stats => ranges.set(stats.date, { min: stats.minMarketRate, max: stats.maxMarketRate }));
     return ranges;
-  }, [rateHistory]);
-
-  const handleExport = () => {
-    const exportData = displayedHistory.map(record => {
-      const dateKey = format(new Date(record.timestamp), 'yyyy-MM-dd');
-      const range = dailyRanges.get(dateKey);
-      return {
-        日期: formatMalaysiaTime(new Date(record.timestamp), 'yyyy-MM-dd HH:mm:ss') + ' (GMT+8)',
-        平台汇率: record.platformRate.toFixed(4),
-        当前市场汇率: record.marketRate.toFixed(4),
-        '市场范围(最小~最大)': `${range?.min.toFixed(4)} ~ ${range?.max.toFixed(4)}`,
-        点差: record.diff.toFixed(4),
-        风险等级: getRiskText(record.riskLevel),
-      };
-    });
-    exportToCSV(exportData, `汇率变动历史_${format(new Date(), 'yyyyMMdd')}.csv`);
+  }, [dailyStats]);
+
+  const getRange = (record: RateRecord) => dailyRanges.get(getBusinessDateKey(new Date(record.timestamp), pair.utcOffset));
+
+  const handleSort = (column: RateHistorySortKey) => {
+    if (column === sortBy) {
+      setAscending(!ascending);
+    } else {
+      setSortBy(column);
+      setAscending(column !== 'timestamp');
+    }
   };
 
+  const toggleLevel = (level: RiskLevel) => {
+    const next = levels.includes(level) ? levels.filter(l => l !== level) : [...levels, level];
+    // Keep the canonical order so the query stays stable
+    setLevels(RISK_LEVELS.filter(l => next.includes(l)));
+  };
+
+  // Exports every row matching the filters, in the table's order
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const records = await fetchFilteredRateHistory(pair.id, query);
+      const exportData = records.map(record => toHistoryExportRow(record, pair, getRange(record)));
+      exportToCSV(exportData, `汇率变动历史_${pair.id}_${fromDate.replace(/-/g, '')}-${toDate.replace(/-/g, '')}_${format(new Date(), 'yyyyMMdd')}.csv`);
+    } catch (err) {
+      console.error('Failed to export rate history:', err);
+      setExportError(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const visibleRows = [];
+  for (let index = start; index < end; index++) {
+    const record = getRow(index);
+    if (!record) {
+      visibleRows.push(
+        <tr key={`pending-${index}`} style={{ height: ROW_HEIGHT }} className="border-b border-gray-700/50">
+          <td colSpan={5} className="px-4 text-gray-600 text-sm">加载中…</td>
+        </tr>
+      );
+      continue;
+    }
+    const range = getRange(record);
+    visibleRows.push(
+      <tr key={`${record.timestamp}-${index}`} style={{ height: ROW_HEIGHT }} className="border-b border-gray-700/50">
+        <td className="px-4 text-white font-medium">
+          {formatLocalTime(new Date(record.timestamp), 'yyyy-MM-dd HH:mm:ss', pair.utcOffset)}
+          {record.source?.startsWith('backfill') && (
+            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-400" title={record.source}>
+              回填
+            </span>
+          )}
+          {record.source?.startsWith('import') && (
+            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-400" title={record.source}>
+              导入
+            </span>
+          )}
+        </td>
+        <td className="px-4 text-right text-blue-400 font-mono">
+          {record.platformRate.toFixed(4)}
+        </td>
+        <td className="px-4 text-right">
+          <div className="flex flex-col items-end">
+            <span className="text-white font-mono">{record.marketRate.toFixed(4)}</span>
+            {range && (
+              <span className="text-gray-500 text-xs">
+                {range.min.toFixed(4)} ~ {range.max.toFixed(4)}
+              </span>
+            )}
+          </div>
+        </td>
+        <td className="px-4 text-right">
+          <div className="flex items-center justify-end gap-2">
+            {record.diff > 0 ? (
+              <TrendingUp className={`w-4 h-4 ${getRiskColor(record.riskLevel, record.riskSide)}`} />
+            ) : record.diff < 0 ? (
+              <TrendingDown className={`w-4 h-4 ${getRiskColor(record.riskLevel, record.riskSide)}`} />
+            ) : (
+              <Minus className="w-4 h-4 text-gray-500" />
+            )}
+            <span className={`font-mono ${getRiskColor(record.riskLevel, record.riskSide)}`}>
+              {(record.diff >= 0 ? '+' : '') + record.diff.toFixed(4)}
+            </span>
+          </div>
+        </td>
+        <td className="px-4 text-center">
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${getRiskBgColor(record.riskLevel, record.riskSide)} ${getRiskColor(record.riskLevel, record.riskSide)}`}>
+            {getRiskText(record.riskLevel, record.riskSide)}
+          </span>
+        </td>
+      </tr>
+    );
+  }
+
   return (
     <div className="bg-gray-800/50 rounded-xl p-6">
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-2">
           <Calendar className="w-5 h-5 text-blue-400" />
           <h2 className="text-xl font-bold text-white">历史汇率变动记录</h2>
+          {total !== null && isValidRange && <span className="text-gray-500 text-sm">共 {total} 条</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={refresh}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors"
+            title="刷新"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !isValidRange || !total}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            导出CSV
+          </button>
         </div>
-        <button
-          onClick={handleExport}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm flex items-center gap-2 transition-colors"
-        >
-          <Download className="w-4 h-4" />
-          导出CSV
-        </button>
       </div>
 
-      {displayedHistory.length === 0 ? (
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={fromDate}
+            max={today}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="date"
+            value={toDate}
+            max={today}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-400 text-sm">时段</span>
+          <input
+            type="time"
+            value={timeFrom}
+            onChange={(e) => setTimeFrom(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="time"
+            value={timeTo}
+            onChange={(e) => setTimeTo(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          {(timeFrom || timeTo) && (
+            <button
+              onClick={() => {
+                setTimeFrom('');
+                setTimeTo('');
+              }}
+              className="text-gray-400 hover:text-white text-sm transition-colors"
+            >
+              清除
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1 bg-gray-900/60 rounded-lg p-1">
+          {RISK_LEVELS.map(level => (
+            <button
+              key={level}
+              onClick={() => toggleLevel(level)}
+              className={`px-2 py-1 rounded-md text-xs transition-colors ${
+                levels.includes(level) ? `${getRiskBgColor(level)} ${getRiskColor(level)}` : 'text-gray-500 hover:bg-gray-700'
+              }`}
+            >
+              {getRiskText(level)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!isValidRange && <p className="text-red-400 text-sm mb-4">请选择有效的日期范围</p>}
+      {(error || exportError) && <p className="text-red-400 text-sm mb-4">{error ?? exportError}</p>}
+
+      {isValidRange && total === 0 ? (
         <div className="text-center py-12 text-gray-500">
-          暂无历史数据，汇率变动时将自动记录
+          没有符合条件的历史记录
         </div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead>
+        <div ref={scrollRef} onScroll={onScroll} className="overflow-auto" style={{ height: VIEWPORT_HEIGHT }}>
+          <table className="w-full table-fixed">
+            <colgroup>
+              <col className="w-[28%]" />
+              <col className="w-[16%]" />
+              <col className="w-[20%]" />
+              <col className="w-[20%]" />
+              <col className="w-[16%]" />
+            </colgroup>
+            <thead className="sticky top-0 bg-gray-800 z-10">
               <tr className="border-b border-gray-700">
-                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">日期 (GMT+8)</th>
-                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">平台汇率</th>
-                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">市场汇率</th>
-                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">点差</th>
+                <SortHeader label={`日期 (${getTimeZoneLabel(pair)})`} column="timestamp" sortBy={sortBy} ascending={ascending} align="left" onSort={handleSort} />
+                <SortHeader label="平台汇率" column="platform_rate" sortBy={sortBy} ascending={ascending} align="right" onSort={handleSort} />
+                <SortHeader label="市场汇率" column="market_rate" sortBy={sortBy} ascending={ascending} align="right" onSort={handleSort} />
+                <SortHeader label="点差" column="diff" sortBy={sortBy} ascending={ascending} align="right" onSort={handleSort} />
                 <th className="px-4 py-3 text-center text-gray-400 text-sm font-medium">风险</th>
               </tr>
             </thead>
             <tbody>
-              {displayedHistory.map((record, index) => {
-                const dateKey = format(new Date(record.timestamp), 'yyyy-MM-dd');
-                const range = dailyRanges.get(dateKey);
-                return (
-                  <tr
-                    key={record.timestamp + index}
-                    className={`border-b border-gray-700/50 ${index === 0 ? 'bg-blue-500/5' : ''}`}
-                  >
-                    <td className="px-4 py-4 text-white font-medium">
-                      {formatMalaysiaTime(new Date(record.timestamp), 'yyyy-MM-dd HH:mm')}
-                    </td>
-                    <td className="px-4 py-4 text-right text-blue-400 font-mono">
-                      {record.platformRate.toFixed(4)}
-                    </td>
-                    <td className="px-4 py-4 text-right">
-                      <div className="flex flex-col items-end">
-                        <span className="text-white font-mono">{record.marketRate.toFixed(4)}</span>
-                        <span className="text-gray-500 text-xs">
-                          {range?.min.toFixed(4)} ~ {record.marketRate.toFixed(4)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 text-right">
-                      <div className="flex items-center justify-end gap-2">
-                        {record.diff > 0 ? (
-                          <TrendingUp className={`w-4 h-4 ${getRiskColor(record.riskLevel)}`} />
-                        ) : record.diff < 0 ? (
-                          <TrendingDown className={`w-4 h-4 ${getRiskColor(record.riskLevel)}`} />
-                        ) : (
-                          <Minus className="w-4 h-4 text-gray-500" />
-                        )}
-                        <span className={`font-mono ${getRiskColor(record.riskLevel)}`}>
-                          {(record.diff >= 0 ? '+' : '') + record.diff.toFixed(4)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-4 py-4 text-center">
-                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getRiskBgColor(record.riskLevel)} ${getRiskColor(record.riskLevel)}`}>
-                        {getRiskText(record.riskLevel)}
-                      </span>
-                    </td>
-                  </tr>
-                );
-              })}
+              {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+              {visibleRows}
+              {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
             </tbody>
           </table>
+          {total === null && isValidRange && (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,301 @@
+import { useRef, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { hasRole } from '../services/auth';
+import {
+  ColumnMapping, commitImport, guessColumnMapping, ImportField, ImportPlan, ImportTable, planImport, readImportFile,
+} from '../services/rateImport';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { formatLocalTime, getRiskBgColor, getRiskColor, getRiskText } from '../utils/rateUtils';
+import { ArrowLeft, FileUp, Loader2, Upload } from 'lucide-react';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+  { id: 'time', label: '时间', required: true },
+  { id: 'marketRate', label: '市场汇率', required: true },
+  { id: 'platformRate', label: '平台汇率', required: false },
+];
+
+const SAMPLE_ROWS = 5;
+const PREVIEW_ROWS = 20;
+const SHOWN_ERRORS = 10;
+
+export function ImportWizard() {
+  const { authUser, riskRules, costBuffer, platformRate, platformRates, recomputeDailyStats, syncWithSupabase } = useRateStore();
+  const pair = usePairConfig();
+  const canImport = hasRole(authUser?.role, 'operator');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ time: null, marketRate: null, platformRate: null });
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setTable(null);
+    setPlan(null);
+    setError(null);
+    setProgress(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const read = await readImportFile(file);
+      setTable(read);
+      setMapping(guessColumnMapping(read.headers));
+      setStep('map');
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : '文件读取失败');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!table) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPlan(await planImport(pair, table, mapping, {
+        rules: riskRules,
+        costBuffer,
+        platformRates,
+        fallbackPlatformRate: platformRate,
+      }));
+      setStep('preview');
+    } catch (err) {
+      console.error('Failed to check import against history:', err);
+      setError(err instanceof Error ? err.message : '校验失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setStep('importing');
+    setError(null);
+    let inserted = 0;
+    try {
+      inserted = await commitImport(pair, plan, count => setProgress(`正在写入 ${count} / ${plan.records.length}`));
+      for (const [index, date] of plan.dates.entries()) {
+        setProgress(`正在重新统计 ${date} (${index + 1} / ${plan.dates.length})`);
+        await recomputeDailyStats(date);
+      }
+      await syncWithSupabase();
+      setProgress(`已导入 ${inserted} 条，重新统计 ${plan.dates.length} 天`);
+      setStep('done');
+    } catch (err) {
+      console.error('Failed to import rate history:', err);
+      setError(`${err instanceof Error ? err.message : '导入失败'}（已写入 ${inserted} 条，重新导入时会自动跳过）`);
+      setStep('done');
+    }
+  };
+
+  const isMappingComplete = FIELDS.every(field => !field.required || mapping[field.id] !== null);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileUp className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">历史数据导入</h2>
+        </div>
+        {step !== 'upload' && step !== 'importing' && (
+          <button onClick={reset} className="text-gray-400 hover:text-white text-sm transition-colors">
+            重新选择文件
+          </button>
+        )}
+      </div>
+
+      {!canImport ? (
+        <p className="text-gray-500 text-sm">导入历史数据需要操作员权限</p>
+      ) : (
+        <>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          {step === 'upload' && (
+            <div>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.xlsx,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="w-full border-2 border-dashed border-gray-600 hover:border-blue-500 rounded-lg py-8 text-gray-400 flex flex-col items-center gap-2 transition-colors"
+              >
+                <Upload className="w-6 h-6" />
+                选择 CSV 或 XLSX 文件
+              </button>
+              <p className="text-gray-500 text-xs mt-2">
+                首行为表头，至少包含时间与市场汇率两列；时间格式为 年-月-日 时:分 (或 年/月/日)，按 {getTimeZoneLabel(pair)} 解析。已有记录的时间点会自动跳过。
+              </p>
+            </div>
+          )}
+
+          {step === 'map' && table && (
+            <div className="space-y-4">
+              <p className="text-gray-400 text-sm">{table.fileName}：{table.rows.length} 行数据</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {FIELDS.map(field => (
+                  <div key={field.id}>
+                    <label className="block text-gray-400 text-sm mb-2">
+                      {field.label}{field.required && <span className="text-red-400"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field.id] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field.id]: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+                    >
+                      <option value="">{field.required ? '请选择列' : '不导入（按平台汇率账本）'}</option>
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `第 ${index + 1} 列`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      {table.headers.map((header, index) => (
+                        <th key={index} className="px-3 py-2 text-left text-gray-400 font-medium">{header || `第 ${index + 1} 列`}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, SAMPLE_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-b border-gray-700/50">
+                        {row.map((cell, index) => (
+                          <td key={index} className="px-3 py-2 text-gray-300 font-mono">{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                onClick={handlePreview}
+                disabled={!isMappingComplete || isBusy}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+              >
+                {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+                校验并预览
+              </button>
+            </div>
+          )}
+
+          {step === 'preview' && plan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-gray-900/40 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm">待导入</p>
+                  <p className="text-2xl font-bold text-green-400">{plan.records.length}</p>
+                </div>
+                <div className="bg-gray-900/40 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm">与已有记录重复 (±1 分钟)</p>
+                  <p className="text-2xl font-bold text-gray-300">{plan.existing}</p>
+                </div>
+                <div className="bg-gray-900/40 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm">文件内重复</p>
+                  <p className="text-2xl font-bold text-gray-300">{plan.duplicatesInFile}</p>
+                </div>
+                <div className="bg-gray-900/40 rounded-lg p-4">
+                  <p className="text-gray-400 text-sm">无效行</p>
+                  <p className={`text-2xl font-bold ${plan.invalid.length > 0 ? 'text-red-400' : 'text-gray-300'}`}>{plan.invalid.length}</p>
+                </div>
+              </div>
+
+              {plan.invalid.length > 0 && (
+                <ul className="text-red-400 text-xs space-y-1">
+                  {plan.invalid.slice(0, SHOWN_ERRORS).map(message => <li key={message}>{message}</li>)}
+                  {plan.invalid.length > SHOWN_ERRORS && <li>…另有 {plan.invalid.length - SHOWN_ERRORS} 行</li>}
+                </ul>
+              )}
+
+              {plan.records.length > 0 && (
+                <>
+                  <p className="text-gray-500 text-sm">
+                    涉及 {plan.dates.length} 个营业日（{plan.dates[0]} ~ {plan.dates[plan.dates.length - 1]}），导入后将重新统计这些日期。
+                    风险等级按当前风险规则评估。
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="px-3 py-2 text-left text-gray-400 font-medium">时间 ({getTimeZoneLabel(pair)})</th>
+                          <th className="px-3 py-2 text-right text-gray-400 font-medium">市场汇率</th>
+                          <th className="px-3 py-2 text-right text-gray-400 font-medium">平台汇率</th>
+                          <th className="px-3 py-2 text-right text-gray-400 font-medium">点差</th>
+                          <th className="px-3 py-2 text-center text-gray-400 font-medium">风险</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {plan.records.slice(0, PREVIEW_ROWS).map(record => (
+                          <tr key={record.timestamp} className="border-b border-gray-700/50">
+                            <td className="px-3 py-2 text-white">{formatLocalTime(new Date(record.timestamp), 'yyyy-MM-dd HH:mm:ss', pair.utcOffset)}</td>
+                            <td className="px-3 py-2 text-right text-white font-mono">{record.marketRate.toFixed(4)}</td>
+                            <td className="px-3 py-2 text-right text-blue-400 font-mono">{record.platformRate.toFixed(4)}</td>
+                            <td className={`px-3 py-2 text-right font-mono ${getRiskColor(record.riskLevel, record.riskSide)}`}>
+                              {(record.diff >= 0 ? '+' : '') + record.diff.toFixed(4)}
+                            </td>
+                            <td className="px-3 py-2 text-center">
+                              <span className={`px-2 py-0.5 rounded-full text-xs ${getRiskBgColor(record.riskLevel, record.riskSide)} ${getRiskColor(record.riskLevel, record.riskSide)}`}>
+                                {getRiskText(record.riskLevel, record.riskSide)}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {plan.records.length > PREVIEW_ROWS && (
+                      <p className="text-gray-500 text-xs mt-2">仅显示前 {PREVIEW_ROWS} 条</p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setStep('map')}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm flex items-center gap-1 transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  修改列映射
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={plan.records.length === 0}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  确认导入 {plan.records.length} 条
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(step === 'importing' || step === 'done') && progress && (
+            <p className="text-gray-400 text-sm flex items-center gap-2">
+              {step === 'importing' && <Loader2 className="w-4 h-4 animate-spin" />}
+              {progress}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { RiskLevel, RISK_LEVELS } from '../utils/riskRules';
+import { getRiskColor, getRiskText, formatLocalTime } from '../utils/rateUtils';
+
+interface NotificationSettingsProps {
+  levels: RiskLevel[];
+  onChange: (levels: RiskLevel[]) => void;
+}
+
+export function NotificationSettings({ levels, onChange }: NotificationSettingsProps) {
+  const { notificationsSnoozedUntil, snoozeNotifications } = useRateStore();
+  const pair = usePairConfig();
+  const isSnoozed = notificationsSnoozedUntil > Date.now();
+
+  const toggleLevel = (level: RiskLevel) => {
+    onChange(levels.includes(level) ? levels.filter(l => l !== level) : [...levels, level]);
+  };
+
+  return (
+    <div>
+      <label className="block text-gray-400 text-sm mb-2">
+        桌面通知等级
+      </label>
+      <div className="flex flex-wrap gap-3">
+        {RISK_LEVELS.map(level => (
+          <label key={level} className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={levels.includes(level)}
+              onChange={() => toggleLevel(level)}
+              className="accent-blue-500"
+            />
+            <span className={getRiskColor(level)}>
+              {level === 'safe' ? '恢复安全' : getRiskText(level)}
+            </span>
+          </label>
+        ))}
+      </div>
+      {isSnoozed ? (
+        <p className="text-yellow-400 text-xs mt-1">
+          通知已静音至 {formatLocalTime(new Date(notificationsSnoozedUntil), 'HH:mm', pair.utcOffset)}
+          <button onClick={() => snoozeNotifications(0)} className="ml-2 underline">
+            取消静音
+          </button>
+        </p>
+      ) : (
+        <p className="text-gray-500 text-xs mt-1">
+          风险等级升级到所选等级时推送通知，标签页在后台也会送达
+        </p>
+      )}
+    </div>
+  );
+}
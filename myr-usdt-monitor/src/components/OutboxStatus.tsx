@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { getOutboxCounts, onOutboxChange, OutboxCounts, retryFailedWrites } from '../services/outbox';
+import { CloudUpload, CloudOff } from 'lucide-react';
+
+export function OutboxStatus() {
+  const [counts, setCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+
+  useEffect(() => {
+    const refresh = () => {
+      getOutboxCounts().then(setCounts).catch(error => {
+        console.error('Failed to read outbox:', error);
+      });
+    };
+    refresh();
+    // Other tabs share the queue, so re-count now and then as well
+    const interval = setInterval(refresh, 15000);
+    const unsubscribe = onOutboxChange(setCounts);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  if (counts.pending === 0 && counts.failed === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {counts.pending > 0 && (
+        <div
+          className="flex items-center gap-2 px-3 py-2 rounded-lg bg-yellow-500/20 text-yellow-400"
+          title="写入已保存在本地，网络恢复后按顺序同步到云端"
+        >
+          <CloudUpload className="w-4 h-4" />
+          <span className="text-sm">待同步 {counts.pending}</span>
+        </div>
+      )}
+      {counts.failed > 0 && (
+        <button
+          onClick={() => retryFailedWrites()}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+          title="多次重试后仍失败，点击重新提交"
+        >
+          <CloudOff className="w-4 h-4" />
+          <span className="text-sm">同步失败 {counts.failed}</span>
+        </button>
+      )}
+    </div>
+  );
+}
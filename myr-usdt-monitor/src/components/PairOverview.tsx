@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { getRateStore, usePairStore } from '../store/rateStore';
+import { fetchUSDTRate, RateConsensus } from '../services/rateApi';
+import { fetchHeartbeat, isHeartbeatFresh } from '../services/monitor';
+import { PAIRS, PairConfig, PairId } from '../utils/pairs';
+import { assessRisk, getRiskBgColor, getRiskColor, getRiskText, isLockPriceWindow } from '../utils/rateUtils';
+import { AlertTriangle, LayoutGrid } from 'lucide-react';
+
+// Pairs in the background are polled less often than the one on screen
+const OVERVIEW_REFRESH_MS = 60000;
+
+export function PairSwitcher() {
+  const { activePair, setActivePair } = usePairStore();
+
+  return (
+    <div className="flex items-center gap-1 bg-gray-900/60 rounded-lg p-1">
+      {PAIRS.map(pair => (
+        <button
+          key={pair.id}
+          onClick={() => setActivePair(pair.id)}
+          className={`px-3 py-1 rounded-md text-sm transition-colors ${activePair === pair.id
+            ? 'bg-blue-600 text-white'
+            : 'text-gray-400 hover:bg-gray-700'
+            }`}
+          title={`${pair.name} · ${pair.region}`}
+        >
+          {pair.id}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PairCardProps {
+  pair: PairConfig;
+  consensus: RateConsensus | null;
+  isActive: boolean;
+  onSelect: () => void;
+}
+
+function PairCard({ pair, consensus, isActive, onSelect }: PairCardProps) {
+  const usePairRateStore = getRateStore(pair.id);
+  const { platformRate, costBuffer, riskRules, rateConsensus } = usePairRateStore();
+  // The active pair's own polling is fresher than the overview's
+  const current = isActive ? rateConsensus : consensus;
+
+  const marketRate = current?.rate ?? 0;
+  const diff = platformRate - marketRate;
+  const { level, side } = assessRisk(
+    diff,
+    { isLockWindow: isLockPriceWindow(new Date(), pair), consecutiveExpansions: 0, costBuffer },
+    riskRules
+  );
+
+  return (
+    <button
+      onClick={onSelect}
+      className={`text-left rounded-lg border p-3 transition-colors ${marketRate > 0 ? getRiskBgColor(level, side) : 'bg-gray-900/40 border-gray-700'} ${isActive ? 'ring-2 ring-blue-500' : 'hover:bg-white/5'}`}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium">{pair.label}</span>
+        {marketRate > 0 && (
+          <span className={`text-xs ${getRiskColor(level, side)}`}>{getRiskText(level, side)}</span>
+        )}
+      </div>
+      <p className="text-xl font-bold font-mono text-white mt-1">
+        {marketRate > 0 ? marketRate.toFixed(4) : '--'}
+      </p>
+      <p className="text-gray-500 text-xs">
+        平台 {platformRate.toFixed(4)}
+        {marketRate > 0 && ` · 点差 ${(diff >= 0 ? '+' : '') + diff.toFixed(4)}`}
+      </p>
+    </button>
+  );
+}
+
+// Every pair at a glance. Pairs other than the active one are fetched here
+// read-only: their settings and rate ledger are loaded so the spread is priced
+// correctly, but nothing is recorded or written back. This tab only records and
+// alerts for the active pair, so pairs without a headless monitor are flagged.
+export function PairOverview() {
+  const { activePair, setActivePair } = usePairStore();
+  const [quotes, setQuotes] = useState<Partial<Record<PairId, RateConsensus>>>({});
+  const [unwatched, setUnwatched] = useState<PairId[]>([]);
+
+  useEffect(() => {
+    PAIRS.forEach(pair => {
+      const store = getRateStore(pair.id).getState();
+      if (store.isInitialized) return;
+      store.loadSettings();
+      store.loadPlatformRates();
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      const others = PAIRS.filter(pair => pair.id !== activePair);
+      const [results, heartbeats] = await Promise.all([
+        Promise.allSettled(
+          others.map(pair => fetchUSDTRate(pair.id, { maxDeviation: getRateStore(pair.id).getState().maxDeviation }))
+        ),
+        Promise.all(others.map(pair => fetchHeartbeat(pair.id).catch(() => null))),
+      ]);
+      if (cancelled) return;
+      setUnwatched(others.filter((_, i) => !isHeartbeatFresh(heartbeats[i])).map(pair => pair.id));
+      setQuotes(previous => {
+        const next = { ...previous };
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            next[others[i].id] = result.value;
+          } else {
+            console.warn(`Overview fetch for ${others[i].id} failed:`, result.reason);
+          }
+        });
+        return next;
+      });
+    };
+
+    refresh();
+    const interval = setInterval(refresh, OVERVIEW_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [activePair]);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <LayoutGrid className="w-4 h-4 text-blue-400" />
+        <h2 className="text-white font-medium">币对总览</h2>
+      </div>
+      {unwatched.length > 0 && (
+        <p className="flex items-center gap-2 text-yellow-400 text-sm mb-3">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          本页面只监控 {activePair}：{unwatched.join('、')} 没有后台监控运行，不会记录汇率，也不会发送告警和通知
+        </p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {PAIRS.map(pair => (
+          <PairCard
+            key={pair.id}
+            pair={pair}
+            consensus={quotes[pair.id] ?? null}
+            isActive={pair.id === activePair}
+            onSelect={() => setActivePair(pair.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { formatLocalTime } from '../utils/rateUtils';
+
+interface PlatformRateLedgerProps {
+  limit?: number;
+}
+
+// Recent business dates and the rate locked for each, newest first
+export function PlatformRateLedger({ limit = 7 }: PlatformRateLedgerProps) {
+  const { platformRates } = useRateStore();
+  const pair = usePairConfig();
+  const now = Date.now();
+  const entries = platformRates.slice(-limit).reverse();
+
+  if (entries.length === 0) {
+    return <p className="text-gray-500 text-xs">暂无汇率记录</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="py-1 text-left font-normal">营业日</th>
+          <th className="py-1 text-right font-normal">汇率</th>
+          <th className="py-1 text-right font-normal">生效 ({getTimeZoneLabel(pair)})</th>
+          <th className="py-1 text-right font-normal">设置人</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map(entry => (
+          <tr key={entry.date} className="border-t border-gray-700/50 text-gray-300">
+            <td className="py-1">{entry.date}</td>
+            <td className="py-1 text-right font-mono text-blue-400">{entry.rate.toFixed(4)}</td>
+            <td className="py-1 text-right">
+              {formatLocalTime(new Date(entry.effectiveFrom), 'MM-dd HH:mm', pair.utcOffset)}
+              {entry.effectiveFrom > now && <span className="ml-1 text-yellow-400">待生效</span>}
+            </td>
+            <td className="py-1 text-right text-gray-500">{entry.setBy ?? '--'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
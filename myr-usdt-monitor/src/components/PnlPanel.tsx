@@ -0,0 +1,271 @@
+import { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { useDailyPnl } from '../hooks/useDailyPnl';
+import { hasRole } from '../services/auth';
+import { parseFlowCsv, parseFlowTime, validateFlowInput } from '../services/pnl';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { exportToCSV, formatLocalTime, getBusinessDateKey } from '../utils/rateUtils';
+import { Wallet, Download, Upload, Plus, Trash2 } from 'lucide-react';
+
+function formatPnl(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(2);
+}
+
+function getPnlColor(value: number): string {
+  if (value > 0) return 'text-green-400';
+  if (value < 0) return 'text-red-400';
+  return 'text-gray-300';
+}
+
+export function PnlPanel() {
+  const { pnlFlows, authUser, recordPnlFlows, deletePnlFlow } = useRateStore();
+  const pair = usePairConfig();
+  const dailyPnl = useDailyPnl();
+  const canRecord = hasRole(authUser?.role, 'operator');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [time, setTime] = useState(formatLocalTime(new Date(), "yyyy-MM-dd'T'HH:mm", pair.utcOffset));
+  const [deposits, setDeposits] = useState('');
+  const [withdrawals, setWithdrawals] = useState('');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const today = dailyPnl.find(day => day.date === getBusinessDateKey(new Date(), pair.utcOffset));
+  const displayedPnl = useMemo(() => [...dailyPnl].reverse(), [dailyPnl]);
+  const recentFlows = useMemo(() => [...pnlFlows].reverse().slice(0, 50), [pnlFlows]);
+
+  const handleAdd = async () => {
+    setMessage(null);
+    const { flow, errors: inputErrors } = validateFlowInput({
+      timestamp: parseFlowTime(time, pair.utcOffset) ?? 0,
+      deposits: Number(deposits || 0),
+      withdrawals: Number(withdrawals || 0),
+      note: note.trim() || null,
+    });
+    setErrors(inputErrors);
+    if (!flow) return;
+    if (await recordPnlFlows([flow], 'manual')) {
+      setDeposits('');
+      setWithdrawals('');
+      setNote('');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setMessage(null);
+    const { flows, errors: parseErrors } = parseFlowCsv(await file.text(), pair.utcOffset);
+    setErrors(parseErrors);
+    if (flows.length > 0 && await recordPnlFlows(flows, 'import')) {
+      setMessage(`已导入 ${flows.length} 条${parseErrors.length > 0 ? `，${parseErrors.length} 行有误已跳过` : ''}`);
+    }
+  };
+
+  const handleExport = () => {
+    const exportData = displayedPnl.map(day => ({
+      日期: day.date,
+      入金USDT: day.deposits.toFixed(2),
+      出金USDT: day.withdrawals.toFixed(2),
+      净敞口USDT: day.exposure.toFixed(2),
+      估值汇率: day.markRate?.toFixed(4) ?? '',
+      [`已实现${pair.id}`]: day.realized.toFixed(2),
+      [`未实现${pair.id}`]: day.unrealized.toFixed(2),
+      [`合计${pair.id}`]: day.total.toFixed(2),
+      无汇率记录: day.unpriced,
+    }));
+    exportToCSV(exportData, `每日盈亏_${pair.id}_${format(new Date(), 'yyyyMMdd')}.csv`);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">盈亏与敞口</h2>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={displayedPnl.length === 0}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          导出CSV
+        </button>
+      </div>
+
+      {/* Today */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-900/40 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">今日已实现</p>
+          <p className={`text-2xl font-bold font-mono ${getPnlColor(today?.realized ?? 0)}`}>{formatPnl(today?.realized ?? 0)}</p>
+        </div>
+        <div className="bg-gray-900/40 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">今日未实现</p>
+          <p className={`text-2xl font-bold font-mono ${getPnlColor(today?.unrealized ?? 0)}`}>{formatPnl(today?.unrealized ?? 0)}</p>
+        </div>
+        <div className="bg-gray-900/40 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">今日合计 ({pair.id})</p>
+          <p className={`text-2xl font-bold font-mono ${getPnlColor(today?.total ?? 0)}`}>{formatPnl(today?.total ?? 0)}</p>
+        </div>
+        <div className="bg-gray-900/40 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">净敞口 (USDT)</p>
+          <p className="text-2xl font-bold font-mono text-white">{(today?.exposure ?? 0).toFixed(2)}</p>
+          {today?.markRate != null && (
+            <p className="text-gray-500 text-xs">按 {today.markRate.toFixed(4)} 估值</p>
+          )}
+        </div>
+      </div>
+
+      {/* Record volumes */}
+      {canRecord && (
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <input
+              type="datetime-local"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+              title={`${pair.region}时间 (${getTimeZoneLabel(pair)})`}
+            />
+            <input
+              type="number"
+              min="0"
+              value={deposits}
+              onChange={(e) => setDeposits(e.target.value)}
+              placeholder="入金 USDT"
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="number"
+              min="0"
+              value={withdrawals}
+              onChange={(e) => setWithdrawals(e.target.value)}
+              placeholder="出金 USDT"
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="备注 (可选)"
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleAdd}
+                className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm flex items-center justify-center gap-1 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                记录
+              </button>
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="flex-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 text-sm flex items-center justify-center gap-1 transition-colors"
+                title="CSV 表头: 时间,入金,出金,备注"
+              >
+                <Upload className="w-4 h-4" />
+                导入
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+          <p className="text-gray-500 text-xs mt-1">
+            按单笔或按小时汇总录入；时间为{pair.region}时间，按该时刻的市场汇率与平台汇率计算，扣除成本缓冲
+          </p>
+          {message && <p className="text-green-400 text-xs mt-1">{message}</p>}
+          {errors.length > 0 && (
+            <ul className="text-red-400 text-xs mt-1 space-y-0.5">
+              {errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+              {errors.length > 5 && <li>另有 {errors.length - 5} 条错误</li>}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Daily P&L */}
+      {displayedPnl.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          暂无出入金记录，录入或导入后将按营业日计算盈亏
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="px-4 py-3 text-left text-gray-400 text-sm font-medium">日期 ({getTimeZoneLabel(pair)})</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">入金 / 出金</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">净敞口</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">已实现</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">未实现</th>
+                <th className="px-4 py-3 text-right text-gray-400 text-sm font-medium">合计 ({pair.id})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {displayedPnl.map(day => (
+                <tr key={day.date} className="border-b border-gray-700/50">
+                  <td className="px-4 py-4 text-white font-medium">
+                    {day.date}
+                    {day.unpriced > 0 && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs bg-yellow-500/20 text-yellow-400" title="这些记录之前没有市场汇率样本，未计入盈亏">
+                        {day.unpriced} 条无汇率
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-right font-mono text-sm text-gray-300">
+                    {day.deposits.toFixed(2)} / {day.withdrawals.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-4 text-right font-mono text-white">{day.exposure.toFixed(2)}</td>
+                  <td className={`px-4 py-4 text-right font-mono ${getPnlColor(day.realized)}`}>{formatPnl(day.realized)}</td>
+                  <td className={`px-4 py-4 text-right font-mono ${getPnlColor(day.unrealized)}`}>{formatPnl(day.unrealized)}</td>
+                  <td className={`px-4 py-4 text-right font-mono font-bold ${getPnlColor(day.total)}`}>{formatPnl(day.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Recent flows */}
+      {recentFlows.length > 0 && (
+        <div>
+          <h3 className="text-gray-400 text-sm font-medium mb-2">最近录入</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {recentFlows.map(flow => (
+                <tr key={flow.id} className="border-t border-gray-700/50 text-gray-300">
+                  <td className="py-2">{formatLocalTime(new Date(flow.timestamp), 'MM-dd HH:mm', pair.utcOffset)}</td>
+                  <td className="py-2 text-right font-mono">+{flow.deposits.toFixed(2)}</td>
+                  <td className="py-2 text-right font-mono">-{flow.withdrawals.toFixed(2)}</td>
+                  <td className="py-2 pl-4 text-gray-500">{flow.note ?? ''}</td>
+                  <td className="py-2 text-gray-500">{flow.source === 'import' ? '导入' : flow.createdBy ?? ''}</td>
+                  <td className="py-2 text-right">
+                    {canRecord && (
+                      <button
+                        onClick={() => deletePnlFlow(flow.id)}
+                        className="p-1 rounded hover:bg-white/10 transition-colors"
+                        title="删除"
+                      >
+                        <Trash2 className="w-4 h-4 text-gray-500" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,22 @@
-import { useMemo, useState } from 'react';
-import { useRateStore } from '../store/rateStore';
-import { format } from 'date-fns';
-import { BarChart2 } from 'lucide-react';
-import { formatMalaysiaTime, calculateRiskLevel } from '../utils/rateUtils';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { useElementWidth } from '../hooks/useElementWidth';
+import { fetchRateCandles } from '../services/rateRepository';
+import { hasRole } from '../services/auth';
+import { AnnotationLayer, NoteComposer } from './ChartAnnotations';
+import { AnnotationMarker, useAnnotationMarkers } from '../hooks/useAnnotationMarkers';
+import { BarChart2, CandlestickChart, Flag, LineChart, RotateCcw, StickyNote } from 'lucide-react';
+import { formatLocalTime, parseLocalDateTime } from '../utils/rateUtils';
+import { getLossBandOffset } from '../utils/riskRules';
+import {
+  bucketCandles,
+  Candle,
+  CANDLE_INTERVALS,
+  CandleInterval,
+  downsampleMinMax,
+  getCandleIntervalMs,
+  lowerBound,
+} from '../utils/chartBuckets';
 
 interface DataPoint {
   time: string;
@@ -13,240 +27,781 @@ interface DataPoint {
   isHighRisk: boolean;
 }
 
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+type RangePreset = '1h' | '6h' | '24h' | '7d' | 'custom';
+type ChartMode = 'line' | 'candle';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RANGE_PRESETS: { id: Exclude<RangePreset, 'custom'>; label: string; span: number }[] = [
+  { id: '1h', label: '1小时', span: HOUR_MS },
+  { id: '6h', label: '6小时', span: 6 * HOUR_MS },
+  { id: '24h', label: '24小时', span: 24 * HOUR_MS },
+  { id: '7d', label: '7天', span: 7 * 24 * HOUR_MS },
+];
+
+// The store keeps 7 days of history; the chart cannot go further back
+const DOMAIN_SPAN_MS = 7 * 24 * HOUR_MS;
+const MIN_SPAN_MS = 5 * 60 * 1000;
+const ZOOM_STEP = 1.25;
+
+const PADDING_LEFT = 50;
+const PADDING_RIGHT = 50;
+const CHART_HEIGHT = 280;
+const BRUSH_HEIGHT = 40;
+const SPREAD_HEIGHT = 60;
+
+// Two buckets per pixel is more detail than the line can show anyway
+const PIXELS_PER_BUCKET = 2;
+// Narrower candles are noise; finer intervals are skipped for the range
+const MIN_CANDLE_PX = 3;
+
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// Keep a range inside the domain, shifting rather than shrinking where possible
+function clampRange(range: TimeRange, domain: TimeRange): TimeRange {
+  const span = Math.min(Math.max(range.end - range.start, MIN_SPAN_MS), domain.end - domain.start);
+  let start = range.start;
+  if (start < domain.start) start = domain.start;
+  if (start + span > domain.end) start = domain.end - span;
+  return { start, end: start + span };
+}
+
 export function RateChart() {
-  const { rateHistory, platformRate } = useRateStore();
+  const { rateHistory, riskRules, costBuffer, authUser, deleteNote } = useRateStore();
+  const pair = usePairConfig();
+  // Reference lines above the platform rate where the loss-side rules fire
+  const warningOffset = getLossBandOffset(riskRules, 'warning', costBuffer);
+  const dangerOffset = getLossBandOffset(riskRules, 'danger', costBuffer);
   const [hoveredPoint, setHoveredPoint] = useState<DataPoint | null>(null);
   const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
+  const [preset, setPreset] = useState<RangePreset>('24h');
+  const [customRange, setCustomRange] = useState<TimeRange | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [chartMode, setChartMode] = useState<ChartMode>('line');
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('15m');
+  const [hoveredCandle, setHoveredCandle] = useState<Candle | null>(null);
+  const [serverCandles, setServerCandles] = useState<{ intervalMs: number; candles: Candle[] } | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [noteMode, setNoteMode] = useState(false);
+  const [draftNoteAt, setDraftNoteAt] = useState<number | null>(null);
+  const [hoveredMarker, setHoveredMarker] = useState<AnnotationMarker | null>(null);
+  const canAnnotate = hasRole(authUser?.role, 'operator');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const width = useElementWidth(containerRef, 900);
+  const chartWidth = Math.max(width - PADDING_LEFT - PADDING_RIGHT, 100);
+
+  // Everything in memory, up to now; a preset view follows new data as it arrives
+  const domain = useMemo<TimeRange>(() => {
+    const end = Math.max(Date.now(), rateHistory.length > 0 ? rateHistory[rateHistory.length - 1].timestamp : 0);
+    return { start: end - DOMAIN_SPAN_MS, end };
+  }, [rateHistory]);
+
+  const view = useMemo<TimeRange>(() => {
+    if (preset === 'custom' && customRange) return clampRange(customRange, domain);
+    const span = RANGE_PRESETS.find(p => p.id === preset)?.span ?? 24 * HOUR_MS;
+    return { start: domain.end - span, end: domain.end };
+  }, [preset, customRange, domain]);
+
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  const showRange = useCallback((range: TimeRange) => {
+    setPreset('custom');
+    setCustomRange(clampRange(range, domain));
+  }, [domain]);
+
+  const xScale = useCallback(
+    (timestamp: number) => ((timestamp - view.start) / (view.end - view.start)) * chartWidth,
+    [view, chartWidth]
+  );
+
+  // Inverse of xScale, from a pixel offset within the svg
+  const timestampAt = (offsetX: number) => view.start + ((offsetX - PADDING_LEFT) / chartWidth) * (view.end - view.start);
+
+  const markers = useAnnotationMarkers(view);
 
   const chartData = useMemo(() => {
-    // Show all change events from the last 7 days (or whatever is in rateHistory)
-    // but maybe cap it to last 200 points for performance
-    const history = rateHistory.slice(-200);
+    // The record before the range still sets the rates at its left edge
+    const from = Math.max(lowerBound(rateHistory, view.start) - 1, 0);
+    const to = lowerBound(rateHistory, view.end + 1);
+    const history = downsampleMinMax(rateHistory.slice(from, to), Math.floor(chartWidth / PIXELS_PER_BUCKET));
+    const timeFormat = view.end - view.start > 24 * HOUR_MS ? 'MM-dd HH:mm' : 'HH:mm:ss';
     return history.map(record => ({
-      time: formatMalaysiaTime(new Date(record.timestamp), 'MM-dd HH:mm'),
+      time: formatLocalTime(new Date(record.timestamp), timeFormat, pair.utcOffset),
       timestamp: record.timestamp,
       marketRate: record.marketRate,
       platformRate: record.platformRate,
       diff: record.diff,
-      isHighRisk: calculateRiskLevel(record.diff) !== 'safe',
+      // As the monitor assessed it, lock window and expansion streak included
+      isHighRisk: record.riskLevel !== 'safe',
     }));
-  }, [rateHistory]);
+  }, [rateHistory, view, chartWidth, pair.utcOffset]);
+
+  const fitsRange = useCallback(
+    (intervalMs: number) => (view.end - view.start) / intervalMs <= chartWidth / MIN_CANDLE_PX,
+    [view, chartWidth]
+  );
 
-  const { minRate, maxRate, yScale, xScale } = useMemo(() => {
-    if (chartData.length === 0) {
-      return { minRate: 4.3, maxRate: 4.5, yScale: () => 0, xScale: () => 0 };
+  // The chosen interval, or the next coarser one that fits the range
+  const candleMs = useMemo(() => {
+    const selected = getCandleIntervalMs(candleInterval);
+    const fitting = CANDLE_INTERVALS.find(i => i.ms >= selected && fitsRange(i.ms));
+    return fitting?.ms ?? CANDLE_INTERVALS[CANDLE_INTERVALS.length - 1].ms;
+  }, [candleInterval, fitsRange]);
+
+  // Ranges reaching before the history in memory are bucketed from rate_history
+  const earliestRecord = rateHistory.length > 0 ? rateHistory[0].timestamp : null;
+  const needsServerCandles = chartMode === 'candle' && earliestRecord !== null && view.start < earliestRecord - candleMs;
+
+  useEffect(() => {
+    if (!needsServerCandles) return;
+    let cancelled = false;
+    // Wait for panning and zooming to settle
+    const timer = setTimeout(() => {
+      fetchRateCandles(pair.id, view.start - candleMs, view.end, candleMs, pair.utcOffset)
+        .then(candles => {
+          if (!cancelled) setServerCandles({ intervalMs: candleMs, candles });
+        })
+        .catch(error => console.error('Failed to load candles:', error));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [needsServerCandles, pair, view.start, view.end, candleMs]);
+
+  const candles = useMemo(() => {
+    if (chartMode !== 'candle') return [];
+    const source = needsServerCandles && serverCandles?.intervalMs === candleMs
+      ? serverCandles.candles
+      : bucketCandles(
+        rateHistory.slice(Math.max(lowerBound(rateHistory, view.start) - 1, 0), lowerBound(rateHistory, view.end + 1)),
+        candleMs,
+        pair.utcOffset,
+        Math.min(view.end, Date.now())
+      );
+    return source.filter(c => c.end > view.start && c.start <= view.end);
+  }, [chartMode, needsServerCandles, serverCandles, rateHistory, view, candleMs, pair.utcOffset]);
+
+  const { minRate, maxRate, yScale } = useMemo(() => {
+    const rates = chartMode === 'candle'
+      ? candles.flatMap(c => [c.high, c.low, c.platformRate])
+      : chartData.flatMap(d => [d.marketRate, d.platformRate]);
+    if (rates.length === 0) {
+      const center = pair.defaultPlatformRate;
+      return { minRate: center - 0.1 * pair.scale, maxRate: center + 0.1 * pair.scale, yScale: () => 0 };
     }
-    const rates = chartData.flatMap(d => [d.marketRate, d.platformRate]);
-    const min = Math.min(...rates) - 0.02;
-    const max = Math.max(...rates) + 0.02;
-    const chartHeight = 280;
-    const chartWidth = 800;
+    const min = Math.min(...rates) - 0.02 * pair.scale;
+    const max = Math.max(...rates) + 0.02 * pair.scale;
 
     return {
       minRate: min,
       maxRate: max,
-      yScale: (rate: number) => chartHeight - ((rate - min) / (max - min)) * chartHeight,
-      xScale: (index: number) => (index / (chartData.length - 1 || 1)) * chartWidth,
+      yScale: (rate: number) => CHART_HEIGHT - ((rate - min) / (max - min)) * CHART_HEIGHT,
     };
-  }, [chartData]);
+  }, [chartMode, candles, chartData, pair]);
 
   const marketPath = useMemo(() => {
-    if (chartData.length < 2) return '';
+    if (chartData.length === 0) return '';
     return chartData
-      .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(d.marketRate)}`)
+      .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(d.timestamp)} ${yScale(d.marketRate)}`)
       .join(' ');
   }, [chartData, xScale, yScale]);
 
-  const platformPath = useMemo(() => {
-    if (chartData.length < 2) return '';
-    return chartData
-      .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(i)} ${yScale(d.platformRate)}`)
+  // The platform rate holds until the next switch, so draw it (and the bands
+  // above it) as steps following the rate in force at each point, carried on
+  // to the right edge
+  const platformSteps = useMemo(
+    () => (chartMode === 'candle'
+      ? candles.map(c => ({ timestamp: c.start, platformRate: c.platformRate }))
+      : chartData),
+    [chartMode, candles, chartData]
+  );
+
+  const stepPath = useCallback((offset: number) => {
+    if (platformSteps.length === 0) return '';
+    const path = platformSteps
+      .map((d, i) => {
+        const y = yScale(d.platformRate + offset);
+        return i === 0
+          ? `M ${xScale(d.timestamp)} ${y}`
+          : `L ${xScale(d.timestamp)} ${yScale(platformSteps[i - 1].platformRate + offset)} L ${xScale(d.timestamp)} ${y}`;
+      })
       .join(' ');
-  }, [chartData, xScale, yScale]);
+    return `${path} L ${xScale(view.end)} ${yScale(platformSteps[platformSteps.length - 1].platformRate + offset)}`;
+  }, [platformSteps, xScale, yScale, view.end]);
 
-  if (chartData.length === 0) {
-    return (
-      <div className="bg-gray-800/50 rounded-xl p-6">
-        <div className="flex items-center gap-2 mb-6">
-          <BarChart2 className="w-5 h-5 text-blue-400" />
-          <h2 className="text-xl font-bold text-white">汇率走势图</h2>
-        </div>
-        <div className="h-80 flex items-center justify-center text-gray-500">
-          暂无数据，图表将在监控过程中自动生成
-        </div>
-      </div>
-    );
-  }
+  const platformPath = useMemo(() => stepPath(0), [stepPath]);
+
+  // Lowest to highest spread in each candle, with zero kept in view
+  const spreadBand = useMemo(() => {
+    if (candles.length === 0) return null;
+    const low = Math.min(0, ...candles.map(c => c.spreadLow));
+    const high = Math.max(0, ...candles.map(c => c.spreadHigh));
+    const y = (diff: number) => SPREAD_HEIGHT - ((diff - low) / (high - low || 1)) * SPREAD_HEIGHT;
+    const x = (c: Candle) => xScale((c.start + c.end) / 2);
+    const top = candles.map((c, i) => `${i === 0 ? 'M' : 'L'} ${x(c)} ${y(c.spreadHigh)}`).join(' ');
+    const bottom = [...candles].reverse().map(c => `L ${x(c)} ${y(c.spreadLow)}`).join(' ');
+    return { path: `${top} ${bottom} Z`, zeroY: y(0), low, high };
+  }, [candles, xScale]);
+
+  // Overview of the whole domain for the brush
+  const overviewPath = useMemo(() => {
+    const history = downsampleMinMax(rateHistory, Math.floor(chartWidth / PIXELS_PER_BUCKET));
+    if (history.length === 0) return '';
+    const min = Math.min(...history.map(r => r.marketRate));
+    const max = Math.max(...history.map(r => r.marketRate));
+    const span = domain.end - domain.start;
+    return history
+      .map((r, i) => {
+        const x = ((r.timestamp - domain.start) / span) * chartWidth;
+        const y = BRUSH_HEIGHT - 4 - ((r.marketRate - min) / (max - min || 1)) * (BRUSH_HEIGHT - 8);
+        return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
+      })
+      .join(' ');
+  }, [rateHistory, domain, chartWidth]);
+
+  const hasData = rateHistory.length > 0;
+
+  // Wheel zoom around the cursor. React registers wheel listeners as passive,
+  // which cannot stop the page from scrolling, so this one is attached by hand.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = viewRef.current;
+      const rect = svg.getBoundingClientRect();
+      const ratio = Math.min(Math.max((e.clientX - rect.left - PADDING_LEFT) / chartWidth, 0), 1);
+      const span = current.end - current.start;
+      const nextSpan = e.deltaY > 0 ? span * ZOOM_STEP : span / ZOOM_STEP;
+      const anchor = current.start + ratio * span;
+      showRange({ start: anchor - ratio * nextSpan, end: anchor + (1 - ratio) * nextSpan });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [chartWidth, showRange, hasData]);
+
+  // Drag to pan
+  const dragRef = useRef<{ x: number; range: TimeRange } | null>(null);
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    dragRef.current = { x: e.clientX, range: view };
+    setIsDragging(true);
+    setHoveredPoint(null);
+    setHoveredCandle(null);
+  };
 
   const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
-    const svg = e.currentTarget;
-    const rect = svg.getBoundingClientRect();
-    const x = e.clientX - rect.left - 50; // account for padding
-    const index = Math.round((x / 800) * (chartData.length - 1));
-
-    if (index >= 0 && index < chartData.length) {
-      setHoveredPoint(chartData[index]);
-      setTooltipPos({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    const drag = dragRef.current;
+    if (drag) {
+      const shift = ((e.clientX - drag.x) / chartWidth) * (drag.range.end - drag.range.start);
+      showRange({ start: drag.range.start - shift, end: drag.range.end - shift });
+      return;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const timestamp = timestampAt(e.clientX - rect.left);
+    setTooltipPos({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+
+    if (chartMode === 'candle') {
+      setHoveredCandle(candles.find(c => c.start <= timestamp && c.end > timestamp) ?? null);
+      return;
+    }
+
+    const index = Math.min(Math.max(chartData.findIndex(d => d.timestamp >= timestamp), 0), chartData.length - 1);
+    const nearest = index > 0 && timestamp - chartData[index - 1].timestamp < chartData[index].timestamp - timestamp
+      ? chartData[index - 1]
+      : chartData[index];
+
+    if (nearest && nearest.timestamp >= view.start) {
+      setHoveredPoint(nearest);
+    } else {
+      setHoveredPoint(null);
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  // In note mode a click (not a drag) picks the note's timestamp
+  const handleMouseUp = (e: React.MouseEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    endDrag();
+    if (!noteMode || !drag || Math.abs(e.clientX - drag.x) > 3) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDraftNoteAt(Math.round(timestampAt(e.clientX - rect.left)));
+    setNoteMode(false);
+  };
+
+  const handleMarkerSelect = (marker: AnnotationMarker) => {
+    if (!marker.noteId || !canAnnotate) return;
+    if (window.confirm(`删除这条备注？\n${marker.detail ?? ''}`)) deleteNote(marker.noteId);
+  };
+
+  // Brush: drag the window to move it, or drag elsewhere to select a new range
+  const brushRef = useRef<{ mode: 'move' | 'select'; anchor: number; range: TimeRange } | null>(null);
+
+  const brushTimestamp = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left - PADDING_LEFT) / chartWidth, 0), 1);
+    return domain.start + ratio * (domain.end - domain.start);
+  };
+
+  const handleBrushDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    const at = brushTimestamp(e);
+    const inside = at >= view.start && at <= view.end;
+    brushRef.current = { mode: inside ? 'move' : 'select', anchor: at, range: view };
+  };
+
+  const handleBrushMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const brush = brushRef.current;
+    if (!brush) return;
+    const at = brushTimestamp(e);
+    if (brush.mode === 'move') {
+      const shift = at - brush.anchor;
+      showRange({ start: brush.range.start + shift, end: brush.range.end + shift });
+    } else {
+      showRange({ start: Math.min(brush.anchor, at), end: Math.max(brush.anchor, at) });
     }
   };
 
+  const handleBrushUp = (e: React.MouseEvent<SVGSVGElement>) => {
+    const brush = brushRef.current;
+    brushRef.current = null;
+    // A click without a drag centres the current window there
+    if (brush?.mode === 'select' && Math.abs(brushTimestamp(e) - brush.anchor) < MIN_SPAN_MS) {
+      const span = view.end - view.start;
+      showRange({ start: brush.anchor - span / 2, end: brush.anchor + span / 2 });
+    }
+  };
+
+  const handleCustomInput = (edge: 'start' | 'end', value: string) => {
+    const timestamp = parseLocalDateTime(value, pair.utcOffset);
+    if (timestamp === null) return;
+    const next = { ...view, [edge]: timestamp };
+    if (next.end > next.start) showRange(next);
+  };
+
+  const domainX = (timestamp: number) => ((timestamp - domain.start) / (domain.end - domain.start)) * chartWidth;
+  const axisFormat = view.end - view.start > 24 * HOUR_MS ? 'MM-dd HH:mm' : 'HH:mm';
+  const svgHeight = CHART_HEIGHT + 40 + (chartMode === 'candle' ? SPREAD_HEIGHT + 20 : 0);
+  const candleWidth = Math.max(1, (candleMs / (view.end - view.start)) * chartWidth * 0.7);
+
   return (
     <div className="bg-gray-800/50 rounded-xl p-6">
-      <div className="flex items-center gap-2 mb-6">
-        <BarChart2 className="w-5 h-5 text-blue-400" />
-        <h2 className="text-xl font-bold text-white">汇率走势图</h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-2">
+          <BarChart2 className="w-5 h-5 text-blue-400" />
+          <h2 className="text-xl font-bold text-white">汇率走势图</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1 bg-gray-900/60 rounded-lg p-1">
+            <button
+              onClick={() => setChartMode('line')}
+              className={`p-1 rounded-md transition-colors ${chartMode === 'line' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+              title="走势线"
+            >
+              <LineChart className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setChartMode('candle')}
+              className={`p-1 rounded-md transition-colors ${chartMode === 'candle' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+              title="K线"
+            >
+              <CandlestickChart className="w-4 h-4" />
+            </button>
+          </div>
+          {chartMode === 'candle' && (
+            <div className="flex items-center gap-1 bg-gray-900/60 rounded-lg p-1">
+              {CANDLE_INTERVALS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setCandleInterval(option.id)}
+                  disabled={!fitsRange(option.ms)}
+                  className={`px-2 py-0.5 rounded-md text-xs transition-colors disabled:opacity-30 ${candleMs === option.ms
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-400 hover:bg-gray-700'
+                    }`}
+                  title={fitsRange(option.ms) ? undefined : '当前范围过长，请先缩小范围'}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-1 bg-gray-900/60 rounded-lg p-1">
+            <button
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              className={`p-1 rounded-md transition-colors ${showAnnotations ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+              title="显示标注（锁价时段、风险变化、设置变更、备注）"
+            >
+              <Flag className="w-4 h-4" />
+            </button>
+            {canAnnotate && (
+              <button
+                onClick={() => {
+                  setNoteMode(!noteMode);
+                  setShowAnnotations(true);
+                }}
+                className={`p-1 rounded-md transition-colors ${noteMode ? 'bg-yellow-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+                title="添加备注：点击图表选择时间点"
+              >
+                <StickyNote className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {RANGE_PRESETS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setPreset(option.id)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${preset === option.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <input
+            type="datetime-local"
+            value={formatLocalTime(new Date(view.start), DATETIME_INPUT_FORMAT, pair.utcOffset)}
+            onChange={(e) => handleCustomInput('start', e.target.value)}
+            className={`bg-gray-700 border rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-500 ${preset === 'custom' ? 'border-blue-500' : 'border-gray-600'}`}
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="datetime-local"
+            value={formatLocalTime(new Date(view.end), DATETIME_INPUT_FORMAT, pair.utcOffset)}
+            onChange={(e) => handleCustomInput('end', e.target.value)}
+            className={`bg-gray-700 border rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-500 ${preset === 'custom' ? 'border-blue-500' : 'border-gray-600'}`}
+          />
+          {preset === 'custom' && (
+            <button
+              onClick={() => setPreset('24h')}
+              className="p-1 rounded hover:bg-white/10 transition-colors"
+              title="恢复默认范围"
+            >
+              <RotateCcw className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className="relative overflow-hidden">
-        <svg
-          viewBox="0 0 900 320"
-          className="w-full h-80"
-          onMouseMove={handleMouseMove}
-          onMouseLeave={() => setHoveredPoint(null)}
-        >
-          {/* Grid */}
-          <g className="text-gray-600">
-            {[0, 1, 2, 3, 4].map(i => (
-              <g key={i}>
-                <line
-                  x1="50"
-                  y1={56 * i + 20}
-                  x2="850"
-                  y2={56 * i + 20}
-                  stroke="#374151"
-                  strokeDasharray="4"
-                />
+      {draftNoteAt !== null && <NoteComposer timestamp={draftNoteAt} onClose={() => setDraftNoteAt(null)} />}
+      {noteMode && <p className="text-yellow-400 text-xs mb-2">点击图表上的时间点添加备注</p>}
+
+      <div ref={containerRef} className="relative overflow-hidden">
+        {!hasData ? (
+          <div className="h-80 flex items-center justify-center text-gray-500">
+            暂无数据，图表将在监控过程中自动生成
+          </div>
+        ) : (
+          <>
+            <svg
+              ref={svgRef}
+              width={width}
+              height={svgHeight}
+              viewBox={`0 0 ${width} ${svgHeight}`}
+              className={`select-none ${noteMode ? 'cursor-crosshair' : isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={() => {
+                endDrag();
+                setHoveredPoint(null);
+                setHoveredCandle(null);
+              }}
+            >
+              <defs>
+                <clipPath id="rate-chart-clip">
+                  <rect x="0" y="0" width={chartWidth} height={CHART_HEIGHT} />
+                </clipPath>
+              </defs>
+
+              {/* Grid */}
+              <g className="text-gray-600">
+                {[0, 1, 2, 3, 4].map(i => (
+                  <g key={i}>
+                    <line
+                      x1={PADDING_LEFT}
+                      y1={(CHART_HEIGHT / 4) * i + 20}
+                      x2={PADDING_LEFT + chartWidth}
+                      y2={(CHART_HEIGHT / 4) * i + 20}
+                      stroke="#374151"
+                      strokeDasharray="4"
+                    />
+                    <text
+                      x={PADDING_LEFT - 5}
+                      y={(CHART_HEIGHT / 4) * i + 25}
+                      fill="#9CA3AF"
+                      fontSize="10"
+                      textAnchor="end"
+                    >
+                      {(maxRate - (i / 4) * (maxRate - minRate)).toFixed(3)}
+                    </text>
+                  </g>
+                ))}
+              </g>
+
+              {/* Chart Area */}
+              <g transform={`translate(${PADDING_LEFT}, 20)`}>
+                <g clipPath="url(#rate-chart-clip)">
+                  {/* Annotations */}
+                  {showAnnotations && (
+                    <AnnotationLayer
+                      view={view}
+                      markers={markers}
+                      height={CHART_HEIGHT}
+                      xScale={xScale}
+                      onHover={setHoveredMarker}
+                      onSelect={handleMarkerSelect}
+                    />
+                  )}
+
+                  {/* Reference Lines */}
+                  {warningOffset !== null && (
+                    <path
+                      d={stepPath(warningOffset)}
+                      fill="none"
+                      stroke="#EAB308"
+                      strokeWidth="1"
+                      strokeDasharray="3 3"
+                    />
+                  )}
+                  {dangerOffset !== null && (
+                    <path
+                      d={stepPath(dangerOffset)}
+                      fill="none"
+                      stroke="#F97316"
+                      strokeWidth="1"
+                      strokeDasharray="3 3"
+                    />
+                  )}
+
+                  {/* Market Rate Line or Candles (rising red, falling green) */}
+                  {chartMode === 'candle' ? candles.map(c => {
+                    const cx = xScale((c.start + c.end) / 2);
+                    const color = c.close >= c.open ? '#EF4444' : '#10B981';
+                    return (
+                      <g key={c.start} opacity={hoveredCandle && hoveredCandle.start !== c.start ? 0.6 : 1}>
+                        <line x1={cx} x2={cx} y1={yScale(c.high)} y2={yScale(c.low)} stroke={color} strokeWidth="1" />
+                        <rect
+                          x={cx - candleWidth / 2}
+                          y={yScale(Math.max(c.open, c.close))}
+                          width={candleWidth}
+                          height={Math.max(1, Math.abs(yScale(c.open) - yScale(c.close)))}
+                          fill={color}
+                        />
+                      </g>
+                    );
+                  }) : (
+                    <path
+                      d={marketPath}
+                      fill="none"
+                      stroke="#10B981"
+                      strokeWidth="2"
+                    />
+                  )}
+
+                  {/* Platform Rate Line */}
+                  <path
+                    d={platformPath}
+                    fill="none"
+                    stroke="#3B82F6"
+                    strokeWidth="2"
+                    strokeDasharray="5 5"
+                  />
+
+                  {/* Hovered point */}
+                  {hoveredPoint && (
+                    <circle
+                      cx={xScale(hoveredPoint.timestamp)}
+                      cy={yScale(hoveredPoint.marketRate)}
+                      r="4"
+                      fill={hoveredPoint.isHighRisk ? '#EF4444' : '#10B981'}
+                    />
+                  )}
+                </g>
+              </g>
+
+              {/* Spread Range Band */}
+              {chartMode === 'candle' && spreadBand && (
+                <g transform={`translate(${PADDING_LEFT}, ${CHART_HEIGHT + 30})`}>
+                  <text x="-5" y="10" fill="#9CA3AF" fontSize="10" textAnchor="end">{spreadBand.high.toFixed(3)}</text>
+                  <text x="-5" y={SPREAD_HEIGHT} fill="#9CA3AF" fontSize="10" textAnchor="end">{spreadBand.low.toFixed(3)}</text>
+                  <g clipPath="url(#rate-chart-clip)">
+                    <path d={spreadBand.path} fill="#8B5CF6" fillOpacity="0.35" stroke="#8B5CF6" strokeWidth="1" />
+                    <line x1="0" x2={chartWidth} y1={spreadBand.zeroY} y2={spreadBand.zeroY} stroke="#6B7280" strokeDasharray="2 2" />
+                  </g>
+                </g>
+              )}
+
+              {/* X Axis Labels */}
+              {[0, 0.25, 0.5, 0.75, 1].map(ratio => (
                 <text
-                  x="45"
-                  y={56 * i + 25}
+                  key={ratio}
+                  x={PADDING_LEFT + ratio * chartWidth}
+                  y={svgHeight - 5}
                   fill="#9CA3AF"
                   fontSize="10"
-                  textAnchor="end"
+                  textAnchor="middle"
                 >
-                  {(maxRate - (i / 4) * (maxRate - minRate)).toFixed(3)}
+                  {formatLocalTime(new Date(view.start + ratio * (view.end - view.start)), axisFormat, pair.utcOffset)}
                 </text>
-              </g>
-            ))}
-          </g>
-
-          {/* Reference Lines */}
-          <line
-            x1="50"
-            y1={yScale(platformRate) + 20}
-            x2="850"
-            y2={yScale(platformRate) + 20}
-            stroke="#3B82F6"
-            strokeWidth="1"
-            strokeDasharray="5 5"
-          />
-          <line
-            x1="50"
-            y1={yScale(platformRate + 0.05) + 20}
-            x2="850"
-            y2={yScale(platformRate + 0.05) + 20}
-            stroke="#EAB308"
-            strokeWidth="1"
-            strokeDasharray="3 3"
-          />
-          <line
-            x1="50"
-            y1={yScale(platformRate + 0.08) + 20}
-            x2="850"
-            y2={yScale(platformRate + 0.08) + 20}
-            stroke="#F97316"
-            strokeWidth="1"
-            strokeDasharray="3 3"
-          />
+              ))}
+            </svg>
 
-          {/* Chart Area */}
-          <g transform="translate(50, 20)">
-            {/* Market Rate Line */}
-            <path
-              d={marketPath}
-              fill="none"
-              stroke="#10B981"
-              strokeWidth="2"
-            />
-
-            {/* Platform Rate Line */}
-            <path
-              d={platformPath}
-              fill="none"
-              stroke="#3B82F6"
-              strokeWidth="2"
-              strokeDasharray="5 5"
-            />
-
-            {/* Data points for interaction */}
-            {chartData.map((d, i) => (
-              <circle
-                key={i}
-                cx={xScale(i)}
-                cy={yScale(d.marketRate)}
-                r="4"
-                fill={d.isHighRisk ? '#EF4444' : '#10B981'}
-                opacity={hoveredPoint?.timestamp === d.timestamp ? 1 : 0}
-              />
-            ))}
-          </g>
-
-          {/* X Axis Labels */}
-          {chartData.length > 0 && [0, Math.floor(chartData.length / 2), chartData.length - 1].map(i => (
-            <text
-              key={i}
-              x={xScale(i) + 50}
-              y="310"
-              fill="#9CA3AF"
-              fontSize="10"
-              textAnchor="middle"
+            {/* Brush */}
+            <svg
+              width={width}
+              height={BRUSH_HEIGHT}
+              viewBox={`0 0 ${width} ${BRUSH_HEIGHT}`}
+              className="select-none cursor-crosshair mt-2"
+              onMouseDown={handleBrushDown}
+              onMouseMove={handleBrushMove}
+              onMouseUp={handleBrushUp}
+              onMouseLeave={() => {
+                brushRef.current = null;
+              }}
             >
-              {chartData[i]?.time || ''}
-            </text>
-          ))}
-        </svg>
-
-        {/* Tooltip */}
-        {hoveredPoint && (
-          <div
-            className="absolute bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg pointer-events-none z-10"
-            style={{
-              left: Math.min(tooltipPos.x + 10, 700),
-              top: tooltipPos.y - 100,
-            }}
-          >
-            <p className="text-gray-400 text-sm mb-2">{hoveredPoint.time}</p>
-            <p className="text-white">
-              市场汇率: <span className="font-mono text-green-400">{hoveredPoint.marketRate.toFixed(4)}</span>
-            </p>
-            <p className="text-white">
-              平台汇率: <span className="font-mono text-blue-400">{hoveredPoint.platformRate.toFixed(4)}</span>
-            </p>
-            <p className="text-white">
-              点差: <span className={`font-mono ${hoveredPoint.isHighRisk ? 'text-red-400' : 'text-gray-300'}`}>
-                {(hoveredPoint.diff >= 0 ? '+' : '') + hoveredPoint.diff.toFixed(4)}
-              </span>
-            </p>
-          </div>
+              <g transform={`translate(${PADDING_LEFT}, 0)`}>
+                <rect x="0" y="0" width={chartWidth} height={BRUSH_HEIGHT} fill="#1F2937" rx="4" />
+                <path d={overviewPath} fill="none" stroke="#10B981" strokeWidth="1" opacity="0.6" />
+                <rect
+                  x={domainX(view.start)}
+                  y="0"
+                  width={Math.max(domainX(view.end) - domainX(view.start), 2)}
+                  height={BRUSH_HEIGHT}
+                  fill="#3B82F6"
+                  fillOpacity="0.2"
+                  stroke="#3B82F6"
+                  className="cursor-move"
+                />
+              </g>
+            </svg>
+
+            {/* Tooltip */}
+            {showAnnotations && hoveredMarker && (
+              <div
+                className="absolute bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg pointer-events-none z-20 max-w-xs"
+                style={{
+                  left: Math.min(tooltipPos.x + 10, width - 260),
+                  top: Math.max(tooltipPos.y - 60, 0),
+                }}
+              >
+                <p className="text-gray-400 text-sm mb-1">
+                  {formatLocalTime(new Date(hoveredMarker.timestamp), 'MM-dd HH:mm:ss', pair.utcOffset)}
+                </p>
+                <p className="text-white text-sm" style={{ color: hoveredMarker.color }}>{hoveredMarker.title}</p>
+                {hoveredMarker.detail && <p className="text-gray-300 text-sm whitespace-pre-wrap break-words">{hoveredMarker.detail}</p>}
+                {hoveredMarker.noteId && canAnnotate && <p className="text-gray-500 text-xs mt-1">点击删除</p>}
+              </div>
+            )}
+            {!hoveredMarker && chartMode === 'candle' && hoveredCandle && (
+              <div
+                className="absolute bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg pointer-events-none z-10"
+                style={{
+                  left: Math.min(tooltipPos.x + 10, width - 220),
+                  top: tooltipPos.y - 100,
+                }}
+              >
+                <p className="text-gray-400 text-sm mb-2">
+                  {formatLocalTime(new Date(hoveredCandle.start), 'MM-dd HH:mm', pair.utcOffset)} · {hoveredCandle.count} 条
+                </p>
+                <p className="text-white font-mono text-sm">
+                  开 {hoveredCandle.open.toFixed(4)} 高 {hoveredCandle.high.toFixed(4)}
+                </p>
+                <p className="text-white font-mono text-sm">
+                  低 {hoveredCandle.low.toFixed(4)} 收 {hoveredCandle.close.toFixed(4)}
+                </p>
+                <p className="text-white">
+                  平台汇率: <span className="font-mono text-blue-400">{hoveredCandle.platformRate.toFixed(4)}</span>
+                </p>
+                <p className="text-white">
+                  点差区间: <span className="font-mono text-purple-400">
+                    {hoveredCandle.spreadLow.toFixed(4)} ~ {hoveredCandle.spreadHigh.toFixed(4)}
+                  </span>
+                </p>
+              </div>
+            )}
+            {!hoveredMarker && chartMode === 'line' && hoveredPoint && (
+              <div
+                className="absolute bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg pointer-events-none z-10"
+                style={{
+                  left: Math.min(tooltipPos.x + 10, width - 220),
+                  top: tooltipPos.y - 100,
+                }}
+              >
+                <p className="text-gray-400 text-sm mb-2">{hoveredPoint.time}</p>
+                <p className="text-white">
+                  市场汇率: <span className="font-mono text-green-400">{hoveredPoint.marketRate.toFixed(4)}</span>
+                </p>
+                <p className="text-white">
+                  平台汇率: <span className="font-mono text-blue-400">{hoveredPoint.platformRate.toFixed(4)}</span>
+                </p>
+                <p className="text-white">
+                  点差: <span className={`font-mono ${hoveredPoint.isHighRisk ? 'text-red-400' : 'text-gray-300'}`}>
+                    {(hoveredPoint.diff >= 0 ? '+' : '') + hoveredPoint.diff.toFixed(4)}
+                  </span>
+                </p>
+              </div>
+            )}
+          </>
         )}
       </div>
 
-      <div className="mt-4 flex items-center justify-center gap-6 text-sm">
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full bg-green-500"></div>
-          <span className="text-gray-400">市场汇率</span>
-        </div>
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-6 text-sm">
+        {chartMode === 'candle' ? (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 bg-red-500"></div>
+              <div className="w-3 h-3 bg-green-500"></div>
+              <span className="text-gray-400">市场汇率 (涨 / 跌)</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 bg-purple-500/60"></div>
+              <span className="text-gray-400">点差区间</span>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-green-500"></div>
+            <span className="text-gray-400">市场汇率</span>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded-full bg-blue-500"></div>
           <span className="text-gray-400">平台汇率</span>
         </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-0.5 bg-yellow-500"></div>
-          <span className="text-gray-400">警戒线 (+0.05)</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-0.5 bg-orange-500"></div>
-          <span className="text-gray-400">危险线 (+0.08)</span>
-        </div>
+        {warningOffset !== null && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-0.5 bg-yellow-500"></div>
+            <span className="text-gray-400">警戒线 (+{warningOffset})</span>
+          </div>
+        )}
+        {dangerOffset !== null && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-0.5 bg-orange-500"></div>
+            <span className="text-gray-400">危险线 (+{dangerOffset})</span>
+          </div>
+        )}
+        {showAnnotations && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-yellow-500/20"></div>
+            <span className="text-gray-400">锁价时段</span>
+          </div>
+        )}
+        <span className="text-gray-500 text-xs">滚轮缩放 · 拖动平移 · 下方概览可框选范围</span>
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { toast } from 'sonner';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { useCurrentTime } from '../hooks/useRateFetcher';
+import { hasRole } from '../services/auth';
+import { getNextDateKey, getScheduledEffectiveFrom } from '../services/platformRates';
+import { estimateIntradayVolatility, recommendPlatformRate } from '../utils/rateRecommendation';
+import { formatLocalTime, getBusinessDateKey, getRiskBgColor, getRiskColor, getRiskText } from '../utils/rateUtils';
+import { Lightbulb, Check } from 'lucide-react';
+
+function formatSigned(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(4);
+}
+
+export function RateRecommendation() {
+  const { marketRate, costBuffer, targetMargin, riskRules, rateHistory, platformRates, lockTime, authUser, schedulePlatformRate } = useRateStore();
+  const { time, isLockWindow } = useCurrentTime();
+  const { utcOffset } = usePairConfig();
+
+  const volatility = useMemo(() => estimateIntradayVolatility(rateHistory, utcOffset), [rateHistory, utcOffset]);
+  const recommendation = useMemo(
+    () => (marketRate > 0 ? recommendPlatformRate(marketRate, costBuffer, targetMargin, volatility, riskRules) : null),
+    [marketRate, costBuffer, targetMargin, volatility, riskRules]
+  );
+
+  // The rate being picked belongs to the switch nearest to now: tonight's in the
+  // evening, the one just made when the window runs past midnight
+  const today = getBusinessDateKey(time, utcOffset);
+  const tomorrow = getNextDateKey(today);
+  const distance = (date: string) => Math.abs(getScheduledEffectiveFrom(date, lockTime, utcOffset) - time.getTime());
+  const targetDate = distance(today) < distance(tomorrow) ? today : tomorrow;
+  const scheduled = platformRates.find(e => e.date === targetDate);
+  const effectiveFrom = scheduled?.effectiveFrom ?? getScheduledEffectiveFrom(targetDate, lockTime, utcOffset);
+  const canApply = hasRole(authUser?.role, 'operator');
+
+  if (!recommendation) return null;
+
+  const isApplied = scheduled?.rate === recommendation.rate;
+  const handleApply = () => {
+    schedulePlatformRate(targetDate, recommendation.rate);
+    toast.success(`已设置 ${targetDate} 平台汇率 ${recommendation.rate.toFixed(4)}`);
+  };
+
+  return (
+    <div className={`bg-gray-800/50 rounded-xl p-6 ${isLockWindow ? 'border border-yellow-500/40' : ''}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Lightbulb className="w-5 h-5 text-yellow-400" />
+          <h2 className="text-xl font-bold text-white">平台汇率建议</h2>
+          {isLockWindow && (
+            <span className="px-2 py-0.5 rounded text-xs bg-yellow-500/20 text-yellow-400">锁价时段</span>
+          )}
+        </div>
+        <span className="text-gray-500 text-sm">
+          {targetDate} · {formatLocalTime(new Date(effectiveFrom), 'MM-dd HH:mm', utcOffset)} 生效
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <div>
+          <p className="text-gray-400 text-sm">建议平台汇率</p>
+          <p className="text-3xl font-bold text-blue-400 font-mono">{recommendation.rate.toFixed(4)}</p>
+          <p className="text-gray-500 text-xs mt-1">
+            市场 {marketRate.toFixed(4)} + 成本 {costBuffer} + 目标利润 {targetMargin}
+            {volatility.sampleDays > 0 ? ` · 参考近 ${volatility.sampleDays} 日波动` : ' · 暂无波动数据'}
+          </p>
+        </div>
+
+        <div>
+          <p className="text-gray-400 text-sm mb-1">可能风险范围</p>
+          <div className="flex items-center gap-2">
+            <span className={`px-3 py-1 rounded-full text-sm ${getRiskBgColor(recommendation.best.level, recommendation.best.side)} ${getRiskColor(recommendation.best.level, recommendation.best.side)}`}>
+              {getRiskText(recommendation.best.level, recommendation.best.side)}
+            </span>
+            <span className="text-gray-500">~</span>
+            <span className={`px-3 py-1 rounded-full text-sm ${getRiskBgColor(recommendation.worst.level, recommendation.worst.side)} ${getRiskColor(recommendation.worst.level, recommendation.worst.side)}`}>
+              {getRiskText(recommendation.worst.level, recommendation.worst.side)}
+            </span>
+          </div>
+        </div>
+
+        <div className="ml-auto">
+          <button
+            onClick={handleApply}
+            disabled={!canApply || isApplied}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+            title={canApply ? undefined : '需要操作员权限'}
+          >
+            <Check className="w-4 h-4" />
+            {isApplied ? '已采用' : '一键采用'}
+          </button>
+          {scheduled && !isApplied && (
+            <p className="text-gray-500 text-xs mt-1">当前已排期: {scheduled.rate.toFixed(4)}</p>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm mt-4">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="py-1 text-left font-normal">情景</th>
+            <th className="py-1 text-right font-normal">市场汇率</th>
+            <th className="py-1 text-right font-normal">点差</th>
+            <th className="py-1 text-right font-normal">风险</th>
+          </tr>
+        </thead>
+        <tbody>
+          {recommendation.scenarios.map(scenario => (
+            <tr key={scenario.label} className="border-t border-gray-700/50">
+              <td className="py-1 text-gray-300">{scenario.label}</td>
+              <td className="py-1 text-right font-mono text-gray-300">{scenario.marketRate.toFixed(4)}</td>
+              <td className={`py-1 text-right font-mono ${getRiskColor(scenario.assessment.level, scenario.assessment.side)}`}>
+                {formatSigned(scenario.diff)}
+              </td>
+              <td className={`py-1 text-right ${getRiskColor(scenario.assessment.level, scenario.assessment.side)}`}>
+                {getRiskText(scenario.assessment.level, scenario.assessment.side)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
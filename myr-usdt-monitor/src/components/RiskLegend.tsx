@@ -0,0 +1,47 @@
+import { usePairConfig, useRateStore } from '../store/rateStore';
+import { describeRiskRule, getWindowLabel, sortRulesBySeverity, RiskRule, RiskSide } from '../utils/riskRules';
+import { getRiskColor, getRiskIcon, getRiskText } from '../utils/rateUtils';
+
+function ruleSide(rule: RiskRule): RiskSide | null {
+  if (rule.direction === 'below') return 'loss';
+  if (rule.direction === 'above') return 'uncompetitive';
+  return null;
+}
+
+// Legend generated from the active risk rules, split into all-day and lock-window rules
+export function RiskLegend() {
+  const { riskRules } = useRateStore();
+  const { lockWindow } = usePairConfig();
+  const sorted = sortRulesBySeverity(riskRules);
+  const generalRules = sorted.filter(rule => rule.window !== 'lock');
+  const lockRules = sorted.filter(rule => rule.window === 'lock');
+
+  return (
+    <>
+      <div>
+        <h3 className="text-gray-400 font-medium mb-2">点差规则</h3>
+        <ul className="text-gray-500 space-y-1">
+          {generalRules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-2">
+              <span className={getRiskColor(rule.level, ruleSide(rule))}>{getRiskIcon(rule.level)}</span>
+              {describeRiskRule(rule)}: {getRiskText(rule.level, ruleSide(rule))}
+              {rule.window === 'normal' && <span className="text-gray-600">({getWindowLabel(rule.window)})</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div>
+        <h3 className="text-gray-400 font-medium mb-2">锁价时段 ({lockWindow.start}-{lockWindow.end})</h3>
+        <ul className="text-gray-500 space-y-1">
+          {lockRules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-2">
+              <span className={getRiskColor(rule.level, ruleSide(rule))}>{getRiskIcon(rule.level)}</span>
+              {describeRiskRule(rule)}: {getRiskText(rule.level, ruleSide(rule))}
+            </li>
+          ))}
+          <li>• 刷新频率: 每 10 秒</li>
+        </ul>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { RiskRule, getDefaultRiskRules, getWindowLabel } from '../utils/riskRules';
+import { getRiskText } from '../utils/rateUtils';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface RiskRulesEditorProps {
+  rules: RiskRule[];
+  errors: string[];
+  scale: number; // the pair's price level relative to MYR
+  onChange: (rules: RiskRule[]) => void;
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500';
+
+export function RiskRulesEditor({ rules, errors, scale, onChange }: RiskRulesEditorProps) {
+  const updateRule = (index: number, patch: Partial<RiskRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      { id: `rule-${Date.now()}`, level: 'warning', threshold: Number((0.05 * scale).toPrecision(3)), direction: 'below', window: 'any', minExpansions: 0 },
+    ]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-gray-400 text-sm">风险规则</label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChange(getDefaultRiskRules(scale))}
+            className="p-1 rounded hover:bg-white/10 transition-colors"
+            title="恢复默认规则"
+          >
+            <RotateCcw className="w-4 h-4 text-gray-400" />
+          </button>
+          <button
+            onClick={addRule}
+            className="p-1 rounded hover:bg-white/10 transition-colors"
+            title="新增规则"
+          >
+            <Plus className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="grid grid-cols-6 gap-1 items-center bg-gray-700/40 rounded-lg p-2">
+            <select
+              value={rule.level}
+              onChange={(e) => updateRule(index, { level: e.target.value as RiskRule['level'] })}
+              className={selectClass}
+            >
+              {(['warning', 'danger', 'critical'] as const).map(level => (
+                <option key={level} value={level}>{getRiskText(level)}</option>
+              ))}
+            </select>
+            <select
+              value={rule.direction}
+              onChange={(e) => updateRule(index, { direction: e.target.value as RiskRule['direction'] })}
+              className={selectClass}
+              title="方向"
+            >
+              <option value="below">亏损侧</option>
+              <option value="above">溢价侧</option>
+              <option value="abs">双向</option>
+            </select>
+            <input
+              type="number"
+              step={0.005 * scale}
+              value={Number.isNaN(rule.threshold) ? '' : rule.threshold}
+              onChange={(e) => updateRule(index, { threshold: parseFloat(e.target.value) })}
+              className={selectClass}
+              title="阈值"
+            />
+            <select
+              value={rule.window}
+              onChange={(e) => updateRule(index, { window: e.target.value as RiskRule['window'] })}
+              className={selectClass}
+              title="时段"
+            >
+              {(['any', 'lock', 'normal'] as const).map(window => (
+                <option key={window} value={window}>{getWindowLabel(window)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={Number.isNaN(rule.minExpansions) ? '' : rule.minExpansions}
+              onChange={(e) => updateRule(index, { minExpansions: parseInt(e.target.value, 10) })}
+              className={selectClass}
+              title="连续扩张次数"
+            />
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="p-1 justify-self-end rounded hover:bg-white/10 transition-colors"
+              title="删除规则"
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-gray-500 text-xs mt-1">
+        等级 · 方向 · 阈值 · 时段 · 连续扩张次数，满足多条时取最高等级；亏损侧阈值已计入成本缓冲
+      </p>
+      {errors.map(error => (
+        <p key={error} className="text-red-400 text-xs mt-1">{error}</p>
+      ))}
+    </div>
+  );
+}
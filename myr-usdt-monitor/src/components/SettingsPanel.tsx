@@ -1,6 +1,17 @@
 import { useState } from 'react';
-import { useRateStore } from '../store/rateStore';
-import { Settings, Save, X } from 'lucide-react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { BackfillPanel } from './BackfillPanel';
+import { RiskRulesEditor } from './RiskRulesEditor';
+import { NotificationSettings } from './NotificationSettings';
+import { AlertChannelSettings } from './AlertChannelSettings';
+import { PlatformRateLedger } from './PlatformRateLedger';
+import { validateRiskRules } from '../utils/riskRules';
+import { validateAlertChannels } from '../services/alertChannels';
+import { getRoleText, hasRole } from '../services/auth';
+import { getNextDateKey, getScheduledEffectiveFrom } from '../services/platformRates';
+import { getTimeZoneLabel } from '../utils/pairs';
+import { formatLocalTime, getBusinessDateKey } from '../utils/rateUtils';
+import { Settings, Save, X, Lock, Trash2 } from 'lucide-react';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -8,29 +19,113 @@ interface SettingsPanelProps {
 }
 
 export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
-  const { platformRate, costBuffer, setPlatformRate, setCostBuffer } = useRateStore();
+  const {
+    platformRate,
+    platformRates,
+    costBuffer,
+    targetMargin,
+    maxDeviation,
+    lockTime,
+    riskRules,
+    notificationLevels,
+    alertChannels,
+    schedulePlatformRate,
+    setCostBuffer,
+    setTargetMargin,
+    setMaxDeviation,
+    setLockTime,
+    setRiskRules,
+    setNotificationLevels,
+    setAlertChannels,
+    clearHistory,
+    authUser,
+  } = useRateStore();
+  const pair = usePairConfig();
 
-  const [tempPlatformRate, setTempPlatformRate] = useState(platformRate.toString());
+  const role = authUser?.role;
+  const canOperate = hasRole(role, 'operator');
+  const isAdmin = hasRole(role, 'admin');
+
+  const today = getBusinessDateKey(new Date(), pair.utcOffset);
+  const tomorrow = getNextDateKey(today);
+  const todayEntry = platformRates.find(e => e.date === today);
+  const tomorrowEntry = platformRates.find(e => e.date === tomorrow);
+
+  const [tempPlatformRate, setTempPlatformRate] = useState((todayEntry?.rate ?? platformRate).toString());
+  const [tempTomorrowRate, setTempTomorrowRate] = useState(tomorrowEntry?.rate.toString() ?? '');
   const [tempCostBuffer, setTempCostBuffer] = useState(costBuffer.toString());
+  const [tempTargetMargin, setTempTargetMargin] = useState(targetMargin.toString());
+  const [tempMaxDeviation, setTempMaxDeviation] = useState((maxDeviation * 100).toString());
+  const [tempLockTime, setTempLockTime] = useState(lockTime);
+  const [tempRiskRules, setTempRiskRules] = useState(riskRules);
+  const [ruleErrors, setRuleErrors] = useState<string[]>([]);
+  const [tempNotificationLevels, setTempNotificationLevels] = useState(notificationLevels);
+  const [tempAlertChannels, setTempAlertChannels] = useState(alertChannels);
+  const [channelErrors, setChannelErrors] = useState<string[]>([]);
+
+  const [isClearing, setIsClearing] = useState(false);
+  const [clearError, setClearError] = useState<string | null>(null);
 
   const handleSave = () => {
-    const newRate = parseFloat(tempPlatformRate);
-    const newBuffer = parseFloat(tempCostBuffer);
+    // Only sections this role may change are validated and written
+    const { rules: validRules, errors } = validateRiskRules(tempRiskRules, pair.scale);
+    const { channels: validChannels, errors: invalidChannels } = validateAlertChannels(tempAlertChannels);
+    if (isAdmin) {
+      setRuleErrors(errors);
+      setChannelErrors(invalidChannels);
+      if (!validRules || !validChannels) return;
+    }
+
+    if (canOperate) {
+      const newRate = parseFloat(tempPlatformRate);
+      const newTomorrowRate = parseFloat(tempTomorrowRate);
+      const newBuffer = parseFloat(tempCostBuffer);
 
-    if (!isNaN(newRate) && newRate > 0) {
-      setPlatformRate(newRate);
+      // Only write ledger rows that actually change
+      if (!isNaN(newRate) && newRate > 0 && newRate !== (todayEntry?.rate ?? platformRate)) {
+        schedulePlatformRate(today, newRate);
+      }
+      if (!isNaN(newTomorrowRate) && newTomorrowRate > 0 && newTomorrowRate !== tomorrowEntry?.rate) {
+        schedulePlatformRate(tomorrow, newTomorrowRate);
+      }
+      if (!isNaN(newBuffer) && newBuffer >= 0) {
+        setCostBuffer(newBuffer);
+      }
     }
-    if (!isNaN(newBuffer) && newBuffer >= 0) {
-      setCostBuffer(newBuffer);
+    if (isAdmin) {
+      const newMargin = parseFloat(tempTargetMargin);
+      const newDeviation = parseFloat(tempMaxDeviation) / 100;
+
+      if (!isNaN(newMargin)) {
+        setTargetMargin(newMargin);
+      }
+      if (!isNaN(newDeviation) && newDeviation > 0) {
+        setMaxDeviation(newDeviation);
+      }
+      if (/^([01]\d|2[0-3]):[0-5]\d$/.test(tempLockTime)) {
+        setLockTime(tempLockTime);
+      }
+      setRiskRules(validRules);
+      setAlertChannels(validChannels);
     }
+    setNotificationLevels(tempNotificationLevels);
     onClose();
   };
 
+  const handleClearHistory = async () => {
+    if (!window.confirm('确定清空全部历史记录和每日统计？此操作不可撤销。')) return;
+    setIsClearing(true);
+    setClearError(null);
+    const cleared = await clearHistory();
+    setIsClearing(false);
+    if (!cleared) setClearError('清空失败，请检查权限或网络');
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-gray-800 rounded-xl p-6 w-full max-w-md mx-4">
+      <div className="bg-gray-800 rounded-xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-2">
             <Settings className="w-5 h-5 text-blue-400" />
@@ -45,10 +140,22 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
         </div>
 
         <div className="space-y-6">
+          {/* Role Notice */}
+          {!isAdmin && (
+            <div className="p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/30 flex items-start gap-2">
+              <Lock className="w-4 h-4 text-yellow-400 mt-0.5 shrink-0" />
+              <p className="text-yellow-400 text-sm">
+                当前角色: {role ? getRoleText(role) : '未登录'}。
+                {canOperate ? '风险规则、告警渠道等系统配置仅管理员可修改。' : '仅可调整本机通知偏好，其他设置需要操作员或管理员权限。'}
+              </p>
+            </div>
+          )}
+
+          <fieldset disabled={!canOperate} className="space-y-6 disabled:opacity-60">
           {/* Platform Rate */}
           <div>
             <label className="block text-gray-400 text-sm mb-2">
-              平台汇率 (当日锁定)
+              今日平台汇率 ({today})
             </label>
             <input
               type="number"
@@ -56,13 +163,43 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               value={tempPlatformRate}
               onChange={(e) => setTempPlatformRate(e.target.value)}
               className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
-              placeholder="例如: 4.3500"
+              placeholder={`例如: ${pair.defaultPlatformRate.toFixed(4)}`}
             />
             <p className="text-gray-500 text-xs mt-1">
-              当前值: {platformRate.toFixed(4)} MYR
+              当前值: {platformRate.toFixed(4)} {pair.id}
             </p>
           </div>
 
+          {/* Tomorrow's Platform Rate */}
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">
+              明日平台汇率 ({tomorrow})
+            </label>
+            <input
+              type="number"
+              step="0.0001"
+              value={tempTomorrowRate}
+              onChange={(e) => setTempTomorrowRate(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+              placeholder="提前排期，留空则沿用今日汇率"
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              {formatLocalTime(
+                new Date(tomorrowEntry?.effectiveFrom ?? getScheduledEffectiveFrom(tomorrow, lockTime, pair.utcOffset)),
+                'MM-dd HH:mm',
+                pair.utcOffset
+              )} (锁价时间) 自动切换
+            </p>
+          </div>
+
+          {/* Platform Rate Ledger */}
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">
+              平台汇率记录
+            </label>
+            <PlatformRateLedger />
+          </div>
+
           {/* Cost Buffer */}
           <div>
             <label className="block text-gray-400 text-sm mb-2">
@@ -74,17 +211,104 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               value={tempCostBuffer}
               onChange={(e) => setTempCostBuffer(e.target.value)}
               className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
-              placeholder="例如: 0.025"
+              placeholder={`例如: ${Number((0.025 * pair.scale).toPrecision(3))}`}
             />
             <p className="text-gray-500 text-xs mt-1">
-              建议范围: 0.02 ~ 0.03 MYR
+              建议范围: {Number((0.02 * pair.scale).toPrecision(3))} ~ {Number((0.03 * pair.scale).toPrecision(3))} {pair.id}
             </p>
           </div>
+          </fieldset>
+
+          <fieldset disabled={!isAdmin} className="space-y-6 disabled:opacity-60">
+
+          {/* Target Margin */}
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">
+              目标利润 (汇率建议)
+            </label>
+            <input
+              type="number"
+              step="0.001"
+              value={tempTargetMargin}
+              onChange={(e) => setTempTargetMargin(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+              placeholder={`例如: ${Number((0.01 * pair.scale).toPrecision(3))}`}
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              建议汇率 = 市场汇率 + 成本缓冲 + 目标利润，并按近期日内波动修正
+            </p>
+          </div>
+
+          {/* Consensus Deviation Band */}
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">
+              数据源偏离阈值 (%)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              value={tempMaxDeviation}
+              onChange={(e) => setTempMaxDeviation(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+              placeholder="例如: 0.5"
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              偏离中位数超过该比例的数据源将被剔除
+            </p>
+          </div>
+
+          {/* Lock Time Snapshot */}
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">
+              每日锁价快照时间 ({getTimeZoneLabel(pair)})
+            </label>
+            <input
+              type="time"
+              value={tempLockTime}
+              onChange={(e) => setTempLockTime(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              每日统计将记录该时刻的市场汇率，次日平台汇率也在该时刻生效
+            </p>
+          </div>
+
+          {/* Risk Rules */}
+          <RiskRulesEditor rules={tempRiskRules} errors={ruleErrors} scale={pair.scale} onChange={setTempRiskRules} />
+          </fieldset>
+
+          {/* Notifications */}
+          <NotificationSettings levels={tempNotificationLevels} onChange={setTempNotificationLevels} />
+
+          {/* Outbound Alert Channels */}
+          <fieldset disabled={!isAdmin} className="disabled:opacity-60">
+            <AlertChannelSettings channels={tempAlertChannels} errors={channelErrors} onChange={setTempAlertChannels} />
+          </fieldset>
+
+          {/* Historical Backfill */}
+          <fieldset disabled={!canOperate} className="disabled:opacity-60">
+            <BackfillPanel />
+          </fieldset>
+
+          {/* Clear History (admin) */}
+          {isAdmin && (
+            <div className="p-4 bg-red-500/10 rounded-lg border border-red-500/30">
+              <button
+                onClick={handleClearHistory}
+                disabled={isClearing}
+                className="w-full px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg text-sm flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                {isClearing ? '清空中...' : '清空历史记录'}
+              </button>
+              {clearError && <p className="text-red-400 text-xs mt-2">{clearError}</p>}
+            </div>
+          )}
 
           {/* Info */}
           <div className="p-4 bg-blue-500/10 rounded-lg border border-blue-500/30">
             <p className="text-blue-400 text-sm">
-              💡 平台汇率在每日 00:00 锁定，用于与市场汇率对比计算点差。
+              💡 平台汇率按营业日锁定，在前一日锁价时间切换为当日汇率，用于与市场汇率对比计算点差。
               成本缓冲用于计算实际风险点差。
             </p>
           </div>
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { getRateStore } from '../store/rateStore';
+import { onRiskTransition } from '../services/riskTransitions';
+import { dispatchAlert, hasChannelSecrets } from '../services/alertChannels';
+
+// Forwards risk transitions to the configured outbound channels
+export function useAlertChannels() {
+  useEffect(() => {
+    return onRiskTransition(transition => {
+      const { alertChannels, monitorMode } = getRateStore(transition.pair).getState();
+      // The headless monitor sends these itself; readers would only duplicate them
+      if (monitorMode === 'reader') return;
+      // Credentials never reach a dashboard, so channels needing them are the monitor's
+      dispatchAlert(transition, alertChannels.filter(hasChannelSecrets)).catch(error => {
+        console.error('Alert dispatch failed:', error);
+      });
+    });
+  }, []);
+}
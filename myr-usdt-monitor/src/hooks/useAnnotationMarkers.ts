@@ -0,0 +1,93 @@
+import { useMemo } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { getSettingLabel } from '../services/annotations';
+import { formatLocalTime, getRiskText } from '../utils/rateUtils';
+import { RiskAssessment } from '../utils/riskRules';
+
+export interface AnnotationMarker {
+  id: string;
+  timestamp: number;
+  kind: 'risk' | 'platform' | 'setting' | 'note';
+  color: string;
+  title: string;
+  detail: string | null;
+  noteId: string | null; // notes are the only markers that can be removed
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+function getRiskMarkerColor({ level, side }: RiskAssessment): string {
+  if (level === 'safe') return '#10B981';
+  if (side === 'uncompetitive') return '#3B82F6';
+  return { warning: '#EAB308', danger: '#F97316', critical: '#EF4444' }[level];
+}
+
+// Risk-level changes, platform-rate entries being set, settings changes and
+// operator notes inside the range, in time order
+export function useAnnotationMarkers(view: TimeRange): AnnotationMarker[] {
+  const { alertHistory, platformRates, annotations } = useRateStore();
+  const pair = usePairConfig();
+
+  return useMemo(() => {
+    const inView = (timestamp: number) => timestamp >= view.start && timestamp <= view.end;
+    const markers: AnnotationMarker[] = [];
+
+    alertHistory.forEach(incident => incident.transitions.forEach(change => {
+      if (!inView(change.at)) return;
+      markers.push({
+        id: `risk-${incident.id}-${change.at}`,
+        timestamp: change.at,
+        kind: 'risk',
+        color: getRiskMarkerColor(change),
+        title: change.level === 'safe' ? '风险解除' : `风险: ${getRiskText(change.level, change.side)}`,
+        detail: `点差 ${(change.diff >= 0 ? '+' : '') + change.diff.toFixed(4)}`,
+        noteId: null,
+      });
+    }));
+
+    platformRates.forEach(entry => {
+      if (!inView(entry.setAt)) return;
+      markers.push({
+        id: `platform-${entry.date}-${entry.setAt}`,
+        timestamp: entry.setAt,
+        kind: 'platform',
+        color: '#3B82F6',
+        title: `${entry.setBy ?? '未知'} 设置 ${entry.date} 平台汇率`,
+        detail: `${entry.rate.toFixed(4)} ${pair.id}，${formatLocalTime(new Date(entry.effectiveFrom), 'MM-dd HH:mm', pair.utcOffset)} 生效`,
+        noteId: null,
+      });
+    });
+
+    annotations.forEach(annotation => {
+      if (!inView(annotation.timestamp)) return;
+      if (annotation.kind === 'note') {
+        markers.push({
+          id: annotation.id,
+          timestamp: annotation.timestamp,
+          kind: 'note',
+          color: '#FACC15',
+          title: `${annotation.createdBy ?? '未知'} 的备注`,
+          detail: annotation.text,
+          noteId: annotation.id,
+        });
+        return;
+      }
+      const label = annotation.settingKey ? getSettingLabel(annotation.settingKey) : undefined;
+      if (!label) return;
+      markers.push({
+        id: annotation.id,
+        timestamp: annotation.timestamp,
+        kind: 'setting',
+        color: '#A855F7',
+        title: `${annotation.createdBy ?? '未知'} 修改了${label}`,
+        detail: annotation.text,
+        noteId: null,
+      });
+    });
+
+    return markers.sort((a, b) => a.timestamp - b.timestamp);
+  }, [alertHistory, platformRates, annotations, pair, view.start, view.end]);
+}
@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRateStore, usePairConfig, RateRecord } from '../store/rateStore';
+import { fetchRateHistory } from '../services/rateRepository';
+import { buildDailyPnl } from '../services/pnl';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily spread P&L for the recorded flows. Flows older than the rate history
+// held in memory are priced from rate_history fetched on demand.
+export function useDailyPnl() {
+  const { pnlFlows, rateHistory, costBuffer } = useRateStore();
+  const { id: pair, utcOffset } = usePairConfig();
+  const [olderRecords, setOlderRecords] = useState<RateRecord[]>([]);
+
+  const historyStart = rateHistory.length > 0 ? rateHistory[0].timestamp : Date.now();
+  const earliestFlow = pnlFlows.length > 0 ? pnlFlows[0].timestamp : null;
+
+  useEffect(() => {
+    if (earliestFlow === null || earliestFlow >= historyStart) {
+      setOlderRecords([]);
+      return;
+    }
+    let cancelled = false;
+    // A day earlier so the first flow has a sample at or before it
+    fetchRateHistory(pair, earliestFlow - DAY_MS, historyStart - 1)
+      .then(records => {
+        if (!cancelled) setOlderRecords(records);
+      })
+      .catch(error => console.error('Failed to load rate history for P&L:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pair, earliestFlow, historyStart]);
+
+  return useMemo(
+    () => buildDailyPnl(pnlFlows, [...olderRecords, ...rateHistory], costBuffer, utcOffset),
+    [pnlFlows, olderRecords, rateHistory, costBuffer, utcOffset]
+  );
+}
@@ -0,0 +1,20 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Width of an element, following it as the layout resizes
+export function useElementWidth<T extends HTMLElement>(ref: RefObject<T>, fallback: number): number {
+  const [width, setWidth] = useState(fallback);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    setWidth(element.clientWidth || fallback);
+    const observer = new ResizeObserver(entries => {
+      const next = entries[0]?.contentRect.width;
+      if (next) setWidth(next);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, fallback]);
+
+  return width;
+}
@@ -1,10 +1,10 @@
-import { useEffect, useState, useCallback } from 'react';
-import { fetchUSDTMYRRate } from '../services/rateApi';
-import { useRateStore } from '../store/rateStore';
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useRateStore, usePairConfig } from '../store/rateStore';
+import { createRateMonitor, fetchHeartbeat, followMonitor, isHeartbeatFresh } from '../services/monitor';
+import { applyTabUpdate, electLeader, onTabMessage, publishTabUpdate, requestTabRefresh } from '../services/tabLeader';
 import {
-  formatMalaysiaTime,
+  formatLocalTime,
   isLockPriceWindow,
-  calculateRiskLevel,
   getRefreshInterval,
 } from '../utils/rateUtils';
 
@@ -12,78 +12,65 @@ export function useRateFetcher() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastFetchTime, setLastFetchTime] = useState<Date | null>(null);
+  const [isLeader, setIsLeader] = useState(false);
+  const pair = usePairConfig();
+  const monitor = useMemo(() => createRateMonitor(pair.id), [pair.id]);
 
-  const {
-    platformRate,
-    setMarketRate,
-    addRateRecord,
-    consecutiveExpansions,
-    incrementExpansions,
-    resetExpansions,
-    isInitialized,
-  } = useRateStore();
-
-  const [previousDiff, setPreviousDiff] = useState<number | null>(null);
+  const { rateConsensus, monitorMode, setMonitorMode, isInitialized } = useRateStore();
 
   const fetchRate = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    let fetchError: string | null = null;
 
     try {
-      const rate = await fetchUSDTMYRRate();
-      setMarketRate(rate);
-      setLastFetchTime(new Date());
-
-      const diff = platformRate - rate;
-      const isLockWindow = isLockPriceWindow();
-
-      // Track consecutive expansions
-      if (previousDiff !== null) {
-        if (Math.abs(diff) > Math.abs(previousDiff)) {
-          incrementExpansions();
-        } else {
-          resetExpansions();
-        }
-      }
-      setPreviousDiff(diff);
-
-      const riskLevel = calculateRiskLevel(diff, isLockWindow, consecutiveExpansions);
-
-      // Add to history only when rate has changed (4 decimal places check)
-      const currentHistory = useRateStore.getState().rateHistory;
-      const lastRecord = currentHistory[currentHistory.length - 1];
-      
-      const rate4 = Number(rate.toFixed(4));
-      const platformRate4 = Number(platformRate.toFixed(4));
-      
-      const isRateChanged = !lastRecord || Number(lastRecord.marketRate.toFixed(4)) !== rate4;
-      const isPlatformChanged = !lastRecord || Number(lastRecord.platformRate.toFixed(4)) !== platformRate4;
-
-      if (isRateChanged || isPlatformChanged) {
-        addRateRecord({
-          timestamp: Date.now(),
-          marketRate: rate,
-          platformRate,
-          diff,
-          riskLevel,
-        });
+      // While a headless monitor is alive it owns fetching and writes;
+      // the dashboard only follows what it recorded.
+      const heartbeat = await fetchHeartbeat(pair.id).catch(() => null);
+      if (heartbeat && isHeartbeatFresh(heartbeat)) {
+        setMonitorMode('reader');
+        await followMonitor(pair.id, heartbeat);
+      } else {
+        setMonitorMode('local');
+        await monitor.tick();
       }
-
+      setLastFetchTime(new Date());
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch rate');
+      fetchError = err instanceof Error ? err.message : 'Failed to fetch rate';
+      setError(fetchError);
     } finally {
       setIsLoading(false);
+      publishTabUpdate(pair.id, fetchError);
     }
-  }, [platformRate, previousDiff, consecutiveExpansions, setMarketRate, addRateRecord, incrementExpansions, resetExpansions]);
+  }, [pair.id, monitor, setMonitorMode]);
+
+  // Only the leader tab polls and writes; the others follow its updates.
+  // Switching pairs gives up the old pair's lock and queues for the new one.
+  useEffect(() => {
+    setIsLeader(false);
+    return electLeader(pair.id, () => setIsLeader(true));
+  }, [pair.id]);
+
+  useEffect(() => {
+    return onTabMessage(pair.id, isLeader
+      ? { onRefresh: fetchRate }
+      : {
+        onUpdate: (update) => {
+          applyTabUpdate(pair.id, update);
+          setError(update.error);
+          setLastFetchTime(new Date());
+        },
+      });
+  }, [pair.id, isLeader, fetchRate]);
 
   // Auto refresh
   useEffect(() => {
-    if (!isInitialized) return;
+    if (!isInitialized || !isLeader) return;
 
     fetchRate(); // Initial fetch
 
     const setupInterval = () => {
-      const isLockWindow = isLockPriceWindow();
+      const isLockWindow = isLockPriceWindow(new Date(), pair);
       const interval = getRefreshInterval(isLockWindow);
       return setInterval(() => {
         fetchRate();
@@ -103,18 +90,24 @@ export function useRateFetcher() {
       clearInterval(intervalId);
       clearInterval(checkInterval);
     };
-  }, [fetchRate, isInitialized]);
+  }, [pair, fetchRate, isInitialized, isLeader]);
 
   return {
     isLoading,
     error,
     lastFetchTime,
-    refetch: fetchRate,
+    monitorMode,
+    isLeader,
+    consensus: rateConsensus,
+    confidence: rateConsensus?.confidence ?? null,
+    refetch: isLeader ? fetchRate : () => requestTabRefresh(pair.id),
   };
 }
 
+// Clock in the active pair's local time
 export function useCurrentTime() {
   const [time, setTime] = useState(new Date());
+  const pair = usePairConfig();
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -126,7 +119,7 @@ export function useCurrentTime() {
 
   return {
     time,
-    formattedTime: formatMalaysiaTime(time),
-    isLockWindow: isLockPriceWindow(time),
+    formattedTime: formatLocalTime(time, undefined, pair.utcOffset),
+    isLockWindow: isLockPriceWindow(time, pair),
   };
 }
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RateRecord } from '../store/rateStore';
+import type { PairId } from '../utils/pairs';
+import { queryRateHistory, RateHistoryQuery } from '../services/rateRepository';
+
+const PAGE_SIZE = 200;
+
+// Pages of a filtered rate history query, fetched as the rows in [start, end)
+// are asked for. A new query (or refresh) drops everything already loaded, and
+// responses to an older query are ignored.
+export function useRateHistoryPages(pair: PairId, query: RateHistoryQuery, start: number, end: number) {
+  const [pages, setPages] = useState<Map<number, RateRecord[]>>(new Map());
+  const [total, setTotal] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const requested = useRef(new Set<number>());
+  const generation = useRef(0);
+
+  useEffect(() => {
+    generation.current += 1;
+    requested.current = new Set();
+    setPages(new Map());
+    setTotal(null);
+    setError(null);
+  }, [pair, query, version]);
+
+  const loadPage = useCallback(async (page: number) => {
+    if (requested.current.has(page)) return;
+    requested.current.add(page);
+    const current = generation.current;
+    try {
+      const result = await queryRateHistory(pair, query, page * PAGE_SIZE, PAGE_SIZE);
+      if (current !== generation.current) return;
+      setPages(prev => new Map(prev).set(page, result.records));
+      setTotal(result.total);
+    } catch (err) {
+      if (current !== generation.current) return;
+      requested.current.delete(page);
+      console.error('Failed to load rate history page:', err);
+      setError(err instanceof Error ? err.message : '加载历史记录失败');
+    }
+  }, [pair, query]);
+
+  // Until the first page reports a total, only that page is fetched
+  useEffect(() => {
+    if (total === null) {
+      loadPage(0);
+      return;
+    }
+    const last = Math.min(end, total) - 1;
+    for (let page = Math.floor(start / PAGE_SIZE); page <= Math.floor(last / PAGE_SIZE); page++) {
+      loadPage(page);
+    }
+  }, [start, end, total, loadPage]);
+
+  const getRow = useCallback(
+    (index: number): RateRecord | undefined => pages.get(Math.floor(index / PAGE_SIZE))?.[index % PAGE_SIZE],
+    [pages]
+  );
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  return { total, error, getRow, refresh };
+}
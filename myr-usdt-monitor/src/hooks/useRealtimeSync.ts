@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { getRateStore, useRateStore, usePairConfig } from '../store/rateStore';
+import { subscribeToRemoteChanges } from '../services/realtime';
+import { getSettingLabel } from '../services/annotations';
+import { getTimeZoneLabel, PairConfig } from '../utils/pairs';
+import { formatLocalTime } from '../utils/rateUtils';
+
+function describeSettingValue(pair: PairConfig, key: string, value: string): string | undefined {
+  switch (key) {
+    case 'cost_buffer': return `新值: ${value} ${pair.id}`;
+    case 'target_margin': return `新值: ${value} ${pair.id}`;
+    case 'max_deviation': return `新值: ${(parseFloat(value) * 100).toFixed(2)}%`;
+    case 'lock_time': return `新值: ${value} (${getTimeZoneLabel(pair)})`;
+    default: return undefined;
+  }
+}
+
+// Merges other operators' changes to the active pair into its store as they
+// happen; switching pairs resubscribes
+export function useRealtimeSync() {
+  const { isInitialized } = useRateStore();
+  const pair = usePairConfig();
+  const wasDisconnected = useRef(false);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    const store = getRateStore(pair.id);
+
+    return subscribeToRemoteChanges(pair.id, {
+      onSetting: ({ key, value, updatedBy }) => {
+        // Our own writes echo back unchanged and stay silent
+        if (!store.getState().applySetting(key, value)) return;
+        const label = getSettingLabel(key);
+        if (label) {
+          toast.info(`${updatedBy ?? '其他操作员'} 修改了${label}`, {
+            description: describeSettingValue(pair, key, value),
+          });
+        }
+      },
+      onPlatformRate: (entry) => {
+        if (!store.getState().applyPlatformRate(entry)) return;
+        const effectiveAt = formatLocalTime(new Date(entry.effectiveFrom), 'MM-dd HH:mm', pair.utcOffset);
+        toast.info(`${entry.setBy ?? '其他操作员'} 设置了 ${entry.date} 平台汇率`, {
+          description: `${entry.rate.toFixed(4)} ${pair.id}，${effectiveAt} 生效`,
+        });
+      },
+      onAnnotation: (annotation) => store.getState().applyAnnotation(annotation),
+      onAnnotationDeleted: (id) => store.getState().removeAnnotation(id),
+      onRateRecords: (records) => store.getState().ingestRemoteData(records, []),
+      onDailyStats: (stats) => store.getState().ingestRemoteData([], [stats]),
+      onResync: () => {
+        const { loadSettings, loadPlatformRates, loadAnnotations, pullRecentData } = store.getState();
+        loadSettings();
+        loadPlatformRates();
+        loadAnnotations();
+        pullRecentData().catch(error => {
+          console.error('Failed to catch up after reconnect:', error);
+        });
+      },
+      onStatus: (connected) => {
+        if (!connected && !wasDisconnected.current) {
+          wasDisconnected.current = true;
+          toast.warning('实时同步已断开，正在重连…');
+        } else if (connected && wasDisconnected.current) {
+          wasDisconnected.current = false;
+          toast.success('实时同步已恢复');
+        }
+      },
+    });
+  }, [isInitialized, pair]);
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { getRateStore, useRateStore } from '../store/rateStore';
+import { onRiskTransition } from '../services/riskTransitions';
+import {
+  dispatchRiskNotification,
+  onNotificationAction,
+  registerNotificationWorker,
+  SNOOZE_DURATION_MS,
+} from '../services/notifications';
+
+// Wires risk transitions to desktop notifications and handles their action buttons
+export function useRiskNotifications() {
+  useEffect(() => {
+    registerNotificationWorker();
+
+    const unsubscribeTransitions = onRiskTransition(transition => {
+      const { notificationLevels, notificationsSnoozedUntil } = getRateStore(transition.pair).getState();
+      dispatchRiskNotification(transition, {
+        levels: notificationLevels,
+        snoozedUntil: notificationsSnoozedUntil,
+      });
+    });
+
+    const unsubscribeActions = onNotificationAction((action, data) => {
+      // The pair the notification was about, which may not be the one on screen
+      const { dismissAlert, snoozeNotifications } = (data?.pair ? getRateStore(data.pair) : useRateStore).getState();
+      if (action === 'ack') dismissAlert();
+      if (action === 'snooze') snoozeNotifications(SNOOZE_DURATION_MS);
+    });
+
+    return () => {
+      unsubscribeTransitions();
+      unsubscribeActions();
+    };
+  }, []);
+}
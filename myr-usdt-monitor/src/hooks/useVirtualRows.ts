@@ -0,0 +1,46 @@
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+// Window of fixed-height rows visible in a scrolling container, plus the
+// spacer heights above and below it
+export function useVirtualRows<T extends HTMLElement>(
+  ref: RefObject<T>,
+  rowCount: number,
+  rowHeight: number,
+  overscan = 10
+) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    setViewportHeight(element.clientHeight);
+    const observer = new ResizeObserver(entries => {
+      const next = entries[0]?.contentRect.height;
+      if (next) setViewportHeight(next);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  const onScroll = useCallback(() => {
+    if (ref.current) setScrollTop(ref.current.scrollTop);
+  }, [ref]);
+
+  const scrollToTop = useCallback(() => {
+    if (ref.current) ref.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [ref]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, rowCount - end) * rowHeight,
+    onScroll,
+    scrollToTop,
+  };
+}
@@ -1,10 +1,16 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// Dashboard client, anon key only. The headless monitor has no import.meta.env;
+// it installs its own client through setSupabaseClient (see server/supabase.ts).
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (import.meta.env && (!supabaseUrl || !supabaseAnonKey)) {
   console.error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export let supabase: SupabaseClient = import.meta.env ? createClient(supabaseUrl, supabaseAnonKey) : null;
+
+export function setSupabaseClient(client: SupabaseClient): void {
+  supabase = client;
+}
@@ -0,0 +1,7 @@
+// Load .env files before anything reads process.env (imported first by the monitor)
+import { existsSync } from 'node:fs';
+
+for (const file of ['.env.local', '.env']) {
+  // Values already set in the environment win, matching Vite's precedence
+  if (existsSync(file)) process.loadEnvFile(file);
+}
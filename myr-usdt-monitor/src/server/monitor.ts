@@ -0,0 +1,141 @@
+// Headless rate monitor
+//
+// Runs the dashboard's monitoring cycle without a browser: it polls the rate
+// sources, writes rate_history / daily_stats / alerts through the store and
+// fires the outbound alert channels. It publishes a heartbeat so open
+// dashboards switch to reading its data instead of writing their own.
+//
+//   pnpm monitor             poll continuously
+//   pnpm monitor --once      a single tick, for cron-style schedulers; exits
+//                            non-zero when the tick failed
+//   pnpm monitor --pair THB  monitor another currency pair (default MYR);
+//                            run one process per pair
+//
+// Reads SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY from
+// the environment, .env.local or .env.
+
+import './env';
+import { hostname } from 'node:os';
+import { setSupabaseClient } from '../lib/supabase';
+import { createServerClient } from './supabase';
+import { getRateStore } from '../store/rateStore';
+import { createRateMonitor, resumeMonitorState, writeHeartbeat } from '../services/monitor';
+import { onRiskTransition, primeRiskAssessment } from '../services/riskTransitions';
+import { AlertChannelSecrets, dispatchAlert, fetchAlertChannelSecrets, withChannelSecrets } from '../services/alertChannels';
+import { flushOutbox, getOutboxCounts } from '../services/outbox';
+import { DEFAULT_PAIR_ID, getPairConfig, isPairId } from '../utils/pairs';
+import { formatLocalTime, getRefreshInterval, getRiskText, isLockPriceWindow } from '../utils/rateUtils';
+
+const SETTINGS_REFRESH_MS = 5 * 60 * 1000;
+
+function parsePairArg(): string {
+  const index = process.argv.indexOf('--pair');
+  return index >= 0 ? (process.argv[index + 1] ?? '').toUpperCase() : DEFAULT_PAIR_ID;
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const host = hostname();
+  const pairArg = parsePairArg();
+  if (!isPairId(pairArg)) throw new Error(`Unknown currency pair: ${pairArg}`);
+  const pair = getPairConfig(pairArg);
+  setSupabaseClient(createServerClient());
+  const rateStore = getRateStore(pair.id);
+
+  await rateStore.getState().syncWithSupabase();
+  if (!rateStore.getState().isInitialized) {
+    console.warn('Supabase sync failed; starting with default settings');
+  }
+
+  // Pick up where an open incident left off instead of alerting again
+  const { activeAlert } = rateStore.getState();
+  const lastChange = activeAlert?.transitions[activeAlert.transitions.length - 1];
+  if (lastChange) primeRiskAssessment(pair.id, { level: lastChange.level, side: lastChange.side });
+
+  // Channel credentials are not in the synced settings; only this process reads them
+  let channelSecrets = new Map<string, AlertChannelSecrets>();
+  const loadChannelSecrets = async () => {
+    try {
+      channelSecrets = await fetchAlertChannelSecrets(pair.id);
+    } catch (error) {
+      console.error('Failed to load alert channel credentials:', error);
+    }
+  };
+  await loadChannelSecrets();
+
+  const pendingDeliveries = new Set<Promise<void>>();
+  onRiskTransition(transition => {
+    console.log(`[${pair.id}] [risk] ${getRiskText(transition.from.level, transition.from.side)} → ${getRiskText(transition.to.level, transition.to.side)}`);
+    const channels = withChannelSecrets(rateStore.getState().alertChannels, channelSecrets);
+    const delivery: Promise<void> = dispatchAlert(transition, channels)
+      .catch(error => console.error('Alert dispatch failed:', error))
+      .finally(() => pendingDeliveries.delete(delivery));
+    pendingDeliveries.add(delivery);
+  });
+
+  const monitor = createRateMonitor(pair.id, await resumeMonitorState(pair.id));
+  // false when the tick failed, so a --once run can report it
+  const runTick = async (): Promise<boolean> => {
+    try {
+      const { consensus, diff, assessment, recorded } = await monitor.tick();
+      await writeHeartbeat(pair.id, host, consensus, diff);
+      console.log(
+        `${formatLocalTime(new Date(), undefined, pair.utcOffset)} ${pair.id} rate=${consensus.rate.toFixed(4)} diff=${(diff >= 0 ? '+' : '') + diff.toFixed(4)}`
+        + ` risk=${assessment.level}${assessment.side ? `/${assessment.side}` : ''}`
+        + ` sources=${consensus.quotes.length}${recorded ? ' recorded' : ''}`
+      );
+      return true;
+    } catch (error) {
+      console.error('Monitor tick failed:', error);
+      return false;
+    }
+  };
+
+  // The outbox only lives in memory here, so say what would be lost on exit
+  const drainOutbox = async () => {
+    await flushOutbox(true);
+    const { pending, failed } = await getOutboxCounts();
+    if (pending + failed > 0) console.warn(`Exiting with ${pending + failed} unsynced writes`);
+  };
+
+  if (once) {
+    const succeeded = await runTick();
+    await Promise.all(pendingDeliveries);
+    await drainOutbox();
+    process.exit(succeeded ? 0 : 1);
+  }
+
+  let tickTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  const loop = async () => {
+    await runTick();
+    if (!stopped) tickTimer = setTimeout(loop, getRefreshInterval(isLockPriceWindow(new Date(), pair)));
+  };
+
+  // Settings and the rate ledger are edited from the dashboard, so re-read them periodically
+  const settingsTimer = setInterval(() => {
+    rateStore.getState().loadSettings();
+    rateStore.getState().loadPlatformRates();
+    loadChannelSecrets();
+  }, SETTINGS_REFRESH_MS);
+
+  const shutdown = async () => {
+    stopped = true;
+    if (tickTimer) clearTimeout(tickTimer);
+    clearInterval(settingsTimer);
+    await Promise.all(pendingDeliveries);
+    await drainOutbox();
+    console.log('Monitor stopped');
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  console.log(`Monitor started on ${host} for ${pair.label}`);
+  await loop();
+}
+
+main().catch(error => {
+  console.error('Monitor failed to start:', error);
+  process.exit(1);
+});
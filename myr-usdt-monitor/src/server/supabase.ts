@@ -0,0 +1,17 @@
+// Service-role Supabase client for the headless monitor
+//
+// The service role bypasses RLS, so the key is only ever read here, in the
+// Node process; the dashboard bundle never imports this module.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export function createServerClient(): SupabaseClient {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  }
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,194 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AlertChannelConfig,
+  AlertDeliveryAttempt,
+  buildAlertMessage,
+  deliverAlert,
+  dispatchAlert,
+  renderAlertTemplate,
+  splitChannelSecrets,
+  withChannelSecrets,
+} from '../alertChannels';
+import type { RiskTransition } from '../riskTransitions';
+import { startMockHttpServer } from './mockHttpServer';
+import { startMockSmtpServer } from './mockSmtpServer';
+
+const transition: RiskTransition = {
+  pair: 'MYR',
+  from: { level: 'warning', side: 'loss' },
+  to: { level: 'critical', side: 'loss' },
+  diff: -0.0812,
+  marketRate: 4.3012,
+  platformRate: 4.22,
+  isLockWindow: true,
+  timestamp: Date.UTC(2026, 9, 19, 15, 30),
+};
+
+const base = { name: 'ops', enabled: true, minLevel: 'danger', maxAttempts: 3 } as const;
+
+// Delivery log and backoff captured in memory instead of Supabase and real sleeps
+function recorder() {
+  const attempts: AlertDeliveryAttempt[] = [];
+  const delays: number[] = [];
+  return {
+    attempts,
+    delays,
+    options: {
+      log: async (attempt: AlertDeliveryAttempt) => { attempts.push(attempt); },
+      sleep: async (ms: number) => { delays.push(ms); },
+    },
+  };
+}
+
+test('renderAlertTemplate fills the placeholders in desk time', () => {
+  const text = renderAlertTemplate('{{pair}} {{levelText}} {{diff}} {{time}} {{timeZone}}{{lockWindow}} {{unknown}}', transition);
+  assert.equal(text, 'MYR 紧急 -0.0812 2026-10-19 23:30:00 GMT+8 · 锁价时段 {{unknown}}');
+});
+
+test('webhook posts the transition as JSON to a local receiver', async () => {
+  const server = await startMockHttpServer(() => ({ status: 204 }));
+  const log = recorder();
+  try {
+    const channel: AlertChannelConfig = { ...base, id: 'hook', type: 'webhook', url: `${server.baseUrl}/hooks/alerts` };
+    const delivered = await deliverAlert(channel, buildAlertMessage(channel, transition), log.options);
+
+    assert.equal(delivered, true);
+    assert.equal(server.requests.length, 1);
+    const [request] = server.requests;
+    assert.equal(request.path, '/hooks/alerts');
+    assert.equal(request.headers['content-type'], 'application/json');
+    const body = JSON.parse(request.body);
+    assert.equal(body.level, 'critical');
+    assert.equal(body.previousLevel, 'warning');
+    assert.equal(body.diff, -0.0812);
+    assert.match(body.text, /^\[MYR\/USDT\] 紧急 亏损风险\n点差 -0\.0812 MYR/);
+    assert.deepEqual(log.attempts.map(a => [a.channelId, a.attempt, a.status]), [['hook', 1, 'success']]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('failed deliveries are retried with exponential backoff and every attempt is logged', async () => {
+  let calls = 0;
+  const server = await startMockHttpServer(() => (++calls < 3 ? { status: 502 } : { status: 200 }));
+  const log = recorder();
+  try {
+    const channel: AlertChannelConfig = { ...base, id: 'hook', type: 'webhook', url: server.baseUrl };
+    const delivered = await deliverAlert(channel, buildAlertMessage(channel, transition), { ...log.options, baseDelayMs: 100 });
+
+    assert.equal(delivered, true);
+    assert.deepEqual(log.delays, [100, 200]);
+    assert.deepEqual(log.attempts.map(a => a.status), ['failed', 'failed', 'success']);
+    assert.match(log.attempts[0].error ?? '', /HTTP 502/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('delivery gives up after the channel budget', async () => {
+  const server = await startMockHttpServer(() => ({ status: 500 }));
+  const log = recorder();
+  try {
+    const channel: AlertChannelConfig = { ...base, id: 'hook', type: 'webhook', url: server.baseUrl, maxAttempts: 2 };
+    assert.equal(await deliverAlert(channel, buildAlertMessage(channel, transition), log.options), false);
+    assert.equal(server.requests.length, 2);
+    assert.deepEqual(log.attempts.map(a => a.attempt), [1, 2]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('chat bot calls sendMessage with the stored token', async () => {
+  const server = await startMockHttpServer(() => ({ body: { ok: true } }));
+  const log = recorder();
+  try {
+    const synced: AlertChannelConfig = { ...base, id: 'bot', type: 'chatbot', apiBase: `${server.baseUrl}/`, chatId: '-100200' };
+    const [channel] = withChannelSecrets([synced], new Map([['bot', { botToken: '123:abc' }]]));
+    assert.equal(await deliverAlert(channel, buildAlertMessage(channel, transition), log.options), true);
+
+    const [request] = server.requests;
+    assert.equal(request.path, '/bot123:abc/sendMessage');
+    const body = JSON.parse(request.body);
+    assert.equal(body.chat_id, '-100200');
+    assert.equal(body.disable_web_page_preview, true);
+
+    // Without its credentials the channel fails instead of calling the API
+    const stripped = splitChannelSecrets(channel).channel;
+    assert.equal(await deliverAlert({ ...stripped, maxAttempts: 1 }, buildAlertMessage(stripped, transition), log.options), false);
+    assert.equal(server.requests.length, 1);
+    assert.match(log.attempts[log.attempts.length - 1].error ?? '', /Bot token is not configured/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('dispatchAlert skips disabled channels and those below their minimum level', async () => {
+  const server = await startMockHttpServer(() => ({ status: 200 }));
+  const log = recorder();
+  try {
+    const channels: AlertChannelConfig[] = [
+      { ...base, id: 'on', type: 'webhook', url: `${server.baseUrl}/on` },
+      { ...base, id: 'off', type: 'webhook', url: `${server.baseUrl}/off`, enabled: false },
+      { ...base, id: 'quiet', type: 'webhook', url: `${server.baseUrl}/quiet`, minLevel: 'critical' },
+    ];
+    await dispatchAlert({ ...transition, from: { level: 'safe', side: null }, to: { level: 'danger', side: 'loss' } }, channels, log.options);
+    assert.deepEqual(server.requests.map(r => r.path), ['/on']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('email is sent through a local SMTP sink', async () => {
+  const sink = await startMockSmtpServer();
+  const log = recorder();
+  try {
+    const channel: AlertChannelConfig = {
+      ...base,
+      id: 'mail',
+      type: 'email',
+      host: '127.0.0.1',
+      port: sink.port,
+      username: 'alerts',
+      password: 'secret',
+      from: 'monitor@example.com',
+      to: ['desk@example.com', 'risk@example.com'],
+    };
+    const message = buildAlertMessage(channel, transition);
+    assert.equal(await deliverAlert(channel, message, log.options), true);
+
+    assert.ok(sink.commands.includes(`AUTH PLAIN ${Buffer.from('\0alerts\0secret').toString('base64')}`));
+    assert.equal(sink.messages.length, 1);
+    const [mail] = sink.messages;
+    assert.equal(mail.from, 'monitor@example.com');
+    assert.deepEqual(mail.to, ['desk@example.com', 'risk@example.com']);
+
+    const [headers, body] = mail.data.split('\r\n\r\n');
+    assert.ok(headers.includes(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`));
+    assert.equal(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8'), message.text);
+  } finally {
+    await sink.close();
+  }
+});
+
+test('email delivery fails when the SMTP server rejects a recipient', async () => {
+  const sink = await startMockSmtpServer({ rejectRecipients: true });
+  const log = recorder();
+  try {
+    const channel: AlertChannelConfig = {
+      ...base,
+      id: 'mail',
+      type: 'email',
+      host: '127.0.0.1',
+      port: sink.port,
+      from: 'monitor@example.com',
+      to: ['nobody@example.com'],
+      maxAttempts: 1,
+    };
+    assert.equal(await deliverAlert(channel, buildAlertMessage(channel, transition), log.options), false);
+    assert.match(log.attempts[0].error ?? '', /SMTP expected 250, got: 550/);
+    assert.equal(sink.messages.length, 0);
+  } finally {
+    await sink.close();
+  }
+});
@@ -0,0 +1,52 @@
+// Local HTTP stand-in for the venues and alert receivers used in tests
+//
+// Listens on an ephemeral port on 127.0.0.1, records every request and answers
+// with whatever the handler returns, so adapters run their real fetch code
+// against it without any live calls.
+
+import { createServer, IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+}
+
+export interface MockHttpServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+export async function startMockHttpServer(
+  handler: (request: RecordedRequest) => MockResponse | Promise<MockResponse>
+): Promise<MockHttpServer> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const request = { method: req.method ?? 'GET', path: req.url ?? '/', headers: req.headers, body };
+      requests.push(request);
+      const { status = 200, body: responseBody = {} } = await handler(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,96 @@
+// Local SMTP sink for alert email tests
+//
+// Speaks just enough SMTP for smtpClient (EHLO, AUTH PLAIN, MAIL, RCPT, DATA,
+// QUIT) and keeps every command and message it receives. rejectRecipients
+// makes RCPT fail so error paths can be exercised.
+
+import { createServer, Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+export interface MockSmtpServer {
+  port: number;
+  commands: string[];
+  messages: ReceivedMail[];
+  close: () => Promise<void>;
+}
+
+export async function startMockSmtpServer(options: { rejectRecipients?: boolean } = {}): Promise<MockSmtpServer> {
+  const commands: string[] = [];
+  const messages: ReceivedMail[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf8');
+    socket.write('220 localhost ESMTP sink\r\n');
+
+    let buffer = '';
+    let inData = false;
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          mail.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          messages.push(mail);
+          mail = { from: '', to: [], data: '' };
+          inData = false;
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        commands.push(line);
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authentication successful\r\n');
+        } else if (verb === 'MAIL') {
+          mail.from = line.replace(/^MAIL FROM:<(.*)>$/i, '$1');
+          socket.write('250 OK\r\n');
+        } else if (verb === 'RCPT') {
+          if (options.rejectRecipients) {
+            socket.write('550 No such user\r\n');
+          } else {
+            mail.to.push(line.replace(/^RCPT TO:<(.*)>$/i, '$1'));
+            socket.write('250 OK\r\n');
+          }
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    port,
+    commands,
+    messages,
+    close: () => new Promise<void>((resolve, reject) => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
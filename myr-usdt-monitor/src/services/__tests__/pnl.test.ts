@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFlowCsv } from '../pnl';
+
+test('parseFlowCsv keeps commas and quotes inside quoted notes', () => {
+  const csv = '时间,入金,出金,备注\r\n'
+    + '2026-10-19 09:30,1500,0,"Ali, top-up"\r\n'
+    + '\r\n'
+    + '2026-10-19 10:00,0,200,"said ""urgent"""\r\n';
+  const { flows, errors } = parseFlowCsv(csv, 8);
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(flows.map(f => [f.deposits, f.withdrawals, f.note]), [
+    [1500, 0, 'Ali, top-up'],
+    [0, 200, 'said "urgent"'],
+  ]);
+  assert.equal(flows[0].timestamp, Date.UTC(2026, 9, 19, 1, 30));
+});
+
+test('parseFlowCsv reports rows that fail validation', () => {
+  const { flows, errors } = parseFlowCsv('time,deposits\nnot a time,100\n', 8);
+  assert.equal(flows.length, 0);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /^第 2 行: /);
+});
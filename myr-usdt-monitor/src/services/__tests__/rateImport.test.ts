@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseImportTime } from '../rateImport';
+
+const GMT8 = 8;
+
+test('parseImportTime reads desk-local text in the business timezone', () => {
+  const expected = Date.UTC(2025, 2, 1, 1, 30);
+  assert.equal(parseImportTime('2025-03-01 09:30', GMT8), expected);
+  assert.equal(parseImportTime('2025-3-1 9:30', GMT8), expected);
+  assert.equal(parseImportTime('2025/3/1 9:30:00', GMT8), expected);
+  assert.equal(parseImportTime('2025-03-01 09:30 (GMT+8)', GMT8), expected);
+  // A bare date is the desk's midnight, not UTC midnight
+  assert.equal(parseImportTime('2025-03-01', GMT8), Date.UTC(2025, 1, 28, 16));
+});
+
+test('parseImportTime keeps explicit offsets, epoch milliseconds and Excel serials', () => {
+  assert.equal(parseImportTime('2025-03-01T09:30:00Z', GMT8), Date.UTC(2025, 2, 1, 9, 30));
+  assert.equal(parseImportTime('2025-03-01T09:30:00+07:00', GMT8), Date.UTC(2025, 2, 1, 2, 30));
+  assert.equal(parseImportTime('1740792600000', GMT8), 1740792600000);
+  assert.equal(parseImportTime('45717.5', GMT8), Date.UTC(2025, 2, 1, 4));
+});
+
+test('parseImportTime rejects ambiguous and out-of-range values', () => {
+  assert.equal(parseImportTime('3/1/2025 9:30', GMT8), null);
+  assert.equal(parseImportTime('Mar 1 2025', GMT8), null);
+  assert.equal(parseImportTime('2025-02-30 09:30', GMT8), null);
+  assert.equal(parseImportTime('2025-03-01 24:00', GMT8), null);
+});
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  createBinanceP2PSource,
+  createCoinGeckoSource,
+  createLunoSource,
+  createOkxP2PSource,
+  getRateSources,
+  parseBinanceP2P,
+  parseCoinGeckoPrice,
+  parseCoinGeckoRange,
+  parseLunoTicker,
+  parseOkxP2P,
+} from '../rateSources';
+import { startMockHttpServer } from './mockHttpServer';
+
+function fixture(name: string): any {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
+
+const RECEIVED_AT = 1760839200000;
+
+test('parseLunoTicker reads bid and ask from the ticker', () => {
+  const quote = parseLunoTicker(fixture('luno-ticker.json'), RECEIVED_AT);
+  assert.equal(quote.source, 'luno');
+  assert.equal(quote.bid, 4.215);
+  assert.equal(quote.ask, 4.221);
+  assert.equal(quote.mid, (4.215 + 4.221) / 2);
+  assert.equal(quote.timestamp, 1760839200123);
+});
+
+test('parseLunoTicker rejects another pair', () => {
+  assert.throws(() => parseLunoTicker({ ...fixture('luno-ticker.json'), pair: 'XBTMYR' }), /unexpected ticker/);
+});
+
+test('parseBinanceP2P takes the median of the first ten ads on each side', () => {
+  const quote = parseBinanceP2P(fixture('binance-p2p-buy.json'), fixture('binance-p2p-sell.json'), RECEIVED_AT);
+  assert.equal(quote.source, 'binance-p2p');
+  // SELL ads are buyers of USDT (our bid), BUY ads are sellers (our ask); the 11th ad is ignored
+  assert.ok(Math.abs(quote.bid - 4.225) < 1e-9);
+  assert.ok(Math.abs(quote.ask - 4.335) < 1e-9);
+  assert.equal(quote.timestamp, RECEIVED_AT);
+});
+
+test('parseBinanceP2P rejects an error payload', () => {
+  const error = { code: '100001', message: 'rate limited', data: null };
+  assert.throws(() => parseBinanceP2P(error, fixture('binance-p2p-sell.json')), /unexpected search payload/);
+});
+
+test('parseOkxP2P takes the median of each side of the book', () => {
+  const quote = parseOkxP2P(fixture('okx-p2p-books.json'), RECEIVED_AT);
+  assert.equal(quote.source, 'okx-p2p');
+  assert.ok(Math.abs(quote.bid - 4.2) < 1e-9);
+  assert.ok(Math.abs(quote.ask - 4.32) < 1e-9);
+});
+
+test('parseOkxP2P rejects an empty book', () => {
+  assert.throws(() => parseOkxP2P({ code: 0, data: { buy: [], sell: [] } }), /invalid bid\/ask/);
+  assert.throws(() => parseOkxP2P({ code: 51000, msg: 'Parameter error' }), /unexpected order book/);
+});
+
+test('parseCoinGeckoPrice reads the pair and its update time', () => {
+  const quote = parseCoinGeckoPrice(fixture('coingecko-simple-price.json'), 'MYR', RECEIVED_AT);
+  assert.equal(quote.bid, 4.218);
+  assert.equal(quote.ask, 4.218);
+  assert.equal(quote.timestamp, 1760839187000);
+  assert.throws(() => parseCoinGeckoPrice(fixture('coingecko-simple-price.json'), 'THB'), /invalid bid\/ask/);
+});
+
+test('parseCoinGeckoRange skips points without a price', () => {
+  const quotes = parseCoinGeckoRange(fixture('coingecko-market-chart-range.json'));
+  assert.deepEqual(quotes.map(q => q.timestamp), [1760745600000, 1760749200000, 1760752800000, 1760760000000]);
+  assert.equal(quotes[2].mid, 4.2231);
+});
+
+test('Luno and CoinGecko adapters fetch from a local mock server', async () => {
+  const server = await startMockHttpServer(request => {
+    if (request.path.startsWith('/api/1/ticker')) return { body: fixture('luno-ticker.json') };
+    if (request.path.startsWith('/api/v3/simple/price')) return { body: fixture('coingecko-simple-price.json') };
+    if (request.path.startsWith('/api/v3/coins/tether/market_chart/range')) return { body: fixture('coingecko-market-chart-range.json') };
+    return { status: 404 };
+  });
+  try {
+    const luno = await createLunoSource(server.baseUrl).fetchQuote('MYR');
+    assert.equal(luno.bid, 4.215);
+
+    const coinGecko = createCoinGeckoSource(server.baseUrl);
+    assert.equal((await coinGecko.fetchQuote('MYR')).mid, 4.218);
+    const history = await coinGecko.fetchHistory!('MYR', 1760745600000, 1760760000000);
+    assert.equal(history.length, 4);
+
+    assert.deepEqual(server.requests.map(r => r.path), [
+      '/api/1/ticker?pair=USDTMYR',
+      '/api/v3/simple/price?ids=tether&vs_currencies=myr&include_last_updated_at=true',
+      '/api/v3/coins/tether/market_chart/range?vs_currency=myr&from=1760745600&to=1760760000',
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test('P2P adapters query both sides of the board on a local mock server', async () => {
+  const server = await startMockHttpServer(request => {
+    if (request.path === '/bapi/c2c/v2/friendly/c2c/adv/search') {
+      const { tradeType } = JSON.parse(request.body);
+      return { body: fixture(tradeType === 'BUY' ? 'binance-p2p-buy.json' : 'binance-p2p-sell.json') };
+    }
+    if (request.path.startsWith('/v3/c2c/tradingOrders/books')) return { body: fixture('okx-p2p-books.json') };
+    return { status: 404 };
+  });
+  try {
+    const binance = await createBinanceP2PSource(server.baseUrl).fetchQuote('THB');
+    assert.ok(Math.abs(binance.mid - (4.225 + 4.335) / 2) < 1e-9);
+    const searches = server.requests.filter(r => r.method === 'POST').map(r => JSON.parse(r.body));
+    assert.deepEqual(searches.map(s => [s.fiat, s.asset, s.tradeType]).sort(), [['THB', 'USDT', 'BUY'], ['THB', 'USDT', 'SELL']]);
+
+    const okx = await createOkxP2PSource(server.baseUrl).fetchQuote('THB');
+    assert.ok(Math.abs(okx.mid - 4.26) < 1e-9);
+    assert.match(server.requests[server.requests.length - 1].path, /quoteCurrency=THB&baseCurrency=USDT/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('adapters surface HTTP errors from the venue', async () => {
+  const server = await startMockHttpServer(() => ({ status: 503, body: { message: 'maintenance' } }));
+  try {
+    await assert.rejects(createLunoSource(server.baseUrl).fetchQuote('MYR'), /status 503/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('dashboards skip the P2P boards, which send no CORS headers', () => {
+  assert.deepEqual(getRateSources('MYR').map(s => s.id), ['luno', 'binance-p2p', 'okx-p2p', 'coingecko']);
+  const globals = globalThis as { window?: unknown };
+  globals.window = {};
+  try {
+    assert.deepEqual(getRateSources('MYR').map(s => s.id), ['luno', 'coingecko']);
+    assert.deepEqual(getRateSources('THB').map(s => s.id), ['coingecko']);
+  } finally {
+    delete globals.window;
+  }
+});
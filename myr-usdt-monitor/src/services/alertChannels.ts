@@ -0,0 +1,325 @@
+// Outbound alert channels
+//
+// Risk transitions are rendered through a message template and handed to a
+// channel adapter (generic JSON webhook, chat bot API, SMTP email). Each channel
+// has its own minimum level and retry budget, and every delivery attempt is
+// written to alert_deliveries. Endpoints are plain config, so tests can point
+// them at a mock HTTP receiver or a local SMTP sink.
+//
+// Credentials (bot tokens, SMTP passwords) are split off before the config is
+// saved to app_settings, which every dashboard reads. They are kept in the
+// admin-only alert_channel_secrets table and merged back in by the headless
+// monitor, so channels that need them are only delivered from there.
+
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { RiskTransition } from './riskTransitions';
+import { isSmtpSupported, sendSmtpMail } from './smtpClient';
+import { getPairConfig, getTimeZoneLabel, PairId } from '../utils/pairs';
+import { formatLocalTime, getRiskText } from '../utils/rateUtils';
+import { getSideText, RISK_LEVELS } from '../utils/riskRules';
+
+const baseChannelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, '请填写渠道名称'),
+  enabled: z.boolean(),
+  minLevel: z.enum(['warning', 'danger', 'critical']),
+  template: z.string().optional(),
+  maxAttempts: z.number().int().min(1).max(10),
+});
+
+export const alertChannelSchema = z.discriminatedUnion('type', [
+  baseChannelSchema.extend({
+    type: z.literal('webhook'),
+    url: z.string().url('Webhook 地址无效'),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal('chatbot'),
+    apiBase: z.string().url('Bot API 地址无效'),
+    botToken: z.string().optional(),
+    chatId: z.string().min(1, '请填写 Chat ID'),
+  }),
+  baseChannelSchema.extend({
+    type: z.literal('email'),
+    host: z.string().min(1, '请填写 SMTP 主机'),
+    port: z.number().int().min(1).max(65535),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    from: z.string().email('发件地址无效'),
+    to: z.array(z.string().email('收件地址无效')).min(1, '至少需要一个收件人'),
+  }),
+]);
+
+export const alertChannelListSchema = z.array(alertChannelSchema);
+
+export type AlertChannelConfig = z.infer<typeof alertChannelSchema>;
+export type AlertChannelType = AlertChannelConfig['type'];
+
+export type AlertChannelSecrets = Partial<Record<'botToken' | 'password', string>>;
+
+const SECRET_FIELDS: Record<AlertChannelType, (keyof AlertChannelSecrets)[]> = {
+  webhook: [],
+  chatbot: ['botToken'],
+  email: ['password'],
+};
+
+export interface AlertMessage {
+  subject: string;
+  text: string;
+  transition: RiskTransition;
+}
+
+export interface AlertChannelAdapter {
+  type: AlertChannelType;
+  isSupported: () => boolean;
+  send: (channel: AlertChannelConfig, message: AlertMessage, fetchImpl: typeof fetch) => Promise<void>;
+}
+
+export interface AlertDeliveryAttempt {
+  channelId: string;
+  channelType: AlertChannelType;
+  attempt: number;
+  pair: PairId;
+  status: 'success' | 'failed';
+  error?: string;
+  level: string;
+  transitionAt: number;
+  attemptedAt: number;
+}
+
+export const DEFAULT_ALERT_TEMPLATE =
+  '[{{pairLabel}}] {{levelText}} {{sideText}}\n'
+  + '点差 {{diff}} {{pair}} (市场 {{marketRate}} / 平台 {{platformRate}})\n'
+  + '{{fromText}} → {{levelText}} · {{time}} ({{timeZone}}){{lockWindow}}';
+
+export function validateAlertChannels(input: unknown): { channels: AlertChannelConfig[] | null; errors: string[] } {
+  const result = alertChannelListSchema.safeParse(input);
+  if (result.success) return { channels: result.data, errors: [] };
+  return {
+    channels: null,
+    errors: result.error.issues.map(issue => {
+      const index = typeof issue.path[0] === 'number' ? `渠道 ${issue.path[0] + 1}: ` : '';
+      return index + issue.message;
+    }),
+  };
+}
+
+// Separates what may be synced to every dashboard from the credentials
+export function splitChannelSecrets(channel: AlertChannelConfig): { channel: AlertChannelConfig; secrets: AlertChannelSecrets } {
+  const { botToken, password, ...rest } = channel as AlertChannelConfig & AlertChannelSecrets;
+  const values: AlertChannelSecrets = { botToken, password };
+  const secrets: AlertChannelSecrets = {};
+  SECRET_FIELDS[channel.type].forEach(field => {
+    if (values[field]) secrets[field] = values[field];
+  });
+  return { channel: rest as AlertChannelConfig, secrets };
+}
+
+export function withChannelSecrets(
+  channels: AlertChannelConfig[],
+  secrets: Map<string, AlertChannelSecrets>
+): AlertChannelConfig[] {
+  return channels.map(channel => {
+    const stored = secrets.get(channel.id) ?? {};
+    const fields = SECRET_FIELDS[channel.type].filter(field => stored[field]).map(field => [field, stored[field]]);
+    return { ...channel, ...Object.fromEntries(fields) };
+  });
+}
+
+// false for a channel whose credentials were not merged in (any dashboard)
+export function hasChannelSecrets(channel: AlertChannelConfig): boolean {
+  return channel.type !== 'chatbot' || !!channel.botToken;
+}
+
+export async function fetchAlertChannelSecrets(pair: PairId): Promise<Map<string, AlertChannelSecrets>> {
+  const { data, error } = await supabase
+    .from('alert_channel_secrets')
+    .select('channel_id, secrets')
+    .eq('pair', pair);
+  if (error) throw error;
+  return new Map((data ?? []).map(row => [row.channel_id as string, (row.secrets ?? {}) as AlertChannelSecrets]));
+}
+
+export function toAlertChannelSecretRow(channelId: string, secrets: AlertChannelSecrets, pair: PairId, updatedBy: string | null) {
+  return { pair, channel_id: channelId, secrets, updated_by: updatedBy };
+}
+
+export function renderAlertTemplate(template: string, transition: RiskTransition): string {
+  const { pair, from, to, diff, marketRate, platformRate, isLockWindow, timestamp } = transition;
+  const pairConfig = getPairConfig(pair);
+  const values: Record<string, string> = {
+    pair,
+    pairLabel: pairConfig.label,
+    timeZone: getTimeZoneLabel(pairConfig),
+    level: to.level,
+    levelText: getRiskText(to.level, to.side),
+    side: to.side ?? '',
+    sideText: to.side ? getSideText(to.side) : '',
+    from: from.level,
+    fromText: getRiskText(from.level, from.side),
+    diff: (diff >= 0 ? '+' : '') + diff.toFixed(4),
+    marketRate: marketRate.toFixed(4),
+    platformRate: platformRate.toFixed(4),
+    time: formatLocalTime(new Date(timestamp), undefined, pairConfig.utcOffset),
+    lockWindow: isLockWindow ? ' · 锁价时段' : '',
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+}
+
+export function buildAlertMessage(channel: AlertChannelConfig, transition: RiskTransition): AlertMessage {
+  const text = renderAlertTemplate(channel.template || DEFAULT_ALERT_TEMPLATE, transition);
+  return { subject: text.split('\n')[0], text, transition };
+}
+
+async function postJSON(fetchImpl: typeof fetch, url: string, body: unknown): Promise<void> {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+}
+
+const webhookAdapter: AlertChannelAdapter = {
+  type: 'webhook',
+  isSupported: () => true,
+  send: async (channel, message, fetchImpl) => {
+    if (channel.type !== 'webhook') return;
+    const { transition } = message;
+    await postJSON(fetchImpl, channel.url, {
+      text: message.text,
+      pair: transition.pair,
+      level: transition.to.level,
+      side: transition.to.side,
+      previousLevel: transition.from.level,
+      diff: transition.diff,
+      marketRate: transition.marketRate,
+      platformRate: transition.platformRate,
+      isLockWindow: transition.isLockWindow,
+      timestamp: transition.timestamp,
+    });
+  },
+};
+
+// Telegram-compatible Bot API (sendMessage)
+const chatBotAdapter: AlertChannelAdapter = {
+  type: 'chatbot',
+  isSupported: () => true,
+  send: async (channel, message, fetchImpl) => {
+    if (channel.type !== 'chatbot') return;
+    if (!channel.botToken) throw new Error('Bot token is not configured');
+    await postJSON(fetchImpl, `${channel.apiBase.replace(/\/$/, '')}/bot${channel.botToken}/sendMessage`, {
+      chat_id: channel.chatId,
+      text: message.text,
+      disable_web_page_preview: true,
+    });
+  },
+};
+
+const emailAdapter: AlertChannelAdapter = {
+  type: 'email',
+  isSupported: isSmtpSupported,
+  send: async (channel, message) => {
+    if (channel.type !== 'email') return;
+    await sendSmtpMail(
+      { host: channel.host, port: channel.port, username: channel.username, password: channel.password },
+      { from: channel.from, to: channel.to, subject: message.subject, text: message.text }
+    );
+  },
+};
+
+const adapters = new Map<AlertChannelType, AlertChannelAdapter>([
+  ['webhook', webhookAdapter],
+  ['chatbot', chatBotAdapter],
+  ['email', emailAdapter],
+]);
+
+export function registerAlertChannelAdapter(adapter: AlertChannelAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getAlertChannelAdapter(type: AlertChannelType): AlertChannelAdapter | undefined {
+  return adapters.get(type);
+}
+
+export async function logAlertDelivery(attempt: AlertDeliveryAttempt): Promise<void> {
+  try {
+    const { error } = await supabase.from('alert_deliveries').insert([{
+      channel_id: attempt.channelId,
+      channel_type: attempt.channelType,
+      attempt: attempt.attempt,
+      pair: attempt.pair,
+      status: attempt.status,
+      error: attempt.error ?? null,
+      level: attempt.level,
+      transition_at: attempt.transitionAt,
+      attempted_at: attempt.attemptedAt,
+    }]);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Failed to log alert delivery:', error);
+  }
+}
+
+export interface DeliveryOptions {
+  fetchImpl?: typeof fetch;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (attempt: AlertDeliveryAttempt) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Deliver one message, retrying with exponential backoff up to the channel's budget
+export async function deliverAlert(
+  channel: AlertChannelConfig,
+  message: AlertMessage,
+  options: DeliveryOptions = {}
+): Promise<boolean> {
+  const adapter = adapters.get(channel.type);
+  if (!adapter) throw new Error(`No adapter for channel type ${channel.type}`);
+
+  const { fetchImpl = fetch, baseDelayMs = 1000, sleep = defaultSleep, log = logAlertDelivery } = options;
+
+  for (let attempt = 1; attempt <= channel.maxAttempts; attempt++) {
+    const record: AlertDeliveryAttempt = {
+      channelId: channel.id,
+      channelType: channel.type,
+      attempt,
+      pair: message.transition.pair,
+      status: 'success',
+      level: message.transition.to.level,
+      transitionAt: message.transition.timestamp,
+      attemptedAt: Date.now(),
+    };
+    try {
+      await adapter.send(channel, message, fetchImpl);
+      await log(record);
+      return true;
+    } catch (error) {
+      await log({ ...record, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      if (attempt < channel.maxAttempts) await sleep(baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+  return false;
+}
+
+// A transition is relevant to a channel when either end reaches its minimum level,
+// so the channel also hears about de-escalation and recovery.
+export function isChannelInterested(channel: AlertChannelConfig, transition: RiskTransition): boolean {
+  const min = RISK_LEVELS.indexOf(channel.minLevel);
+  return Math.max(RISK_LEVELS.indexOf(transition.to.level), RISK_LEVELS.indexOf(transition.from.level)) >= min;
+}
+
+export async function dispatchAlert(
+  transition: RiskTransition,
+  channels: AlertChannelConfig[],
+  options: DeliveryOptions = {}
+): Promise<void> {
+  const targets = channels.filter(channel =>
+    channel.enabled
+    && isChannelInterested(channel, transition)
+    && adapters.get(channel.type)?.isSupported()
+  );
+  await Promise.all(targets.map(channel => deliverAlert(channel, buildAlertMessage(channel, transition), options)));
+}
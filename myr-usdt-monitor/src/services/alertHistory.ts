@@ -0,0 +1,157 @@
+// Alert incident history
+//
+// An incident opens when the spread leaves 'safe' and closes when it returns.
+// While open it tracks the peak level and spread plus every level/side change,
+// and records who acknowledged it and when, so danger periods can be reviewed
+// after the fact.
+
+import { supabase } from '../lib/supabase';
+import { createUuid } from '../lib/utils';
+import { RISK_LEVELS, RiskAssessment, RiskLevel, RiskSide } from '../utils/riskRules';
+import type { PairId } from '../utils/pairs';
+import type { RiskSnapshot } from './riskTransitions';
+
+export interface AlertLevelChange {
+  at: number;
+  level: RiskLevel;
+  side: RiskSide | null;
+  diff: number;
+}
+
+export interface AlertIncident {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  peakLevel: RiskLevel;
+  peakSide: RiskSide | null;
+  peakDiff: number;
+  transitions: AlertLevelChange[];
+  acknowledgedBy: string | null;
+  acknowledgedAt: number | null;
+}
+
+// Higher level wins; at the same level the spread further out on its side wins
+function isWorsePeak(incident: AlertIncident, assessment: RiskAssessment, diff: number): boolean {
+  const levelDelta = RISK_LEVELS.indexOf(assessment.level) - RISK_LEVELS.indexOf(incident.peakLevel);
+  if (levelDelta !== 0) return levelDelta > 0;
+  if (assessment.side !== incident.peakSide) return false;
+  return assessment.side === 'loss' ? diff < incident.peakDiff : diff > incident.peakDiff;
+}
+
+// Advance the open incident by one evaluation. Returns the incident to persist
+// (null when nothing changed) and the incident that stays open afterwards.
+export function advanceIncident(
+  incident: AlertIncident | null,
+  assessment: RiskAssessment,
+  snapshot: RiskSnapshot
+): { changed: AlertIncident | null; open: AlertIncident | null } {
+  const { diff, timestamp } = snapshot;
+
+  if (assessment.level === 'safe') {
+    if (!incident) return { changed: null, open: null };
+    const closed: AlertIncident = {
+      ...incident,
+      endedAt: timestamp,
+      transitions: [...incident.transitions, { at: timestamp, level: 'safe', side: null, diff }],
+    };
+    return { changed: closed, open: null };
+  }
+
+  if (!incident) {
+    const opened: AlertIncident = {
+      id: createUuid(),
+      startedAt: timestamp,
+      endedAt: null,
+      peakLevel: assessment.level,
+      peakSide: assessment.side,
+      peakDiff: diff,
+      transitions: [{ at: timestamp, level: assessment.level, side: assessment.side, diff }],
+      acknowledgedBy: null,
+      acknowledgedAt: null,
+    };
+    return { changed: opened, open: opened };
+  }
+
+  let next = incident;
+  const last = incident.transitions[incident.transitions.length - 1];
+  if (!last || last.level !== assessment.level || last.side !== assessment.side) {
+    next = {
+      ...next,
+      transitions: [...next.transitions, { at: timestamp, level: assessment.level, side: assessment.side, diff }],
+    };
+  }
+  if (isWorsePeak(next, assessment, diff)) {
+    next = { ...next, peakLevel: assessment.level, peakSide: assessment.side, peakDiff: diff };
+  }
+  return { changed: next === incident ? null : next, open: next };
+}
+
+export function getIncidentDuration(incident: AlertIncident, now: number = Date.now()): number {
+  return (incident.endedAt ?? now) - incident.startedAt;
+}
+
+export function getResponseTime(incident: AlertIncident): number | null {
+  return incident.acknowledgedAt === null ? null : incident.acknowledgedAt - incident.startedAt;
+}
+
+// Acknowledgement columns are left out so a tracking update never clears an
+// acknowledgement made from another client (acknowledging is a guarded update).
+export function toAlertRow(incident: AlertIncident, pair: PairId) {
+  return {
+    pair,
+    id: incident.id,
+    started_at: incident.startedAt,
+    ended_at: incident.endedAt,
+    peak_level: incident.peakLevel,
+    peak_side: incident.peakSide,
+    peak_diff: incident.peakDiff,
+    transitions: incident.transitions,
+  };
+}
+
+export function fromAlertRow(row: any): AlertIncident {
+  return {
+    id: row.id,
+    startedAt: Number(row.started_at),
+    endedAt: row.ended_at == null ? null : Number(row.ended_at),
+    peakLevel: row.peak_level,
+    peakSide: row.peak_side ?? null,
+    peakDiff: row.peak_diff,
+    transitions: row.transitions ?? [],
+    acknowledgedBy: row.acknowledged_by ?? null,
+    acknowledgedAt: row.acknowledged_at == null ? null : Number(row.acknowledged_at),
+  };
+}
+
+export async function fetchAlerts(pair: PairId, limit = 100): Promise<AlertIncident[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*')
+    .eq('pair', pair)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []).map(fromAlertRow);
+}
+
+// PostgREST caps a response at 1000 rows
+const ALERT_PAGE_SIZE = 1000;
+
+// Incidents that overlap the range, oldest first
+export async function fetchAlertsInRange(pair: PairId, start: number, end: number): Promise<AlertIncident[]> {
+  const alerts: AlertIncident[] = [];
+  for (let offset = 0; ; offset += ALERT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('alerts')
+      .select('*')
+      .eq('pair', pair)
+      .lte('started_at', end)
+      .or(`ended_at.is.null,ended_at.gte.${start}`)
+      .order('started_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + ALERT_PAGE_SIZE - 1);
+    if (error) throw error;
+    alerts.push(...(data ?? []).map(fromAlertRow));
+    if (!data || data.length < ALERT_PAGE_SIZE) return alerts;
+  }
+}
@@ -0,0 +1,91 @@
+// Chart annotations
+//
+// Notes are free text an operator pins to a timestamp. Setting rows are written
+// by a database trigger whenever a numeric or time setting changes, so they
+// cover every writer; the dashboard only reads them.
+
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { createUuid } from '../lib/utils';
+import type { PairId } from '../utils/pairs';
+
+export interface ChartAnnotation {
+  id: string;
+  timestamp: number;
+  kind: 'note' | 'setting';
+  text: string;
+  settingKey: string | null;
+  createdBy: string | null;
+}
+
+const SETTING_LABELS: Record<string, string> = {
+  platform_rate: '平台汇率',
+  cost_buffer: '成本缓冲',
+  target_margin: '目标利润',
+  max_deviation: '数据源偏离阈值',
+  lock_time: '锁价快照时间',
+  risk_rules: '风险规则',
+  alert_channels: '告警渠道',
+};
+
+// undefined for keys operators are not told about
+export function getSettingLabel(key: string): string | undefined {
+  return SETTING_LABELS[key];
+}
+
+const noteSchema = z.object({
+  timestamp: z.number().int().positive('时间无效'),
+  text: z.string().trim().min(1, '备注不能为空').max(500, '备注不能超过 500 字'),
+});
+
+export function validateNote(input: unknown): { note: { timestamp: number; text: string } | null; errors: string[] } {
+  const result = noteSchema.safeParse(input);
+  if (result.success) return { note: result.data as { timestamp: number; text: string }, errors: [] };
+  return { note: null, errors: result.error.issues.map(issue => issue.message) };
+}
+
+export function createNote(timestamp: number, text: string, createdBy: string | null): ChartAnnotation {
+  return { id: createUuid(), timestamp, kind: 'note', text, settingKey: null, createdBy };
+}
+
+export function toAnnotationRow(annotation: ChartAnnotation, pair: PairId) {
+  return {
+    pair,
+    id: annotation.id,
+    timestamp: annotation.timestamp,
+    kind: annotation.kind,
+    text: annotation.text,
+    setting_key: annotation.settingKey,
+    created_by: annotation.createdBy,
+  };
+}
+
+export function fromAnnotationRow(row: any): ChartAnnotation {
+  return {
+    id: row.id,
+    timestamp: Number(row.timestamp),
+    kind: row.kind,
+    text: row.text,
+    settingKey: row.setting_key ?? null,
+    createdBy: row.created_by ?? null,
+  };
+}
+
+export async function fetchAnnotations(pair: PairId, start: number, end: number): Promise<ChartAnnotation[]> {
+  const { data, error } = await supabase
+    .from('chart_annotations')
+    .select('*')
+    .eq('pair', pair)
+    .gte('timestamp', start)
+    .lte('timestamp', end)
+    .order('timestamp', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(fromAnnotationRow);
+}
+
+// Keeps the list in time order and lets a realtime echo of our own insert replace it
+export function mergeAnnotations(annotations: ChartAnnotation[], incoming: ChartAnnotation[]): ChartAnnotation[] {
+  const byId = new Map(annotations.map(a => [a.id, a]));
+  incoming.forEach(a => byId.set(a.id, a));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
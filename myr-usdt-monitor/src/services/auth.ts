@@ -0,0 +1,99 @@
+// Supabase auth and role-based permissions
+//
+// Every signed-in user has a row in profiles with a role. Roles are ordered
+// viewer < operator < admin. The UI checks permissions up front; the RLS
+// policies in the auth_roles migration enforce the same rules server-side.
+
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  displayName: string | null;
+  role: UserRole;
+}
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+// Minimum role needed to change each app_settings key; unlisted keys are admin-only
+const SETTING_ROLES: Record<string, UserRole> = {
+  platform_rate: 'operator', // also guards the platform_rates ledger
+  cost_buffer: 'operator',
+};
+
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function getRequiredRole(settingKey: string): UserRole {
+  return SETTING_ROLES[settingKey] ?? 'admin';
+}
+
+export function canEditSetting(role: UserRole | null | undefined, settingKey: string): boolean {
+  return hasRole(role, getRequiredRole(settingKey));
+}
+
+export function getRoleText(role: UserRole): string {
+  switch (role) {
+    case 'viewer': return '只读';
+    case 'operator': return '操作员';
+    case 'admin': return '管理员';
+  }
+}
+
+export function getActorName(user: AuthUser | null): string | null {
+  return user ? user.displayName || user.email : null;
+}
+
+async function fetchProfile(session: Session): Promise<AuthUser> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('display_name, role')
+    .eq('id', session.user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    id: session.user.id,
+    email: session.user.email ?? '',
+    displayName: data?.display_name ?? null,
+    // No profile row yet (trigger lag): least privilege until it appears
+    role: (data?.role as UserRole) ?? 'viewer',
+  };
+}
+
+export async function signIn(email: string, password: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
+
+// Calls listener with the current user (or null) now and on every auth change
+export function onAuthUserChange(listener: (user: AuthUser | null) => void): () => void {
+  const resolve = async (session: Session | null) => {
+    if (!session) {
+      listener(null);
+      return;
+    }
+    try {
+      listener(await fetchProfile(session));
+    } catch (error) {
+      console.error('Failed to load user profile:', error);
+      listener({ id: session.user.id, email: session.user.email ?? '', displayName: null, role: 'viewer' });
+    }
+  };
+
+  const { data } = supabase.auth.onAuthStateChange((event, session) => {
+    // Token refreshes do not change who is signed in
+    if (event === 'TOKEN_REFRESHED') return;
+    // Defer: querying inside the callback can deadlock the auth client
+    setTimeout(() => resolve(session), 0);
+  });
+  return () => data.subscription.unsubscribe();
+}
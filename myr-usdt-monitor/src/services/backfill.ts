@@ -0,0 +1,117 @@
+// Historical backfill of rate_history and daily_stats from a time-series source
+//
+// Each day is priced with the platform rate that was in force then: the rate
+// ledger, else the rate its daily stats recorded, else one the operator enters.
+// Days with none of these are left out rather than priced at today's rate.
+
+import type { RateRecord } from '../store/rateStore';
+import { fetchHistoricalRate } from './rateApi';
+import { countRateRecords, fetchDailyStats, insertRateRecords, upsertDailyStats } from './rateRepository';
+import { aggregateDailyStats } from '../utils/dailyStats';
+import { PlatformRateEntry, findRateEntryAt, findRateForDate } from './platformRates';
+import type { PairConfig } from '../utils/pairs';
+import { DEFAULT_RISK_RULES, RiskRule } from '../utils/riskRules';
+import {
+  assessRisk,
+  getBusinessDateKey,
+  getBusinessDayRange,
+  isLockPriceWindow,
+} from '../utils/rateUtils';
+
+export interface BackfillResult {
+  filled: string[];   // dates written
+  skipped: string[];  // dates that already had rate_history rows
+  empty: string[];    // dates the provider returned nothing for
+  unpriced: string[]; // dates with no known platform rate
+  inserted: number;
+}
+
+// Enumerate business dates between two yyyy-MM-dd keys, inclusive
+export function listDateKeys(fromDate: string, toDate: string): string[] {
+  const keys: string[] = [];
+  const last = getBusinessDayRange(toDate, 0).start;
+  for (let start = getBusinessDayRange(fromDate, 0).start; start <= last; start += 24 * 3600000) {
+    keys.push(getBusinessDateKey(new Date(start), 0));
+  }
+  return keys;
+}
+
+export async function backfillHistory(
+  pair: PairConfig,
+  fromDate: string,
+  toDate: string,
+  historicalPlatformRate: number | null,
+  rules: RiskRule[] = DEFAULT_RISK_RULES,
+  costBuffer: number = 0,
+  platformRates: PlatformRateEntry[] = []
+): Promise<BackfillResult> {
+  const dates = listDateKeys(fromDate, toDate);
+  const result: BackfillResult = { filled: [], skipped: [], empty: [], unpriced: [], inserted: 0 };
+  if (dates.length === 0) return result;
+
+  // Only dates with no stored observations are backfilled
+  const missing: string[] = [];
+  for (const date of dates) {
+    const { start, end } = getBusinessDayRange(date, pair.utcOffset);
+    if (await countRateRecords(pair.id, start, end) > 0) {
+      result.skipped.push(date);
+    } else {
+      missing.push(date);
+    }
+  }
+  if (missing.length === 0) return result;
+
+  const rangeStart = getBusinessDayRange(missing[0], pair.utcOffset).start;
+  const rangeEnd = getBusinessDayRange(missing[missing.length - 1], pair.utcOffset).end;
+  const [quotes, existingStats] = await Promise.all([
+    fetchHistoricalRate(pair.id, rangeStart, rangeEnd),
+    fetchDailyStats(pair.id, missing[0], missing[missing.length - 1]),
+  ]);
+
+  for (const date of missing) {
+    const { start, end } = getBusinessDayRange(date, pair.utcOffset);
+    const dayQuotes = quotes.filter(q => q.timestamp >= start && q.timestamp <= end);
+    if (dayQuotes.length === 0) {
+      result.empty.push(date);
+      continue;
+    }
+
+    // Prefer the ledger, then the rate recorded for that day, then the operator's
+    const platformRate = findRateForDate(platformRates, date, pair.utcOffset)
+      ?? existingStats.find(s => s.date === date)?.platformRate
+      ?? historicalPlatformRate;
+    if (platformRate == null) {
+      result.unpriced.push(date);
+      continue;
+    }
+    const records: RateRecord[] = dayQuotes.map(quote => {
+      // Quotes after the evening switch already run on the next day's rate
+      const rateInForce = findRateEntryAt(platformRates, quote.timestamp);
+      const quotePlatformRate = rateInForce && rateInForce.date > date ? rateInForce.rate : platformRate;
+      const diff = quotePlatformRate - quote.mid;
+      const risk = assessRisk(
+        diff,
+        { isLockWindow: isLockPriceWindow(new Date(quote.timestamp), pair), consecutiveExpansions: 0, costBuffer },
+        rules
+      );
+      return {
+        timestamp: quote.timestamp,
+        marketRate: quote.mid,
+        platformRate: quotePlatformRate,
+        diff,
+        riskLevel: risk.level,
+        riskSide: risk.side,
+        source: `backfill:${quote.source}`,
+      };
+    });
+
+    await insertRateRecords(pair.id, records);
+    const stats = aggregateDailyStats(date, records, { source: records[0].source, platformRate });
+    if (stats) await upsertDailyStats(pair.id, [stats]);
+
+    result.filled.push(date);
+    result.inserted += records.length;
+  }
+
+  return result;
+}
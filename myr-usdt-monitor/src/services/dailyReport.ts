@@ -0,0 +1,219 @@
+// Printable end-of-day report
+//
+// A standalone HTML page with the rate chart as inline SVG, the daily
+// statistics and an alert summary, printed from a hidden iframe. The browser's
+// print dialog saves it as PDF, so no PDF library is needed.
+
+import { getTimeZoneLabel, PairConfig } from '../utils/pairs';
+import { RISK_LEVELS, RiskLevel, RiskSide } from '../utils/riskRules';
+import { downsampleMinMax } from '../utils/chartBuckets';
+import { formatDuration, formatLocalTime, getLockWindowRanges, getRiskText } from '../utils/rateUtils';
+import { getIncidentDuration } from './alertHistory';
+import type { ExportData } from './exports';
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 240;
+const PADDING_LEFT = 56;
+const PADDING_BOTTOM = 24;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatSigned(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(4);
+}
+
+// Same palette as the dashboard; the uncompetitive side stays blue
+function getRiskHex(level: RiskLevel, side?: RiskSide | null): string {
+  if (level === 'safe') return '#059669';
+  if (side === 'uncompetitive') return '#2563EB';
+  return { warning: '#CA8A04', danger: '#EA580C', critical: '#DC2626' }[level];
+}
+
+function renderChart(data: ExportData, pair: PairConfig): string {
+  const { records, alerts, start, end } = data;
+  if (records.length === 0) return '<p class="empty">所选范围内没有汇率记录</p>';
+
+  const plotWidth = CHART_WIDTH - PADDING_LEFT - 8;
+  const plotHeight = CHART_HEIGHT - PADDING_BOTTOM - 8;
+  const min = records.reduce((low, r) => Math.min(low, r.marketRate, r.platformRate), Infinity);
+  const max = records.reduce((high, r) => Math.max(high, r.marketRate, r.platformRate), -Infinity);
+  const pad = (max - min) * 0.1 || max * 0.001 || 1;
+  const x = (timestamp: number) => PADDING_LEFT + ((timestamp - start) / (end - start || 1)) * plotWidth;
+  const y = (rate: number) => 8 + (1 - (rate - (min - pad)) / (max - min + 2 * pad)) * plotHeight;
+
+  const lockWindows = getLockWindowRanges(start, end, pair)
+    .map(range => `<rect x="${x(range.start)}" y="8" width="${Math.max(x(range.end) - x(range.start), 1)}" height="${plotHeight}" fill="#EAB308" fill-opacity="0.12"/>`)
+    .join('');
+
+  const alertBands = alerts
+    .map(alert => {
+      const from = x(Math.max(alert.startedAt, start));
+      const to = x(Math.min(alert.endedAt ?? end, end));
+      return `<rect x="${from}" y="${8 + plotHeight - 6}" width="${Math.max(to - from, 1)}" height="6" fill="${getRiskHex(alert.peakLevel, alert.peakSide)}"/>`;
+    })
+    .join('');
+
+  const market = downsampleMinMax(records, Math.floor(plotWidth / 2))
+    .map(r => `${x(r.timestamp).toFixed(1)},${y(r.marketRate).toFixed(1)}`)
+    .join(' ');
+
+  // Platform rate as steps: it holds until the next record changes it
+  const platformPoints: string[] = [];
+  records.forEach((r, i) => {
+    if (i > 0 && r.platformRate === records[i - 1].platformRate) return;
+    if (i > 0) platformPoints.push(`${x(r.timestamp).toFixed(1)},${y(records[i - 1].platformRate).toFixed(1)}`);
+    platformPoints.push(`${x(r.timestamp).toFixed(1)},${y(r.platformRate).toFixed(1)}`);
+  });
+  platformPoints.push(`${x(end).toFixed(1)},${y(records[records.length - 1].platformRate).toFixed(1)}`);
+
+  const yTicks = [min, (min + max) / 2, max]
+    .map(rate => `<text x="${PADDING_LEFT - 6}" y="${y(rate) + 4}" text-anchor="end">${rate.toFixed(4)}</text>`
+      + `<line x1="${PADDING_LEFT}" x2="${PADDING_LEFT + plotWidth}" y1="${y(rate)}" y2="${y(rate)}" stroke="#E5E7EB"/>`)
+    .join('');
+  const xTicks = [0, 0.25, 0.5, 0.75, 1]
+    .map(f => {
+      const timestamp = start + (end - start) * f;
+      const anchor = f === 0 ? 'start' : f === 1 ? 'end' : 'middle';
+      return `<text x="${x(timestamp)}" y="${CHART_HEIGHT - 6}" text-anchor="${anchor}">${formatLocalTime(new Date(timestamp), 'MM-dd HH:mm', pair.utcOffset)}</text>`;
+    })
+    .join('');
+
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" font-size="10" fill="#6B7280">`
+    + yTicks + lockWindows + alertBands
+    + `<polyline points="${platformPoints.join(' ')}" fill="none" stroke="#3B82F6" stroke-width="1.5" stroke-dasharray="5 3"/>`
+    + `<polyline points="${market}" fill="none" stroke="#10B981" stroke-width="1.5"/>`
+    + xTicks
+    + '</svg>'
+    + '<p class="legend"><span style="color:#10B981">━ 市场汇率</span><span style="color:#3B82F6">┅ 平台汇率</span>'
+    + '<span style="color:#CA8A04">▮ 锁价时段</span><span>底部色条：告警期间（按峰值等级）</span></p>';
+}
+
+function renderSummary(data: ExportData, pair: PairConfig): string {
+  const { records, alerts, end } = data;
+  const cards: [string, string][] = [['汇率记录', `${records.length} 条`]];
+  if (records.length > 0) {
+    // Reduced rather than spread, ranges can hold hundreds of thousands of records
+    const low = (key: 'marketRate' | 'diff') => records.reduce((value, r) => Math.min(value, r[key]), Infinity);
+    const high = (key: 'marketRate' | 'diff') => records.reduce((value, r) => Math.max(value, r[key]), -Infinity);
+    cards.push(
+      ['市场汇率 低 / 高', `${low('marketRate').toFixed(4)} / ${high('marketRate').toFixed(4)}`],
+      ['点差 低 / 高', `${formatSigned(low('diff'))} / ${formatSigned(high('diff'))}`],
+      ['期末平台汇率', `${records[records.length - 1].platformRate.toFixed(4)} ${pair.id}`],
+    );
+  }
+  const alertTime = alerts.reduce((sum, alert) => sum + getIncidentDuration(alert, end), 0);
+  cards.push(['告警', `${alerts.length} 次，共 ${formatDuration(alertTime)}`]);
+
+  return '<div class="cards">'
+    + cards.map(([label, value]) => `<div class="card"><div class="label">${label}</div><div class="value">${escapeHtml(value)}</div></div>`).join('')
+    + '</div>';
+}
+
+function renderDailyStats(data: ExportData, lockTime: string): string {
+  if (data.dailyStats.length === 0) return '<p class="empty">所选范围内没有每日统计</p>';
+  const rows = data.dailyStats.map(stats => `<tr>
+    <td>${stats.date}</td>
+    <td class="num">${stats.platformRate.toFixed(4)}</td>
+    <td class="num">${stats.minMarketRate.toFixed(4)} / ${stats.avgMarketRate.toFixed(4)} / ${stats.maxMarketRate.toFixed(4)}</td>
+    <td class="num">${formatSigned(stats.minDiff)} / ${formatSigned(stats.avgDiff)} / ${formatSigned(stats.maxDiff)}</td>
+    <td class="num">${stats.lockTimeRate !== undefined ? stats.lockTimeRate.toFixed(4) : '--'}</td>
+    <td style="color:${getRiskHex(stats.riskLevel)}">${getRiskText(stats.riskLevel)}</td>
+    <td class="num">${stats.sampleCount ?? '--'}</td>
+  </tr>`).join('');
+  return `<table>
+    <thead><tr><th>日期</th><th>平台汇率</th><th>市场汇率 (低/均/高)</th><th>点差 (低/均/高)</th><th>${escapeHtml(lockTime)} 汇率</th><th>最高风险</th><th>记录数</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+function renderAlerts(data: ExportData, pair: PairConfig): string {
+  const { alerts, end } = data;
+  if (alerts.length === 0) return '<p class="empty">所选范围内没有告警</p>';
+
+  const format = (timestamp: number) => formatLocalTime(new Date(timestamp), 'MM-dd HH:mm:ss', pair.utcOffset);
+  const counts = RISK_LEVELS
+    .filter(level => level !== 'safe')
+    .map(level => {
+      const count = alerts.filter(alert => alert.peakLevel === level).length;
+      return `<span style="color:${getRiskHex(level)}">${getRiskText(level)} ${count} 次</span>`;
+    })
+    .join('');
+  const rows = alerts.map(alert => `<tr>
+    <td>${format(alert.startedAt)}</td>
+    <td>${alert.endedAt === null ? '进行中' : format(alert.endedAt)}</td>
+    <td class="num">${formatDuration(getIncidentDuration(alert, end))}</td>
+    <td style="color:${getRiskHex(alert.peakLevel, alert.peakSide)}">${getRiskText(alert.peakLevel, alert.peakSide)}</td>
+    <td class="num">${formatSigned(alert.peakDiff)}</td>
+    <td>${alert.acknowledgedBy ? escapeHtml(alert.acknowledgedBy) : '未确认'}</td>
+  </tr>`).join('');
+  return `<p class="counts">按峰值等级：${counts}</p>
+  <table>
+    <thead><tr><th>开始</th><th>结束</th><th>持续时间</th><th>峰值等级</th><th>峰值点差</th><th>确认</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+export function buildReportHtml(data: ExportData, pair: PairConfig, lockTime: string): string {
+  const range = data.fromDate === data.toDate ? data.fromDate : `${data.fromDate} ~ ${data.toDate}`;
+  const generatedAt = formatLocalTime(new Date(), 'yyyy-MM-dd HH:mm:ss', pair.utcOffset);
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${pair.label} 日终报告 ${range}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 8px; border-bottom: 1px solid #E5E7EB; padding-bottom: 4px; }
+  .meta { color: #6B7280; margin: 0 0 12px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 8px; }
+  .card { border: 1px solid #E5E7EB; border-radius: 6px; padding: 6px 10px; min-width: 120px; }
+  .card .label { color: #6B7280; font-size: 11px; }
+  .card .value { font-size: 13px; font-weight: 600; }
+  .legend, .counts { display: flex; gap: 16px; color: #6B7280; font-size: 11px; }
+  .empty { color: #9CA3AF; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #E5E7EB; padding: 4px 6px; text-align: left; }
+  th { color: #6B7280; font-weight: 500; }
+  .num { text-align: right; font-family: ui-monospace, monospace; }
+  tr { break-inside: avoid; }
+</style>
+</head>
+<body>
+  <h1>${pair.label} 日终报告</h1>
+  <p class="meta">${range}（${getTimeZoneLabel(pair)}）· 生成于 ${generatedAt}</p>
+  ${renderSummary(data, pair)}
+  <h2>汇率走势</h2>
+  ${renderChart(data, pair)}
+  <h2>每日统计</h2>
+  ${renderDailyStats(data, lockTime)}
+  <h2>告警汇总</h2>
+  ${renderAlerts(data, pair)}
+</body>
+</html>`;
+}
+
+// Prints from a hidden iframe so no popup window is needed
+export function printReport(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing blocks until the dialog closes in most browsers
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
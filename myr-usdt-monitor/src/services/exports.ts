@@ -0,0 +1,145 @@
+// Exports of a pair's stored data over a range of business dates
+//
+// Everything is read from Supabase rather than the store, so any range can be
+// exported. CSV carries the rate history; XLSX adds hourly candles (bucketed
+// like the chart), daily statistics and alerts as further sheets; JSON keeps
+// the records as the app models them.
+
+import type { DailyStats, RateRecord } from '../store/rateStore';
+import { getTimeZoneLabel, PairConfig } from '../utils/pairs';
+import { getSideText } from '../utils/riskRules';
+import { bucketCandles, Candle, getCandleIntervalMs } from '../utils/chartBuckets';
+import { exportToCSV, formatDuration, formatLocalTime, getBusinessDateKey, getBusinessDayRange, getRiskText } from '../utils/rateUtils';
+import { downloadBlob, ExportRow, toXLSX } from '../utils/exportFormats';
+import { fetchDailyStats, fetchRateHistory } from './rateRepository';
+import { AlertIncident, fetchAlertsInRange, getIncidentDuration, getResponseTime } from './alertHistory';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportData {
+  fromDate: string;
+  toDate: string;
+  start: number;
+  end: number;
+  records: RateRecord[];
+  dailyStats: DailyStats[];
+  alerts: AlertIncident[];
+}
+
+export async function loadExportData(pair: PairConfig, fromDate: string, toDate: string): Promise<ExportData> {
+  const start = getBusinessDayRange(fromDate, pair.utcOffset).start;
+  const end = Math.min(getBusinessDayRange(toDate, pair.utcOffset).end, Date.now());
+  const [records, dailyStats, alerts] = await Promise.all([
+    fetchRateHistory(pair.id, start, end),
+    fetchDailyStats(pair.id, fromDate, toDate),
+    fetchAlertsInRange(pair.id, start, end),
+  ]);
+  return { fromDate, toDate, start, end, records, dailyStats, alerts };
+}
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+export function toHistoryExportRow(record: RateRecord, pair: PairConfig, range?: { min: number; max: number }): ExportRow {
+  return {
+    日期: formatLocalTime(new Date(record.timestamp), 'yyyy-MM-dd HH:mm:ss', pair.utcOffset) + ` (${getTimeZoneLabel(pair)})`,
+    平台汇率: round(record.platformRate, 4),
+    当前市场汇率: round(record.marketRate, 4),
+    '市场范围(最小~最大)': range ? `${range.min.toFixed(4)} ~ ${range.max.toFixed(4)}` : '',
+    点差: round(record.diff, 4),
+    风险等级: getRiskText(record.riskLevel, record.riskSide),
+    数据来源: record.source ?? 'live',
+  };
+}
+
+export function toCandleExportRow(candle: Candle, pair: PairConfig): ExportRow {
+  return {
+    [`开始 (${getTimeZoneLabel(pair)})`]: formatLocalTime(new Date(candle.start), 'yyyy-MM-dd HH:mm', pair.utcOffset),
+    开盘: round(candle.open, 4),
+    最高: round(candle.high, 4),
+    最低: round(candle.low, 4),
+    收盘: round(candle.close, 4),
+    点差最低: round(candle.spreadLow, 4),
+    点差最高: round(candle.spreadHigh, 4),
+    平台汇率: round(candle.platformRate, 4),
+    记录数: candle.count,
+  };
+}
+
+export function toDailyStatsExportRow(stats: DailyStats): ExportRow {
+  return {
+    日期: stats.date,
+    平台汇率: round(stats.platformRate, 4),
+    市场汇率最低: round(stats.minMarketRate, 4),
+    市场汇率平均: round(stats.avgMarketRate, 4),
+    市场汇率最高: round(stats.maxMarketRate, 4),
+    点差最低: round(stats.minDiff, 4),
+    点差平均: round(stats.avgDiff, 4),
+    点差最高: round(stats.maxDiff, 4),
+    锁价汇率: stats.lockTimeRate !== undefined ? round(stats.lockTimeRate, 4) : null,
+    最高风险: getRiskText(stats.riskLevel),
+    记录数: stats.sampleCount ?? null,
+    数据来源: stats.source ?? 'live',
+  };
+}
+
+export function toAlertExportRow(alert: AlertIncident, pair: PairConfig, now: number = Date.now()): ExportRow {
+  const format = (timestamp: number) => formatLocalTime(new Date(timestamp), 'yyyy-MM-dd HH:mm:ss', pair.utcOffset);
+  const responseTime = getResponseTime(alert);
+  return {
+    [`开始 (${getTimeZoneLabel(pair)})`]: format(alert.startedAt),
+    结束: alert.endedAt === null ? '进行中' : format(alert.endedAt),
+    持续时间: formatDuration(getIncidentDuration(alert, now)),
+    峰值等级: getRiskText(alert.peakLevel, alert.peakSide),
+    风险方向: alert.peakSide ? getSideText(alert.peakSide) : '',
+    峰值点差: round(alert.peakDiff, 4),
+    等级变化次数: alert.transitions.length,
+    确认人: alert.acknowledgedBy ?? '',
+    响应时间: responseTime === null ? '' : formatDuration(responseTime),
+  };
+}
+
+function getDailyRanges(dailyStats: DailyStats[]): Map<string, { min: number; max: number }> {
+  return new Map(dailyStats.map(stats => [stats.date, { min: stats.minMarketRate, max: stats.maxMarketRate }]));
+}
+
+export function exportData(data: ExportData, pair: PairConfig, exportFormat: ExportFormat): void {
+  const basename = `汇率数据_${pair.id}_${data.fromDate.replace(/-/g, '')}-${data.toDate.replace(/-/g, '')}`;
+  const ranges = getDailyRanges(data.dailyStats);
+  const historyRows = () => data.records.map(record => {
+    return toHistoryExportRow(record, pair, ranges.get(getBusinessDateKey(new Date(record.timestamp), pair.utcOffset)));
+  });
+
+  switch (exportFormat) {
+    case 'csv':
+      exportToCSV(historyRows(), `${basename}.csv`);
+      return;
+    case 'xlsx':
+      downloadBlob(toXLSX([
+        { name: '历史记录', rows: historyRows() },
+        {
+          name: '小时K线',
+          rows: bucketCandles(data.records, getCandleIntervalMs('1h'), pair.utcOffset, data.end)
+            .map(candle => toCandleExportRow(candle, pair)),
+        },
+        { name: '每日统计', rows: data.dailyStats.map(toDailyStatsExportRow) },
+        { name: '告警记录', rows: data.alerts.map(alert => toAlertExportRow(alert, pair)) },
+      ]), `${basename}.xlsx`);
+      return;
+    case 'json': {
+      const json = JSON.stringify({
+        pair: pair.id,
+        utcOffset: pair.utcOffset,
+        fromDate: data.fromDate,
+        toDate: data.toDate,
+        generatedAt: new Date().toISOString(),
+        history: data.records,
+        dailyStats: data.dailyStats,
+        alerts: data.alerts,
+      }, null, 2);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `${basename}.json`);
+      return;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+// Rate monitoring cycle, shared by the dashboard and the headless monitor
+//
+// One tick fetches the consensus rate, evaluates risk, feeds the transition
+// tracker and the alert incident history, and records the sample through the
+// store (which owns the Supabase writes). The headless monitor also publishes a
+// heartbeat; while it is fresh, dashboards only read what the monitor wrote.
+
+import { supabase } from '../lib/supabase';
+import { getRateStore } from '../store/rateStore';
+import { fetchUSDTRate, RateConsensus } from './rateApi';
+import { trackRiskAssessment } from './riskTransitions';
+import { getPairConfig, getPairSettingKey, PairId } from '../utils/pairs';
+import { assessRisk, isLockPriceWindow } from '../utils/rateUtils';
+import { RiskAssessment } from '../utils/riskRules';
+
+export interface MonitorTickResult {
+  consensus: RateConsensus;
+  diff: number;
+  assessment: RiskAssessment;
+  recorded: boolean;
+}
+
+export interface MonitorHeartbeat {
+  at: number;
+  host: string;
+  consensus: RateConsensus;
+  diff?: number; // absent in heartbeats from older monitors
+  consecutiveExpansions: number;
+}
+
+// Stored per pair, see getPairSettingKey
+export const HEARTBEAT_KEY = 'monitor_heartbeat';
+// A few missed ticks are tolerated before dashboards take over again
+export const HEARTBEAT_MAX_AGE_MS = 60000;
+// A streak left by a run longer ago than this has lapsed
+const RESUME_MAX_AGE_MS = 30 * 60 * 1000;
+
+export function createRateMonitor(pair: PairId, initialDiff: number | null = null) {
+  const rateStore = getRateStore(pair);
+  let previousDiff: number | null = initialDiff;
+
+  const tick = async (): Promise<MonitorTickResult> => {
+    const { maxDeviation } = rateStore.getState();
+    const consensus = await fetchUSDTRate(pair, { maxDeviation });
+    const rate = consensus.rate;
+
+    const store = rateStore.getState();
+    store.setConsensus(consensus);
+    store.refreshPlatformRate();
+
+    const { platformRate, costBuffer, riskRules } = rateStore.getState();
+    const diff = platformRate - rate;
+    const isLockWindow = isLockPriceWindow(new Date(), getPairConfig(pair));
+
+    // Track consecutive expansions
+    if (previousDiff !== null) {
+      if (Math.abs(diff) > Math.abs(previousDiff)) {
+        store.incrementExpansions();
+      } else {
+        store.resetExpansions();
+      }
+    }
+    previousDiff = diff;
+
+    const assessment = assessRisk(
+      diff,
+      { isLockWindow, consecutiveExpansions: rateStore.getState().consecutiveExpansions, costBuffer },
+      riskRules
+    );
+    const snapshot = { pair, diff, marketRate: rate, platformRate, isLockWindow, timestamp: Date.now() };
+    trackRiskAssessment(assessment, snapshot);
+    store.trackAlertIncident(assessment, snapshot);
+
+    // Add to history only when rate has changed (4 decimal places check)
+    const currentHistory = rateStore.getState().rateHistory;
+    const lastRecord = currentHistory[currentHistory.length - 1];
+
+    const rate4 = Number(rate.toFixed(4));
+    const platformRate4 = Number(platformRate.toFixed(4));
+
+    const isRateChanged = !lastRecord || Number(lastRecord.marketRate.toFixed(4)) !== rate4;
+    const isPlatformChanged = !lastRecord || Number(lastRecord.platformRate.toFixed(4)) !== platformRate4;
+
+    const recorded = isRateChanged || isPlatformChanged;
+    if (recorded) {
+      store.addRateRecord({
+        timestamp: snapshot.timestamp,
+        marketRate: rate,
+        platformRate,
+        diff,
+        riskLevel: assessment.level,
+        riskSide: assessment.side,
+      });
+    }
+
+    // Capture the lock-time rate even when the rate itself has not moved
+    store.snapshotLockTimeRate(rate);
+
+    return { consensus, diff, assessment, recorded };
+  };
+
+  return { tick };
+}
+
+export async function writeHeartbeat(pair: PairId, host: string, consensus: RateConsensus, diff: number): Promise<void> {
+  const { consecutiveExpansions } = getRateStore(pair).getState();
+  const heartbeat: MonitorHeartbeat = {
+    at: Date.now(),
+    host,
+    consensus,
+    diff,
+    consecutiveExpansions,
+  };
+  const { error } = await supabase.from('app_settings').upsert({
+    key: getPairSettingKey(pair, HEARTBEAT_KEY),
+    value: JSON.stringify(heartbeat),
+  }, { onConflict: 'key' });
+  if (error) throw error;
+}
+
+export async function fetchHeartbeat(pair: PairId): Promise<MonitorHeartbeat | null> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', getPairSettingKey(pair, HEARTBEAT_KEY))
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  try {
+    return JSON.parse(data.value) as MonitorHeartbeat;
+  } catch {
+    return null;
+  }
+}
+
+// A new monitor process (every run under --once) carries on from the last
+// run: its diff and expansion streak from the heartbeat, or failing that the
+// newest stored sample. Returns the diff to compare the first tick against.
+export async function resumeMonitorState(pair: PairId, now: number = Date.now()): Promise<number | null> {
+  const rateStore = getRateStore(pair);
+  let heartbeat: MonitorHeartbeat | null = null;
+  try {
+    heartbeat = await fetchHeartbeat(pair);
+  } catch (error) {
+    console.error('Failed to read the last heartbeat:', error);
+  }
+  if (heartbeat && now - heartbeat.at < RESUME_MAX_AGE_MS) {
+    rateStore.setState({ consecutiveExpansions: heartbeat.consecutiveExpansions });
+    if (heartbeat.diff !== undefined) return heartbeat.diff;
+  }
+  const history = rateStore.getState().rateHistory;
+  const lastRecord = history[history.length - 1];
+  return lastRecord && now - lastRecord.timestamp < RESUME_MAX_AGE_MS ? lastRecord.diff : null;
+}
+
+export function isHeartbeatFresh(heartbeat: MonitorHeartbeat | null, now: number = Date.now()): boolean {
+  return !!heartbeat && now - heartbeat.at < HEARTBEAT_MAX_AGE_MS;
+}
+
+// Reader side of the dashboard: pull what the headless monitor wrote since the
+// last sample we hold. Risk is still tracked locally because desktop
+// notifications belong to this browser.
+export async function followMonitor(pair: PairId, heartbeat: MonitorHeartbeat): Promise<RiskAssessment> {
+  const rateStore = getRateStore(pair);
+  const store = rateStore.getState();
+  store.setConsensus(heartbeat.consensus);
+  rateStore.setState({ consecutiveExpansions: heartbeat.consecutiveExpansions });
+
+  await store.pullRecentData();
+  await store.loadAlertHistory();
+  store.refreshPlatformRate();
+
+  const { platformRate, costBuffer, riskRules } = rateStore.getState();
+  const rate = heartbeat.consensus.rate;
+  const diff = platformRate - rate;
+  const isLockWindow = isLockPriceWindow(new Date(), getPairConfig(pair));
+  const assessment = assessRisk(
+    diff,
+    { isLockWindow, consecutiveExpansions: heartbeat.consecutiveExpansions, costBuffer },
+    riskRules
+  );
+  trackRiskAssessment(assessment, { pair, diff, marketRate: rate, platformRate, isLockWindow, timestamp: heartbeat.at });
+  return assessment;
+}
@@ -0,0 +1,120 @@
+// Desktop notifications for risk transitions, delivered through the service worker
+
+import { isEscalation, RiskTransition } from './riskTransitions';
+import { getPairConfig, getTimeZoneLabel, PairId } from '../utils/pairs';
+import { getRiskIcon, getRiskText, formatLocalTime } from '../utils/rateUtils';
+import { getSideText, RiskLevel } from '../utils/riskRules';
+
+export type NotificationAction = 'ack' | 'snooze' | 'open';
+
+export interface NotificationPreferences {
+  levels: RiskLevel[]; // levels the operator opted into; 'safe' means recovery notices
+  snoozedUntil: number;
+}
+
+export const SNOOZE_DURATION_MS = 15 * 60 * 1000;
+
+// Action buttons and renotify are not in the DOM lib typings yet
+type RiskNotificationOptions = NotificationOptions & {
+  actions?: { action: NotificationAction; title: string }[];
+  renotify?: boolean;
+};
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export function registerNotificationWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!registrationPromise) {
+    registrationPromise = typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+      ? navigator.serviceWorker
+        .register(`${import.meta.env.BASE_URL}sw.js`)
+        .catch(error => {
+          console.error('Service worker registration failed:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registrationPromise;
+}
+
+export function shouldNotify(
+  transition: RiskTransition,
+  preferences: NotificationPreferences,
+  now: number = Date.now()
+): boolean {
+  if (now < preferences.snoozedUntil) return false;
+  if (!preferences.levels.includes(transition.to.level)) return false;
+  // Recovery is its own opt-in; otherwise only escalations are worth a popup
+  if (transition.to.level === 'safe') return transition.from.level !== 'safe';
+  return isEscalation(transition);
+}
+
+export function buildRiskNotification(transition: RiskTransition): { title: string; options: RiskNotificationOptions } {
+  const { pair, to, diff, marketRate, platformRate, isLockWindow, timestamp } = transition;
+  const pairConfig = getPairConfig(pair);
+  const spread = (diff >= 0 ? '+' : '') + diff.toFixed(4);
+
+  if (to.level === 'safe') {
+    return {
+      title: `✓ ${pairConfig.label} 点差已恢复安全`,
+      options: {
+        body: `点差 ${spread} ${pair} · 市场 ${marketRate.toFixed(4)} / 平台 ${platformRate.toFixed(4)}`,
+        tag: `risk-alert-${pair}`,
+        data: { pair, level: to.level, side: to.side, timestamp },
+      },
+    };
+  }
+
+  const sideText = to.side ? `${getSideText(to.side)} · ` : '';
+  return {
+    title: `${getRiskIcon(to.level)} ${pairConfig.label} ${getRiskText(to.level, to.side)}告警`,
+    options: {
+      body: `${sideText}点差 ${spread} ${pair}\n市场 ${marketRate.toFixed(4)} / 平台 ${platformRate.toFixed(4)}\n`
+        + `${formatLocalTime(new Date(timestamp), 'HH:mm:ss', pairConfig.utcOffset)} (${getTimeZoneLabel(pairConfig)})${isLockWindow ? ' · 锁价时段' : ''}`,
+      tag: `risk-alert-${pair}`,
+      renotify: true,
+      requireInteraction: to.level === 'critical',
+      data: { pair, level: to.level, side: to.side, timestamp },
+      actions: [
+        { action: 'ack', title: '我已知晓' },
+        { action: 'snooze', title: '静音 15 分钟' },
+      ],
+    },
+  };
+}
+
+export async function dispatchRiskNotification(
+  transition: RiskTransition,
+  preferences: NotificationPreferences
+): Promise<boolean> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  if (!shouldNotify(transition, preferences)) return false;
+
+  const { title, options } = buildRiskNotification(transition);
+  try {
+    const registration = await registerNotificationWorker();
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      // Without a worker there are no action buttons, but the alert still shows
+      new Notification(title, options);
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+    return false;
+  }
+}
+
+export function onNotificationAction(
+  handler: (action: NotificationAction, data: { pair?: PairId; level: RiskLevel; timestamp: number } | null) => void
+): () => void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return () => undefined;
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-action') {
+      handler(event.data.action, event.data.data);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
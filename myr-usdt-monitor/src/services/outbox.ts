@@ -0,0 +1,262 @@
+// Durable outbox for Supabase writes
+//
+// Every write is queued (IndexedDB in the browser, memory in the headless
+// monitor) and replayed in insertion order. A write can land while its
+// response is lost, so every operation is safe to run twice: rows go in as
+// upserts on their natural key, updates and deletes match on a key.
+//
+// A failing entry backs off exponentially and holds back the later entries for
+// the same table (e.g. an alert's acknowledgement behind the alert itself);
+// other tables keep syncing. After MAX_ATTEMPTS it is marked 'failed' and
+// still holds them back until it is retried from the header. Coming back
+// online retries failed entries too and replays the queue immediately, since
+// an outage longer than the backoff budget fails everything queued during it.
+
+import { supabase } from '../lib/supabase';
+
+export type OutboxOperation =
+  | {
+    action: 'upsert';
+    table: string;
+    rows: Record<string, unknown>[];
+    onConflict: string;
+    ignoreDuplicates?: boolean; // insert-only tables: keep the row that already landed
+  }
+  | {
+    action: 'update';
+    table: string;
+    values: Record<string, unknown>;
+    match: Record<string, unknown>;
+    onlyIfNull?: string; // skip rows where this column is already set
+  }
+  | { action: 'delete'; table: string; match: Record<string, unknown> };
+
+export interface OutboxEntry {
+  id?: number;
+  operation: OutboxOperation;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+interface OutboxStorage {
+  add: (entry: OutboxEntry) => Promise<void>;
+  list: () => Promise<OutboxEntry[]>; // in insertion order
+  put: (entry: OutboxEntry) => Promise<void>;
+  remove: (id: number) => Promise<void>;
+}
+
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+const DB_NAME = 'myr-usdt-monitor';
+const STORE_NAME = 'outbox';
+const LOCK_NAME = 'myr-usdt-monitor:outbox';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbStorage(): OutboxStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    add: async (entry) => {
+      await withStore('readwrite', store => store.add(entry));
+    },
+    list: () => withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>),
+    put: async (entry) => {
+      await withStore('readwrite', store => store.put(entry));
+    },
+    remove: async (id) => {
+      await withStore('readwrite', store => store.delete(id));
+    },
+  };
+}
+
+// The headless monitor has no IndexedDB; it retries in memory while it runs
+function createMemoryStorage(): OutboxStorage {
+  let entries: OutboxEntry[] = [];
+  let nextId = 1;
+  return {
+    add: async (entry) => {
+      entries.push({ ...entry, id: nextId++ });
+    },
+    list: async () => entries.map(entry => ({ ...entry })),
+    put: async (entry) => {
+      entries = entries.map(e => (e.id === entry.id ? { ...entry } : e));
+    },
+    remove: async (id) => {
+      entries = entries.filter(e => e.id !== id);
+    },
+  };
+}
+
+const storage: OutboxStorage = typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createMemoryStorage();
+const listeners = new Set<(counts: OutboxCounts) => void>();
+let flushing: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+async function executeOperation(operation: OutboxOperation): Promise<void> {
+  const table = supabase.from(operation.table);
+  let result;
+  switch (operation.action) {
+    case 'upsert':
+      result = await table.upsert(operation.rows, {
+        onConflict: operation.onConflict,
+        ignoreDuplicates: operation.ignoreDuplicates ?? false,
+      });
+      break;
+    case 'update': {
+      let query = table.update(operation.values).match(operation.match);
+      if (operation.onlyIfNull) query = query.is(operation.onlyIfNull, null);
+      result = await query;
+      break;
+    }
+    case 'delete':
+      result = await table.delete().match(operation.match);
+      break;
+  }
+  if (result.error) throw new Error(result.error.message);
+}
+
+export async function getOutboxCounts(): Promise<OutboxCounts> {
+  const entries = await storage.list();
+  return {
+    pending: entries.filter(e => e.status === 'pending').length,
+    failed: entries.filter(e => e.status === 'failed').length,
+  };
+}
+
+async function notify(): Promise<OutboxCounts> {
+  const counts = await getOutboxCounts();
+  listeners.forEach(listener => listener(counts));
+  return counts;
+}
+
+export function onOutboxChange(listener: (counts: OutboxCounts) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function scheduleFlush(entries: OutboxEntry[]): void {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  // Earliest due entry of any table, so one backed-off table delays no other
+  const pending = entries.filter(e => e.status === 'pending');
+  if (pending.length === 0) return;
+  const nextAttemptAt = Math.min(...pending.map(e => e.nextAttemptAt));
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushOutbox();
+  }, Math.max(0, nextAttemptAt - Date.now()));
+}
+
+// Tabs share the IndexedDB queue, so only one of them replays it at a time
+function withOutboxLock(run: () => Promise<void>): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, run);
+  }
+  return run();
+}
+
+async function replay(force: boolean): Promise<void> {
+  const entries = await storage.list();
+  // Tables with an earlier entry still waiting; their later entries must wait too
+  const held = new Set<string>();
+  for (const entry of entries) {
+    const { table } = entry.operation;
+    if (held.has(table)) continue;
+    if (entry.status === 'failed' || (!force && entry.nextAttemptAt > Date.now())) {
+      held.add(table);
+      continue;
+    }
+    try {
+      await executeOperation(entry.operation);
+      await storage.remove(entry.id!);
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const status = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+      await storage.put({
+        ...entry,
+        attempts,
+        status,
+        nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      if (status === 'failed') {
+        console.error(`Outbox write to ${table} failed permanently:`, error);
+      }
+      held.add(table);
+    }
+  }
+}
+
+// Replay due entries in order; force ignores the backoff (e.g. back online)
+export function flushOutbox(force = false): Promise<void> {
+  if (flushing) return flushing;
+  flushing = withOutboxLock(() => replay(force))
+    .catch(error => console.error('Outbox replay failed:', error))
+    .finally(async () => {
+      flushing = null;
+      await notify();
+      scheduleFlush(await storage.list());
+    });
+  return flushing;
+}
+
+export async function enqueueWrite(operation: OutboxOperation): Promise<void> {
+  const now = Date.now();
+  await storage.add({ operation, createdAt: now, attempts: 0, nextAttemptAt: now, status: 'pending' });
+  await notify();
+  flushOutbox();
+}
+
+export async function retryFailedWrites(): Promise<void> {
+  const entries = await storage.list();
+  await Promise.all(entries
+    .filter(e => e.status === 'failed')
+    .map(e => storage.put({ ...e, status: 'pending', attempts: 0, nextAttemptAt: Date.now() })));
+  await flushOutbox(true);
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    retryFailedWrites().catch(error => {
+      console.error('Failed to replay outbox after reconnect:', error);
+    });
+  });
+  // Pick up whatever a previous session left behind
+  flushOutbox();
+}
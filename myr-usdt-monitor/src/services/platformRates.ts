@@ -0,0 +1,93 @@
+// Dated platform-rate ledger
+//
+// The platform locks one rate per business date. A ledger row says which rate
+// applies on a date and from when it takes over: normally the lock time on the
+// evening before, when the next day's rate is fixed. The rate in force at any
+// moment is the row with the latest effective time that has passed, so records,
+// daily stats and charts can refer to the rate that actually applied.
+
+import { supabase } from '../lib/supabase';
+import { getLockTimestamp } from '../utils/dailyStats';
+import type { PairId } from '../utils/pairs';
+import { getBusinessDateKey, getBusinessDayRange } from '../utils/rateUtils';
+
+export interface PlatformRateEntry {
+  date: string; // business date (yyyy-MM-dd, desk local time)
+  rate: number;
+  effectiveFrom: number;
+  setBy: string | null;
+  setAt: number;
+}
+
+// Calendar arithmetic, so any fixed offset works
+export function getPreviousDateKey(date: string): string {
+  return getBusinessDateKey(new Date(getBusinessDayRange(date, 0).start - 1), 0);
+}
+
+export function getNextDateKey(date: string): string {
+  return getBusinessDateKey(new Date(getBusinessDayRange(date, 0).end + 1), 0);
+}
+
+// A date's rate takes over at the lock time on the day before
+export function getScheduledEffectiveFrom(date: string, lockTime: string, utcOffset: number): number {
+  return getLockTimestamp(getPreviousDateKey(date), lockTime, utcOffset);
+}
+
+// Ledger rows sorted by date; effective times follow the same order
+export function mergeRateEntries(entries: PlatformRateEntry[], incoming: PlatformRateEntry[]): PlatformRateEntry[] {
+  const byDate = new Map(entries.map(e => [e.date, e]));
+  incoming.forEach(e => byDate.set(e.date, e));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function findRateEntryAt(entries: PlatformRateEntry[], timestamp: number): PlatformRateEntry | null {
+  let found: PlatformRateEntry | null = null;
+  for (const entry of entries) {
+    if (entry.effectiveFrom > timestamp) continue;
+    if (!found || entry.effectiveFrom >= found.effectiveFrom) found = entry;
+  }
+  return found;
+}
+
+// The day's own row, else whatever was carried over into it
+export function findRateForDate(entries: PlatformRateEntry[], date: string, utcOffset: number): number | undefined {
+  const own = entries.find(e => e.date === date);
+  if (own) return own.rate;
+  return findRateEntryAt(entries, getBusinessDayRange(date, utcOffset).start)?.rate;
+}
+
+export function getNextSwitchAt(entries: PlatformRateEntry[], now: number = Date.now()): number | null {
+  const upcoming = entries.map(e => e.effectiveFrom).filter(at => at > now);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+}
+
+export function toPlatformRateRow(entry: PlatformRateEntry, pair: PairId) {
+  return {
+    pair,
+    date: entry.date,
+    rate: entry.rate,
+    effective_from: entry.effectiveFrom,
+    set_by: entry.setBy,
+    set_at: entry.setAt,
+  };
+}
+
+export function fromPlatformRateRow(row: any): PlatformRateEntry {
+  return {
+    date: row.date,
+    rate: row.rate,
+    effectiveFrom: Number(row.effective_from),
+    setBy: row.set_by ?? null,
+    setAt: Number(row.set_at),
+  };
+}
+
+export async function fetchPlatformRates(pair: PairId): Promise<PlatformRateEntry[]> {
+  const { data, error } = await supabase
+    .from('platform_rates')
+    .select('*')
+    .eq('pair', pair)
+    .order('date', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(fromPlatformRateRow);
+}
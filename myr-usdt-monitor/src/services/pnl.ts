@@ -0,0 +1,225 @@
+// Spread P&L and exposure
+//
+// Operators record customer flows: deposits are USDT we sell at the platform
+// rate, withdrawals USDT we buy back at it. Each flow is priced against the
+// market sample in force at its timestamp, net of the cost buffer:
+//
+//   realized   = deposits × (platform − market − buffer)
+//              + withdrawals × (market − platform − buffer)
+//
+// The day's net deposits are exposure still to be covered in the market. It is
+// marked at the day's closing market rate (the latest rate for today), so a
+// market that rises after we sold loses money:
+//
+//   unrealized = (deposits − withdrawals) × (market at flow − market at close)
+//
+// The desk squares its position daily, so exposure does not carry over.
+
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { createUuid } from '../lib/utils';
+import type { RateRecord } from '../store/rateStore';
+import { parseCSV } from '../utils/importFormats';
+import type { PairId } from '../utils/pairs';
+import { getBusinessDateKey, getBusinessDayRange, parseLocalDateTime } from '../utils/rateUtils';
+
+export interface PnlFlow {
+  id: string;
+  timestamp: number; // transaction time, or the start of an hourly total
+  deposits: number; // USDT
+  withdrawals: number; // USDT
+  note: string | null;
+  source: 'manual' | 'import';
+  createdBy: string | null;
+}
+
+export interface DailyPnl {
+  date: string;
+  deposits: number;
+  withdrawals: number;
+  exposure: number; // net USDT to cover; negative when customers withdrew more
+  realized: number; // pair fiat
+  unrealized: number; // pair fiat
+  total: number;
+  markRate: number | null; // market rate the exposure is marked at
+  unpriced: number; // flows with no market sample at or before them
+}
+
+const flowInputSchema = z
+  .object({
+    timestamp: z.number().int().positive('时间无效'),
+    deposits: z.number().min(0, '入金不能为负'),
+    withdrawals: z.number().min(0, '出金不能为负'),
+    note: z.string().max(200, '备注不能超过 200 字').nullable(),
+  })
+  .refine(flow => flow.deposits > 0 || flow.withdrawals > 0, '入金和出金不能同时为 0');
+
+export type PnlFlowInput = Pick<PnlFlow, 'timestamp' | 'deposits' | 'withdrawals' | 'note'>;
+
+export function validateFlowInput(input: unknown): { flow: PnlFlowInput | null; errors: string[] } {
+  const result = flowInputSchema.safeParse(input);
+  if (result.success) return { flow: result.data as PnlFlowInput, errors: [] };
+  return { flow: null, errors: result.error.issues.map(issue => issue.message) };
+}
+
+export function createPnlFlow(input: PnlFlowInput, source: PnlFlow['source'], createdBy: string | null): PnlFlow {
+  return { id: createUuid(), ...input, source, createdBy };
+}
+
+// 'yyyy-MM-dd HH:mm[:ss]' in desk local time, ISO 8601 with an offset, or epoch milliseconds
+export function parseFlowTime(value: string, utcOffset: number): number | null {
+  const text = value.trim();
+  if (/^\d{12,}$/.test(text)) return Number(text);
+  const local = parseLocalDateTime(text, utcOffset);
+  if (local !== null) return local;
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : parsed;
+}
+
+const CSV_COLUMNS: Record<string, 'time' | 'deposits' | 'withdrawals' | 'note'> = {
+  time: 'time',
+  timestamp: 'time',
+  时间: 'time',
+  deposits: 'deposits',
+  deposit: 'deposits',
+  入金: 'deposits',
+  withdrawals: 'withdrawals',
+  withdrawal: 'withdrawals',
+  出金: 'withdrawals',
+  note: 'note',
+  备注: 'note',
+};
+
+// Header row required; columns may come in any order
+export function parseFlowCsv(text: string, utcOffset: number): { flows: PnlFlowInput[]; errors: string[] } {
+  const rows = parseCSV(text);
+  if (rows.length < 2) return { flows: [], errors: ['文件为空或缺少表头'] };
+
+  const header = rows[0].map(cell => CSV_COLUMNS[cell.trim().toLowerCase()]);
+  if (!header.includes('time') || (!header.includes('deposits') && !header.includes('withdrawals'))) {
+    return { flows: [], errors: ['表头需包含 时间 以及 入金 / 出金 列'] };
+  }
+
+  const flows: PnlFlowInput[] = [];
+  const errors: string[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const field = (name: string) => {
+      const column = header.indexOf(name as typeof header[number]);
+      return column >= 0 ? (cells[column] ?? '').trim() : '';
+    };
+    const timestamp = parseFlowTime(field('time'), utcOffset);
+    const { flow, errors: rowErrors } = validateFlowInput({
+      timestamp: timestamp ?? 0,
+      deposits: Number(field('deposits') || 0),
+      withdrawals: Number(field('withdrawals') || 0),
+      note: field('note') || null,
+    });
+    if (flow) {
+      flows.push(flow);
+    } else {
+      errors.push(`第 ${index + 2} 行: ${rowErrors.join('，')}`);
+    }
+  });
+  return { flows, errors };
+}
+
+// Last record at or before the timestamp; records are in time order
+export function findRecordAt(records: RateRecord[], timestamp: number): RateRecord | null {
+  let low = 0;
+  let high = records.length - 1;
+  let found: RateRecord | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (records[mid].timestamp <= timestamp) {
+      found = records[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+export function buildDailyPnl(
+  flows: PnlFlow[],
+  records: RateRecord[],
+  costBuffer: number,
+  utcOffset: number,
+  now: number = Date.now()
+): DailyPnl[] {
+  const byDate = new Map<string, PnlFlow[]>();
+  flows.forEach(flow => {
+    const date = getBusinessDateKey(new Date(flow.timestamp), utcOffset);
+    byDate.set(date, [...(byDate.get(date) ?? []), flow]);
+  });
+
+  return [...byDate.entries()]
+    .map(([date, dayFlows]) => {
+      const mark = findRecordAt(records, Math.min(getBusinessDayRange(date, utcOffset).end, now));
+      const day: DailyPnl = {
+        date,
+        deposits: 0,
+        withdrawals: 0,
+        exposure: 0,
+        realized: 0,
+        unrealized: 0,
+        total: 0,
+        markRate: mark?.marketRate ?? null,
+        unpriced: 0,
+      };
+      dayFlows.forEach(flow => {
+        day.deposits += flow.deposits;
+        day.withdrawals += flow.withdrawals;
+        const record = findRecordAt(records, flow.timestamp);
+        if (!record) {
+          day.unpriced++;
+          return;
+        }
+        const { marketRate, platformRate } = record;
+        day.realized += flow.deposits * (platformRate - marketRate - costBuffer)
+          + flow.withdrawals * (marketRate - platformRate - costBuffer);
+        if (mark) day.unrealized += (flow.deposits - flow.withdrawals) * (marketRate - mark.marketRate);
+      });
+      day.exposure = day.deposits - day.withdrawals;
+      day.total = day.realized + day.unrealized;
+      return day;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function toPnlFlowRow(flow: PnlFlow, pair: PairId) {
+  return {
+    pair,
+    id: flow.id,
+    timestamp: flow.timestamp,
+    deposits: flow.deposits,
+    withdrawals: flow.withdrawals,
+    note: flow.note,
+    source: flow.source,
+    created_by: flow.createdBy,
+  };
+}
+
+export function fromPnlFlowRow(row: any): PnlFlow {
+  return {
+    id: row.id,
+    timestamp: Number(row.timestamp),
+    deposits: row.deposits,
+    withdrawals: row.withdrawals,
+    note: row.note ?? null,
+    source: row.source,
+    createdBy: row.created_by ?? null,
+  };
+}
+
+export async function fetchPnlFlows(pair: PairId, start: number, end: number): Promise<PnlFlow[]> {
+  const { data, error } = await supabase
+    .from('pnl_flows')
+    .select('*')
+    .eq('pair', pair)
+    .gte('timestamp', start)
+    .lte('timestamp', end)
+    .order('timestamp', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(fromPnlFlowRow);
+}
@@ -1,101 +1,146 @@
-// Rate API service with multiple fallback sources
+// Rate API service on top of the USDT quote source registry
 
-// USDT is typically very close to 1 USD, so we use USD/MYR as base
-// Then USDT/MYR ≈ USD/MYR * 1.00 (with small variation)
+import { getRateSources, getHistoricalRateSource, RateQuote, RateSource } from './rateSources';
+import type { PairId } from '../utils/pairs';
 
-interface RateSource {
-  name: string;
-  fetch: () => Promise<number>;
+export type { RateQuote } from './rateSources';
+
+export interface DroppedQuote {
+  source: string;
+  reason: string;
+  quote?: RateQuote;
 }
 
-// Source 1: ExchangeRate API (free, CORS-enabled)
-async function fetchFromExchangeRateAPI(): Promise<number> {
-  const response = await fetch(
-    'https://api.exchangerate-api.com/v4/latest/USD'
-  );
-  if (!response.ok) throw new Error('ExchangeRate API failed');
-  const data = await response.json();
-  // USD/MYR rate, USDT ≈ USD with slight premium
-  return data.rates.MYR * 1.002; // 0.2% typical USDT premium
+export interface RateConsensus {
+  rate: number;
+  quotes: RateQuote[];
+  dropped: DroppedQuote[];
+  confidence: number; // 0 - 1
+  timestamp: number;
 }
 
-// Source 2: Open Exchange Rates (backup)
-async function fetchFromOpenExchangeRates(): Promise<number> {
-  const response = await fetch(
-    'https://open.er-api.com/v6/latest/USD'
-  );
-  if (!response.ok) throw new Error('Open ER API failed');
-  const data = await response.json();
-  return data.rates.MYR * 1.002;
+export interface ConsensusOptions {
+  timeoutMs: number;
+  maxDeviation: number; // relative distance from the median, e.g. 0.005 = 0.5%
+  weights: Record<string, number>;
 }
 
-// Source 3: Frankfurter API (ECB data)
-async function fetchFromFrankfurter(): Promise<number> {
-  const response = await fetch(
-    'https://api.frankfurter.app/latest?from=USD&to=MYR'
-  );
-  if (!response.ok) throw new Error('Frankfurter API failed');
-  const data = await response.json();
-  return data.rates.MYR * 1.002;
+export const DEFAULT_CONSENSUS_OPTIONS: ConsensusOptions = {
+  timeoutMs: 5000,
+  maxDeviation: 0.005,
+  weights: {},
+};
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
 }
 
-// Source 4: Currency API (another backup)
-async function fetchFromCurrencyAPI(): Promise<number> {
-  const response = await fetch(
-    'https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json'
-  );
-  if (!response.ok) throw new Error('Currency API failed');
-  const data = await response.json();
-  return data.usd.myr * 1.002;
+// Run one source with its own deadline; the abort signal is threaded into fetch
+async function fetchWithTimeout(source: RateSource, pair: PairId, timeoutMs: number): Promise<RateQuote> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const timedFetch: typeof fetch = (input, init) => fetch(input, { ...init, signal: controller.signal });
+
+  try {
+    return await source.fetchQuote(pair, timedFetch);
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
-const rateSources: RateSource[] = [
-  { name: 'ExchangeRate API', fetch: fetchFromExchangeRateAPI },
-  { name: 'Open ER API', fetch: fetchFromOpenExchangeRates },
-  { name: 'Currency API', fetch: fetchFromCurrencyAPI },
-  { name: 'Frankfurter', fetch: fetchFromFrankfurter },
-];
-
-// Try each source until one succeeds
-export async function fetchUSDTMYRRate(): Promise<number> {
-  let lastError: Error | null = null;
-
-  for (const source of rateSources) {
-    try {
-      console.log(`Trying ${source.name}...`);
-      const rate = await source.fetch();
-      console.log(`Success from ${source.name}: ${rate}`);
-      return rate;
-    } catch (error) {
-      console.warn(`${source.name} failed:`, error);
-      lastError = error as Error;
+// Median-anchored consensus: quotes further than maxDeviation from the median are
+// dropped and the remaining mids are averaged with the configured source weights.
+export function computeConsensus(
+  quotes: RateQuote[],
+  failed: DroppedQuote[] = [],
+  options: ConsensusOptions = DEFAULT_CONSENSUS_OPTIONS
+): RateConsensus {
+  if (quotes.length === 0) {
+    throw new Error(failed.length > 0
+      ? `All rate sources failed: ${failed.map(f => `${f.source} (${f.reason})`).join(', ')}`
+      : 'No rate sources configured');
+  }
+
+  const median = medianOf(quotes.map(q => q.mid));
+  const dropped: DroppedQuote[] = [...failed];
+  let accepted = quotes.filter(q => {
+    const deviation = Math.abs(q.mid - median) / median;
+    if (deviation > options.maxDeviation) {
+      dropped.push({ source: q.source, reason: `deviation ${(deviation * 100).toFixed(2)}%`, quote: q });
+      return false;
     }
+    return true;
+  });
+
+  // Without a majority (e.g. two sources that disagree) nothing can be ruled out,
+  // so keep every quote and report zero confidence instead.
+  const agreed = accepted.length > 0;
+  if (!agreed) {
+    accepted = quotes;
+    dropped.splice(failed.length);
   }
 
-  // If all sources fail, throw the last error
-  throw lastError || new Error('All rate sources failed');
+  const weightOf = (q: RateQuote) => options.weights[q.source] ?? 1;
+  const totalWeight = accepted.reduce((sum, q) => sum + weightOf(q), 0);
+  const rate = accepted.reduce((sum, q) => sum + q.mid * weightOf(q), 0) / totalWeight;
+
+  // Confidence blends source coverage with how tightly the accepted quotes agree
+  const totalSources = quotes.length + failed.length;
+  const coverage = accepted.length / totalSources;
+  const mids = accepted.map(q => q.mid);
+  const dispersion = (Math.max(...mids) - Math.min(...mids)) / rate;
+  const tightness = 1 - Math.min(1, dispersion / (options.maxDeviation || 1));
+  const confidence = agreed ? coverage * (0.5 + 0.5 * tightness) : 0;
+
+  return {
+    rate,
+    quotes: accepted,
+    dropped,
+    confidence,
+    timestamp: Date.now(),
+  };
 }
 
-// Fetch historical rates (simulated based on current rate with realistic variation)
-export async function fetchHistoricalRate(days: number = 7): Promise<{ timestamp: number; rate: number }[]> {
-  try {
-    const currentRate = await fetchUSDTMYRRate();
-    const history: { timestamp: number; rate: number }[] = [];
-    const now = Date.now();
-    const dayMs = 24 * 60 * 60 * 1000;
-
-    for (let d = days; d >= 0; d--) {
-      // Generate realistic daily variation (±0.5%)
-      const variation = (Math.random() - 0.5) * 0.01 * currentRate;
-      history.push({
-        timestamp: now - d * dayMs,
-        rate: currentRate + variation,
-      });
+// Query every source listing the pair in parallel and reduce them to a consensus rate
+export async function fetchUSDTRate(
+  pair: PairId,
+  options: Partial<ConsensusOptions> = {}
+): Promise<RateConsensus> {
+  const resolved = { ...DEFAULT_CONSENSUS_OPTIONS, ...options };
+  const sources = getRateSources(pair);
+  const results = await Promise.allSettled(
+    sources.map(source => fetchWithTimeout(source, pair, resolved.timeoutMs))
+  );
+
+  const quotes: RateQuote[] = [];
+  const failed: DroppedQuote[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      quotes.push(result.value);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.warn(`${sources[i].name} failed:`, reason);
+      failed.push({ source: sources[i].id, reason });
     }
+  });
 
-    return history;
-  } catch (error) {
-    console.error('Failed to generate historical data:', error);
-    throw error;
-  }
+  return computeConsensus(quotes, failed, resolved);
+}
+
+// Fetch real historical quotes from the first source with a time-series endpoint
+export async function fetchHistoricalRate(pair: PairId, start: number, end: number): Promise<RateQuote[]> {
+  const source = getHistoricalRateSource(pair);
+  if (!source?.fetchHistory) throw new Error(`No historical rate source configured for ${pair}`);
+
+  const history = await source.fetchHistory(pair, start, end);
+  return history
+    .filter(quote => quote.timestamp >= start && quote.timestamp <= end)
+    .sort((a, b) => a.timestamp - b.timestamp);
 }
@@ -0,0 +1,226 @@
+// Import of historical observations from CSV/XLSX into rate_history
+//
+// The operator maps the file's columns to time, market rate and (optionally)
+// platform rate. Times are read in the pair's business timezone. Each row is
+// validated, rows sharing a second with an earlier row or falling within a
+// minute of a stored observation are dropped (spreadsheets round to the minute,
+// live samples carry milliseconds), and the rest are assessed with the current risk
+// rules like backfilled quotes. Nothing is written until the preview is
+// confirmed; daily stats for the touched dates are then recomputed.
+
+import { z } from 'zod';
+import type { RateRecord } from '../store/rateStore';
+import type { PairConfig } from '../utils/pairs';
+import { RiskRule } from '../utils/riskRules';
+import { parseCSV, readXLSX } from '../utils/importFormats';
+import { assessRisk, getBusinessDateKey, isLockPriceWindow, parseLocalDateTime } from '../utils/rateUtils';
+import { fetchRateTimestamps, insertRateRecords } from './rateRepository';
+import { findRateEntryAt, PlatformRateEntry } from './platformRates';
+
+export type ImportField = 'time' | 'marketRate' | 'platformRate';
+
+export type ColumnMapping = Record<ImportField, number | null>; // column index in the file
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, header included
+  timestamp: number;
+  marketRate: number;
+  platformRate: number | null;
+}
+
+export interface ImportPlan {
+  records: RateRecord[];
+  invalid: string[];
+  duplicatesInFile: number;
+  existing: number;
+  dates: string[]; // business dates the new records fall on
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+// A row this close to a stored observation is taken to be the same one
+const STORED_MATCH_WINDOW_MS = 60 * 1000;
+
+// Excel stores dates as days since 1899-12-30; anything this small is one
+const EXCEL_SERIAL_LIMIT = 1000000;
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+const HEADER_ALIASES: Record<string, ImportField> = {
+  time: 'time',
+  timestamp: 'time',
+  date: 'time',
+  datetime: 'time',
+  时间: 'time',
+  日期: 'time',
+  market: 'marketRate',
+  market_rate: 'marketRate',
+  marketrate: 'marketRate',
+  rate: 'marketRate',
+  市场汇率: 'marketRate',
+  当前市场汇率: 'marketRate',
+  platform: 'platformRate',
+  platform_rate: 'platformRate',
+  platformrate: 'platformRate',
+  平台汇率: 'platformRate',
+};
+
+const importRowSchema = z.object({
+  line: z.number(),
+  timestamp: z
+    .number({ invalid_type_error: '时间无法识别' })
+    .int()
+    .positive('时间无法识别')
+    .refine(t => t <= Date.now(), '时间不能晚于当前'),
+  marketRate: z.number({ invalid_type_error: '市场汇率不是数字' }).positive('市场汇率必须大于 0'),
+  platformRate: z.number({ invalid_type_error: '平台汇率不是数字' }).positive('平台汇率必须大于 0').nullable(),
+});
+
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const rows = /\.xlsx$/i.test(file.name) ? await readXLSX(await file.arrayBuffer()) : parseCSV(await file.text());
+  if (rows.length < 2) throw new Error('文件为空或缺少表头');
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  return { fileName: file.name, headers: pad(rows[0]).map(h => h.trim()), rows: rows.slice(1).map(pad) };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { time: null, marketRate: null, platformRate: null };
+  headers.forEach((header, index) => {
+    // Exported files add the timezone to the header, e.g. '日期 (GMT+8)'
+    const field = HEADER_ALIASES[header.toLowerCase().replace(/\s*\(.*\)$/, '').replace(/\s+/g, '')];
+    if (field && mapping[field] === null) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// ISO 8601 with an explicit offset ('Z', '+08:00')
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// Desk-local 'yyyy-M-d[ H:mm[:ss]]' (or with '/'), ISO 8601 with an offset,
+// epoch milliseconds, or an Excel serial date (desk local). Anything else, such
+// as day-first or month-first dates, is ambiguous and left unparsed.
+export function parseImportTime(value: string, utcOffset: number): number | null {
+  const text = value.trim().replace(/\s*\((?:GMT|UTC)[+-][\d:.]+\)$/, '');
+  if (/^\d+(\.\d+)?$/.test(text) && Number(text) < EXCEL_SERIAL_LIMIT) {
+    return Math.round((Number(text) - EXCEL_EPOCH_OFFSET_DAYS) * 86400000 - utcOffset * 3600000);
+  }
+  if (/^\d{12,}$/.test(text)) return Number(text);
+  const local = parseLocalDateTime(text.replace(/\//g, '-'), utcOffset);
+  if (local !== null) return local;
+  return ISO_WITH_OFFSET.test(text) ? Date.parse(text) : null;
+}
+
+function parseNumber(value: string): number | null {
+  const text = value.trim().replace(/,/g, '');
+  return text === '' ? null : Number(text);
+}
+
+export function validateImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  utcOffset: number
+): { rows: ImportRow[]; errors: string[] } {
+  const rows: ImportRow[] = [];
+  const errors: string[] = [];
+  table.rows.forEach((cells, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : cells[column] ?? '';
+    };
+    const result = importRowSchema.safeParse({
+      line: index + 2,
+      timestamp: parseImportTime(cell('time'), utcOffset) ?? NaN,
+      marketRate: parseNumber(cell('marketRate')) ?? NaN,
+      platformRate: parseNumber(cell('platformRate')),
+    });
+    if (result.success) {
+      rows.push(result.data as ImportRow);
+    } else {
+      errors.push(`第 ${index + 2} 行: ${[...new Set(result.error.issues.map(issue => issue.message))].join('，')}`);
+    }
+  });
+  return { rows, errors };
+}
+
+export async function planImport(
+  pair: PairConfig,
+  table: ImportTable,
+  mapping: ColumnMapping,
+  context: { rules: RiskRule[]; costBuffer: number; platformRates: PlatformRateEntry[]; fallbackPlatformRate: number }
+): Promise<ImportPlan> {
+  const { rows, errors } = validateImportRows(table, mapping, pair.utcOffset);
+  const plan: ImportPlan = { records: [], invalid: errors, duplicatesInFile: 0, existing: 0, dates: [] };
+  if (rows.length === 0) return plan;
+
+  const sorted = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+  const stored = [...await fetchRateTimestamps(
+    pair.id,
+    sorted[0].timestamp - STORED_MATCH_WINDOW_MS,
+    sorted[sorted.length - 1].timestamp + STORED_MATCH_WINDOW_MS
+  )].sort((a, b) => a - b);
+  let storedIndex = 0;
+  const seen = new Set<number>();
+  const source = `import:${table.fileName}`;
+  const dates = new Set<string>();
+
+  sorted.forEach(row => {
+    const second = Math.floor(row.timestamp / 1000);
+    // Rows are sorted, so the stored timestamps before the window are done with
+    while (storedIndex < stored.length && stored[storedIndex] <= row.timestamp - STORED_MATCH_WINDOW_MS) storedIndex++;
+    if (storedIndex < stored.length && stored[storedIndex] < row.timestamp + STORED_MATCH_WINDOW_MS) {
+      plan.existing++;
+      return;
+    }
+    if (seen.has(second)) {
+      plan.duplicatesInFile++;
+      return;
+    }
+    seen.add(second);
+
+    // Without a platform column, the ledger entry in force then (or the current rate)
+    const platformRate = row.platformRate
+      ?? findRateEntryAt(context.platformRates, row.timestamp)?.rate
+      ?? context.fallbackPlatformRate;
+    const diff = platformRate - row.marketRate;
+    const risk = assessRisk(
+      diff,
+      { isLockWindow: isLockPriceWindow(new Date(row.timestamp), pair), consecutiveExpansions: 0, costBuffer: context.costBuffer },
+      context.rules
+    );
+    plan.records.push({
+      timestamp: row.timestamp,
+      marketRate: row.marketRate,
+      platformRate,
+      diff,
+      riskLevel: risk.level,
+      riskSide: risk.side,
+      source,
+    });
+    dates.add(getBusinessDateKey(new Date(row.timestamp), pair.utcOffset));
+  });
+
+  plan.dates = [...dates].sort();
+  return plan;
+}
+
+// Writes in batches so a large file reports progress as it goes
+export async function commitImport(
+  pair: PairConfig,
+  plan: ImportPlan,
+  onProgress?: (inserted: number) => void
+): Promise<number> {
+  let inserted = 0;
+  for (let i = 0; i < plan.records.length; i += INSERT_BATCH_SIZE) {
+    const batch = plan.records.slice(i, i + INSERT_BATCH_SIZE);
+    await insertRateRecords(pair.id, batch);
+    inserted += batch.length;
+    onProgress?.(inserted);
+  }
+  return inserted;
+}
@@ -0,0 +1,204 @@
+// Supabase persistence for rate history and daily statistics
+
+import { supabase } from '../lib/supabase';
+import type { RateRecord, DailyStats } from '../store/rateStore';
+import type { PairId } from '../utils/pairs';
+import type { RiskLevel } from '../utils/riskRules';
+import { bucketCandles, Candle } from '../utils/chartBuckets';
+
+export function toRateRow(record: RateRecord, pair: PairId) {
+  return {
+    pair,
+    timestamp: record.timestamp,
+    market_rate: record.marketRate,
+    platform_rate: record.platformRate,
+    diff: record.diff,
+    risk_level: record.riskLevel,
+    risk_side: record.riskSide ?? null,
+    source: record.source ?? 'live',
+  };
+}
+
+export function fromRateRow(row: any): RateRecord {
+  return {
+    timestamp: Number(row.timestamp),
+    marketRate: row.market_rate,
+    platformRate: row.platform_rate,
+    diff: row.diff,
+    riskLevel: row.risk_level,
+    riskSide: row.risk_side ?? null,
+    source: row.source ?? undefined,
+  };
+}
+
+export function toDailyStatsRow(stats: DailyStats, pair: PairId) {
+  return {
+    pair,
+    date: stats.date,
+    max_diff: stats.maxDiff,
+    min_diff: stats.minDiff,
+    avg_diff: stats.avgDiff,
+    max_market_rate: stats.maxMarketRate,
+    min_market_rate: stats.minMarketRate,
+    avg_market_rate: stats.avgMarketRate,
+    platform_rate: stats.platformRate,
+    risk_level: stats.riskLevel,
+    lock_time_rate: stats.lockTimeRate,
+    sample_count: stats.sampleCount,
+    source: stats.source ?? 'live',
+  };
+}
+
+export function fromDailyStatsRow(row: any): DailyStats {
+  return {
+    date: row.date,
+    maxDiff: row.max_diff,
+    minDiff: row.min_diff,
+    avgDiff: row.avg_diff,
+    maxMarketRate: row.max_market_rate,
+    minMarketRate: row.min_market_rate,
+    avgMarketRate: row.avg_market_rate,
+    platformRate: row.platform_rate,
+    riskLevel: row.risk_level,
+    lockTimeRate: row.lock_time_rate ?? undefined,
+    sampleCount: row.sample_count ?? undefined,
+    source: row.source ?? undefined,
+  };
+}
+
+// Rows already stored for the same pair and timestamp are kept as they are
+export async function insertRateRecords(pair: PairId, records: RateRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const { error } = await supabase
+    .from('rate_history')
+    .upsert(records.map(r => toRateRow(r, pair)), { onConflict: 'pair,timestamp', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function upsertDailyStats(pair: PairId, stats: DailyStats[]): Promise<void> {
+  if (stats.length === 0) return;
+  const { error } = await supabase
+    .from('daily_stats')
+    .upsert(stats.map(s => toDailyStatsRow(s, pair)), { onConflict: 'pair,date' });
+  if (error) throw error;
+}
+
+// PostgREST caps each response (1000 rows by default), so long ranges are paged
+const HISTORY_PAGE_SIZE = 1000;
+
+export async function fetchRateHistory(pair: PairId, start: number, end: number): Promise<RateRecord[]> {
+  const records: RateRecord[] = [];
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rate_history')
+      .select('*')
+      .eq('pair', pair)
+      .gte('timestamp', start)
+      .lte('timestamp', end)
+      .order('timestamp', { ascending: true })
+      .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+    if (error) throw error;
+    records.push(...(data ?? []).map(fromRateRow));
+    if (!data || data.length < HISTORY_PAGE_SIZE) return records;
+  }
+}
+
+// Stored timestamps only, for checking imports against what is already there
+export async function fetchRateTimestamps(pair: PairId, start: number, end: number): Promise<Set<number>> {
+  const timestamps = new Set<number>();
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rate_history')
+      .select('timestamp')
+      .eq('pair', pair)
+      .gte('timestamp', start)
+      .lte('timestamp', end)
+      .order('timestamp', { ascending: true })
+      .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+    if (error) throw error;
+    (data ?? []).forEach(row => timestamps.add(Number(row.timestamp)));
+    if (!data || data.length < HISTORY_PAGE_SIZE) return timestamps;
+  }
+}
+
+// Candles straight from rate_history, for ranges the store does not hold
+export async function fetchRateCandles(
+  pair: PairId,
+  start: number,
+  end: number,
+  intervalMs: number,
+  utcOffset: number
+): Promise<Candle[]> {
+  return bucketCandles(await fetchRateHistory(pair, start, end), intervalMs, utcOffset, Math.min(end, Date.now()));
+}
+
+export type RateHistorySortKey = 'timestamp' | 'market_rate' | 'platform_rate' | 'diff';
+
+export interface RateHistoryQuery {
+  start: number;
+  end: number;
+  levels: RiskLevel[] | null; // null for every level
+  // Local time of day in minutes since midnight; from > to wraps past midnight
+  timeOfDay: { from: number; to: number; utcOffset: number } | null;
+  sortBy: RateHistorySortKey;
+  ascending: boolean;
+}
+
+function filterRateHistory(pair: PairId, query: RateHistoryQuery) {
+  return supabase
+    .rpc('filter_rate_history', {
+      p_pair: pair,
+      p_start: query.start,
+      p_end: query.end,
+      p_levels: query.levels,
+      p_minute_from: query.timeOfDay?.from ?? null,
+      p_minute_to: query.timeOfDay?.to ?? null,
+      p_utc_offset: query.timeOfDay?.utcOffset ?? 0,
+    }, { count: 'exact' })
+    .order(query.sortBy, { ascending: query.ascending })
+    // Timestamp breaks ties so pages do not overlap
+    .order('timestamp', { ascending: query.ascending });
+}
+
+// One page of the filtered history, with the size of the whole result
+export async function queryRateHistory(
+  pair: PairId,
+  query: RateHistoryQuery,
+  offset: number,
+  limit: number
+): Promise<{ records: RateRecord[]; total: number }> {
+  const { data, count, error } = await filterRateHistory(pair, query).range(offset, offset + limit - 1);
+  if (error) throw error;
+  return { records: (data ?? []).map(fromRateRow), total: count ?? 0 };
+}
+
+// Every row of the filtered history in query order, for exports
+export async function fetchFilteredRateHistory(pair: PairId, query: RateHistoryQuery): Promise<RateRecord[]> {
+  const records: RateRecord[] = [];
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await filterRateHistory(pair, query).range(offset, offset + HISTORY_PAGE_SIZE - 1);
+    if (error) throw error;
+    records.push(...(data ?? []).map(fromRateRow));
+    if (!data || data.length < HISTORY_PAGE_SIZE) return records;
+  }
+}
+
+export async function countRateRecords(pair: PairId, start: number, end: number): Promise<number> {
+  const { count, error } = await supabase
+    .from('rate_history')
+    .select('timestamp', { count: 'exact', head: true })
+    .eq('pair', pair)
+    .gte('timestamp', start)
+    .lte('timestamp', end);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function fetchDailyStats(pair: PairId, fromDate?: string, toDate?: string): Promise<DailyStats[]> {
+  let query = supabase.from('daily_stats').select('*').eq('pair', pair);
+  if (fromDate) query = query.gte('date', fromDate);
+  if (toDate) query = query.lte('date', toDate);
+  const { data, error } = await query.order('date', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(fromDailyStatsRow);
+}
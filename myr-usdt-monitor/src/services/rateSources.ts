@@ -0,0 +1,237 @@
+// USDT quote adapters
+//
+// Each adapter talks to a venue that actually quotes USDT against a fiat
+// (exchange order books, P2P ad boards) and normalises the response into a
+// RateQuote. Adapters declare the pairs they list and take the pair per call.
+// Parsing is kept in pure functions so recorded responses can be replayed
+// without network access, and every adapter accepts a base URL so it can be
+// pointed at a local mock server.
+//
+// The P2P boards do not send CORS headers (Binance's search is also a JSON
+// POST, which needs a preflight), so a browser can never read them. They are
+// marked server-only: the headless monitor queries them, dashboards skip them.
+
+import { PAIRS, PairId } from '../utils/pairs';
+
+export interface RateQuote {
+  source: string;
+  bid: number;
+  ask: number;
+  mid: number;
+  timestamp: number;
+}
+
+export type RateSourceKind = 'orderbook' | 'p2p' | 'aggregator';
+
+export interface RateSource {
+  id: string;
+  name: string;
+  kind: RateSourceKind;
+  pairs: PairId[];
+  serverOnly?: boolean; // not reachable from a browser, see above
+  fetchQuote: (pair: PairId, fetchImpl?: typeof fetch) => Promise<RateQuote>;
+  // Time-series endpoint, implemented only by sources that keep history
+  fetchHistory?: (pair: PairId, start: number, end: number, fetchImpl?: typeof fetch) => Promise<RateQuote[]>;
+}
+
+export const LUNO_API_URL = 'https://api.luno.com';
+export const BINANCE_P2P_API_URL = 'https://p2p.binance.com';
+export const OKX_API_URL = 'https://www.okx.com';
+export const COINGECKO_API_URL = 'https://api.coingecko.com';
+
+// Number of P2P ads used for the median on each side of the book
+const P2P_AD_DEPTH = 10;
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'string' ? parseFloat(value) : Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function median(values: number[]): number {
+  const sorted = values.filter(v => Number.isFinite(v) && v > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return NaN;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+export function buildQuote(source: string, bid: number, ask: number, timestamp: number): RateQuote {
+  if (!Number.isFinite(bid) || bid <= 0 || !Number.isFinite(ask) || ask <= 0) {
+    throw new Error(`${source}: invalid bid/ask (${bid} / ${ask})`);
+  }
+  return { source, bid, ask, mid: (bid + ask) / 2, timestamp };
+}
+
+// Luno ticker: { pair, timestamp, bid, ask, last_trade, ... }
+export function parseLunoTicker(data: any, receivedAt: number = Date.now()): RateQuote {
+  if (!data || data.pair !== 'USDTMYR') {
+    throw new Error('luno: unexpected ticker payload');
+  }
+  const timestamp = Number(data.timestamp) || receivedAt;
+  return buildQuote('luno', toNumber(data.bid), toNumber(data.ask), timestamp);
+}
+
+// Binance P2P search: { code: '000000', data: [{ adv: { price } }] }
+// Ads listed under tradeType BUY are sellers (our ask), SELL are buyers (our bid).
+export function parseBinanceP2P(buyAds: any, sellAds: any, receivedAt: number = Date.now()): RateQuote {
+  const prices = (payload: any): number[] => {
+    if (!payload || payload.code !== '000000' || !Array.isArray(payload.data)) {
+      throw new Error('binance-p2p: unexpected search payload');
+    }
+    return payload.data.slice(0, P2P_AD_DEPTH).map((item: any) => toNumber(item?.adv?.price));
+  };
+  return buildQuote('binance-p2p', median(prices(sellAds)), median(prices(buyAds)), receivedAt);
+}
+
+// OKX P2P order book: { code: 0, data: { buy: [{ price }], sell: [{ price }] } }
+// The buy side holds merchants buying USDT (our bid), sell side merchants selling (our ask).
+export function parseOkxP2P(data: any, receivedAt: number = Date.now()): RateQuote {
+  if (!data || Number(data.code) !== 0 || !data.data) {
+    throw new Error('okx-p2p: unexpected order book payload');
+  }
+  const prices = (ads: any): number[] =>
+    Array.isArray(ads) ? ads.slice(0, P2P_AD_DEPTH).map((ad: any) => toNumber(ad?.price)) : [];
+  return buildQuote('okx-p2p', median(prices(data.data.buy)), median(prices(data.data.sell)), receivedAt);
+}
+
+// CoinGecko simple price: { tether: { myr, last_updated_at } }
+export function parseCoinGeckoPrice(data: any, pair: PairId = 'MYR', receivedAt: number = Date.now()): RateQuote {
+  const price = toNumber(data?.tether?.[pair.toLowerCase()]);
+  const timestamp = Number(data?.tether?.last_updated_at) * 1000 || receivedAt;
+  return buildQuote('coingecko', price, price, timestamp);
+}
+
+// CoinGecko market chart range: { prices: [[ms, price], ...] }
+export function parseCoinGeckoRange(data: any): RateQuote[] {
+  if (!data || !Array.isArray(data.prices)) {
+    throw new Error('coingecko: unexpected market chart payload');
+  }
+  return data.prices
+    .filter((point: any) => Array.isArray(point) && toNumber(point[1]) > 0)
+    .map(([timestamp, price]: [number, number]) => buildQuote('coingecko', toNumber(price), toNumber(price), Number(timestamp)));
+}
+
+async function getJSON(fetchImpl: typeof fetch, url: string, init?: RequestInit): Promise<any> {
+  const response = await fetchImpl(url, init);
+  if (!response.ok) throw new Error(`Request to ${url} failed with status ${response.status}`);
+  return response.json();
+}
+
+export function createLunoSource(baseUrl: string = LUNO_API_URL): RateSource {
+  return {
+    id: 'luno',
+    name: 'Luno',
+    kind: 'orderbook',
+    pairs: ['MYR'],
+    fetchQuote: async (_pair, fetchImpl = fetch) => {
+      const data = await getJSON(fetchImpl, `${baseUrl}/api/1/ticker?pair=USDTMYR`);
+      return parseLunoTicker(data);
+    },
+  };
+}
+
+export function createBinanceP2PSource(baseUrl: string = BINANCE_P2P_API_URL): RateSource {
+  const search = (fetchImpl: typeof fetch, pair: PairId, tradeType: 'BUY' | 'SELL') =>
+    getJSON(fetchImpl, `${baseUrl}/bapi/c2c/v2/friendly/c2c/adv/search`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fiat: pair,
+        asset: 'USDT',
+        tradeType,
+        page: 1,
+        rows: P2P_AD_DEPTH,
+        payTypes: [],
+        publisherType: null,
+      }),
+    });
+
+  return {
+    id: 'binance-p2p',
+    name: 'Binance P2P',
+    kind: 'p2p',
+    pairs: PAIRS.map(p => p.id),
+    serverOnly: true,
+    fetchQuote: async (pair, fetchImpl = fetch) => {
+      const [buyAds, sellAds] = await Promise.all([
+        search(fetchImpl, pair, 'BUY'),
+        search(fetchImpl, pair, 'SELL'),
+      ]);
+      return parseBinanceP2P(buyAds, sellAds);
+    },
+  };
+}
+
+export function createOkxP2PSource(baseUrl: string = OKX_API_URL): RateSource {
+  return {
+    id: 'okx-p2p',
+    name: 'OKX P2P',
+    kind: 'p2p',
+    pairs: PAIRS.map(p => p.id),
+    serverOnly: true,
+    fetchQuote: async (pair, fetchImpl = fetch) => {
+      const data = await getJSON(
+        fetchImpl,
+        `${baseUrl}/v3/c2c/tradingOrders/books?quoteCurrency=${pair}&baseCurrency=USDT&side=all&paymentMethod=all&userType=all`
+      );
+      return parseOkxP2P(data);
+    },
+  };
+}
+
+export function createCoinGeckoSource(baseUrl: string = COINGECKO_API_URL): RateSource {
+  return {
+    id: 'coingecko',
+    name: 'CoinGecko',
+    kind: 'aggregator',
+    pairs: PAIRS.map(p => p.id),
+    fetchQuote: async (pair, fetchImpl = fetch) => {
+      const data = await getJSON(
+        fetchImpl,
+        `${baseUrl}/api/v3/simple/price?ids=tether&vs_currencies=${pair.toLowerCase()}&include_last_updated_at=true`
+      );
+      return parseCoinGeckoPrice(data, pair);
+    },
+    fetchHistory: async (pair, start, end, fetchImpl = fetch) => {
+      const from = Math.floor(start / 1000);
+      const to = Math.ceil(end / 1000);
+      const data = await getJSON(
+        fetchImpl,
+        `${baseUrl}/api/v3/coins/tether/market_chart/range?vs_currency=${pair.toLowerCase()}&from=${from}&to=${to}`
+      );
+      return parseCoinGeckoRange(data);
+    },
+  };
+}
+
+// Registry of active sources
+const registry = new Map<string, RateSource>();
+
+export function registerRateSource(source: RateSource): void {
+  registry.set(source.id, source);
+}
+
+export function unregisterRateSource(id: string): void {
+  registry.delete(id);
+}
+
+// Sources this runtime can query, optionally only those that list the pair
+export function getRateSources(pair?: PairId): RateSource[] {
+  const inBrowser = typeof window !== 'undefined';
+  const sources = Array.from(registry.values()).filter(source => !(inBrowser && source.serverOnly));
+  return pair ? sources.filter(source => source.pairs.includes(pair)) : sources;
+}
+
+export function getHistoricalRateSource(pair: PairId): RateSource | undefined {
+  return getRateSources(pair).find(source => typeof source.fetchHistory === 'function');
+}
+
+export function getRateSourceName(id: string): string {
+  return registry.get(id)?.name ?? id;
+}
+
+registerRateSource(createLunoSource());
+registerRateSource(createBinanceP2PSource());
+registerRateSource(createOkxP2PSource());
+registerRateSource(createCoinGeckoSource());
@@ -0,0 +1,144 @@
+// Realtime sync between operators
+//
+// Subscribes to Postgres changes on app_settings, platform_rates, rate_history,
+// daily_stats and chart_annotations. When the channel errors, times out or closes (network loss,
+// laptop sleep) it is torn down and resubscribed with backoff; the browser
+// coming back online resubscribes at once. After every reconnect onResync runs
+// so changes missed while disconnected are fetched. Only the given pair's rows
+// and settings are delivered. rate_history inserts are handed over in batches,
+// so an import of thousands of rows is merged once rather than row by row.
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { fromRateRow, fromDailyStatsRow } from './rateRepository';
+import { fromPlatformRateRow, PlatformRateEntry } from './platformRates';
+import { ChartAnnotation, fromAnnotationRow } from './annotations';
+import type { RateRecord, DailyStats } from '../store/rateStore';
+import { DEFAULT_PAIR_ID, PairId, parsePairSettingKey } from '../utils/pairs';
+
+export interface RemoteSettingChange {
+  key: string; // without the pair prefix
+  value: string;
+  updatedBy: string | null;
+}
+
+export interface RealtimeHandlers {
+  onSetting: (change: RemoteSettingChange) => void;
+  onRateRecords: (records: RateRecord[]) => void;
+  onDailyStats: (stats: DailyStats) => void;
+  onPlatformRate: (entry: PlatformRateEntry) => void;
+  onAnnotation: (annotation: ChartAnnotation) => void;
+  onAnnotationDeleted: (id: string) => void;
+  onResync: () => void;
+  onStatus?: (connected: boolean) => void;
+}
+
+// MYR keeps the name it had before pairs existed
+function getChannelName(pair: PairId): string {
+  return pair === DEFAULT_PAIR_ID ? 'myr-usdt-monitor:sync' : `myr-usdt-monitor:${pair}:sync`;
+}
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+const RATE_BATCH_MS = 500;
+
+export function subscribeToRemoteChanges(pair: PairId, handlers: RealtimeHandlers): () => void {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let hasConnected = false;
+  let stopped = false;
+  let pendingRecords: RateRecord[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const queueRateRecord = (record: RateRecord) => {
+    pendingRecords.push(record);
+    if (batchTimer) return;
+    batchTimer = setTimeout(() => {
+      batchTimer = null;
+      const records = pendingRecords;
+      pendingRecords = [];
+      handlers.onRateRecords(records);
+    }, RATE_BATCH_MS);
+  };
+
+  const teardown = () => {
+    if (channel) supabase.removeChannel(channel);
+    channel = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || retryTimer) return;
+    const delay = Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+    attempts++;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    teardown();
+    const filter = `pair=eq.${pair}`;
+    const next = supabase
+      .channel(getChannelName(pair))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'app_settings' }, payload => {
+        const row = payload.new as { key?: string; value?: string; updated_by?: string | null };
+        if (!row?.key || row.value === undefined) return;
+        // Settings carry their pair in the key, which a filter cannot match on
+        const setting = parsePairSettingKey(row.key);
+        if (setting.pair !== pair) return;
+        handlers.onSetting({ key: setting.key, value: row.value, updatedBy: row.updated_by ?? null });
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'rate_history', filter }, payload => {
+        queueRateRecord(fromRateRow(payload.new));
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'daily_stats', filter }, payload => {
+        if (payload.eventType === 'DELETE') return;
+        handlers.onDailyStats(fromDailyStatsRow(payload.new));
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'platform_rates', filter }, payload => {
+        if (payload.eventType === 'DELETE') return;
+        handlers.onPlatformRate(fromPlatformRateRow(payload.new));
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'chart_annotations', filter }, payload => {
+        handlers.onAnnotation(fromAnnotationRow(payload.new));
+      })
+      // Deletes carry only the primary key and ignore filters; unknown ids are a no-op
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'chart_annotations' }, payload => {
+        const row = payload.old as { id?: string };
+        if (row?.id) handlers.onAnnotationDeleted(row.id);
+      });
+    channel = next;
+
+    next.subscribe(status => {
+      if (next !== channel) return; // a superseded channel reporting its shutdown
+      if (status === 'SUBSCRIBED') {
+        attempts = 0;
+        handlers.onStatus?.(true);
+        if (hasConnected) handlers.onResync();
+        hasConnected = true;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        handlers.onStatus?.(false);
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const handleOnline = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    attempts = 0;
+    connect();
+  };
+
+  connect();
+  if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    if (batchTimer) clearTimeout(batchTimer);
+    if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+    teardown();
+  };
+}
@@ -0,0 +1,69 @@
+// Risk-level transition tracking
+//
+// Every evaluation is fed through trackRiskAssessment; listeners are only called
+// when the level or the side of the spread changes. Notifications, outbound
+// channels and the alert history all hang off these events. Each pair is
+// tracked on its own.
+
+import type { PairId } from '../utils/pairs';
+import { RISK_LEVELS, RiskAssessment } from '../utils/riskRules';
+
+export interface RiskSnapshot {
+  pair: PairId;
+  diff: number;
+  marketRate: number;
+  platformRate: number;
+  isLockWindow: boolean;
+  timestamp: number;
+}
+
+export interface RiskTransition extends RiskSnapshot {
+  from: RiskAssessment;
+  to: RiskAssessment;
+}
+
+type RiskTransitionListener = (transition: RiskTransition) => void;
+
+const listeners = new Set<RiskTransitionListener>();
+const SAFE: RiskAssessment = { level: 'safe', side: null };
+const lastAssessments = new Map<PairId, RiskAssessment>();
+
+export function onRiskTransition(listener: RiskTransitionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isEscalation(transition: RiskTransition): boolean {
+  return RISK_LEVELS.indexOf(transition.to.level) > RISK_LEVELS.indexOf(transition.from.level)
+    || (transition.to.level !== 'safe' && transition.to.side !== transition.from.side);
+}
+
+export function getLastAssessment(pair: PairId): RiskAssessment {
+  return lastAssessments.get(pair) ?? SAFE;
+}
+
+// Resume from a known state (e.g. an incident still open when the headless
+// monitor restarts) so the first evaluation is not reported as a fresh alert
+export function primeRiskAssessment(pair: PairId, assessment: RiskAssessment): void {
+  lastAssessments.set(pair, assessment);
+}
+
+export function trackRiskAssessment(assessment: RiskAssessment, snapshot: RiskSnapshot): RiskTransition | null {
+  const lastAssessment = getLastAssessment(snapshot.pair);
+  if (assessment.level === lastAssessment.level && assessment.side === lastAssessment.side) {
+    return null;
+  }
+
+  const transition: RiskTransition = { ...snapshot, from: lastAssessment, to: assessment };
+  lastAssessments.set(snapshot.pair, assessment);
+  listeners.forEach(listener => {
+    try {
+      listener(transition);
+    } catch (error) {
+      console.error('Risk transition listener failed:', error);
+    }
+  });
+  return transition;
+}
@@ -0,0 +1,127 @@
+// Minimal SMTP client for alert emails
+//
+// Speaks plain SMTP (optionally AUTH PLAIN) to a relay or a local sink. It needs
+// raw sockets, so it only works in the headless Node monitor; the node:net import
+// is hidden from the bundler so the browser build never tries to resolve it.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export function isSmtpSupported(): boolean {
+  return typeof process !== 'undefined' && !!process.versions?.node && typeof window === 'undefined';
+}
+
+function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+// RFC 5322 message with a UTF-8 subject and base64 body (alerts are in Chinese)
+export function buildMimeMessage(message: SmtpMessage, date: Date = new Date()): string {
+  const body = encodeBase64(message.text).replace(/.{1,76}/g, line => `${line}\r\n`);
+  return [
+    `From: <${message.from}>`,
+    `To: ${message.to.map(address => `<${address}>`).join(', ')}`,
+    `Subject: =?UTF-8?B?${encodeBase64(message.subject)}?=`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+export async function sendSmtpMail(options: SmtpOptions, message: SmtpMessage): Promise<void> {
+  if (!isSmtpSupported()) {
+    throw new Error('SMTP delivery is only available in the headless monitor');
+  }
+
+  const netModule = 'node:net';
+  const net: typeof import('node:net') = await import(/* @vite-ignore */ netModule);
+  const socket = net.createConnection({ host: options.host, port: options.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(options.timeoutMs ?? 10000);
+
+  let buffer = '';
+  let pending: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = error;
+    pending?.reject(error);
+    pending = null;
+  };
+
+  // A reply is complete once a line has a space after the status code
+  const flush = () => {
+    const lines = buffer.split('\r\n');
+    const finalIndex = lines.findIndex(line => /^\d{3} /.test(line));
+    if (finalIndex === -1 || !pending) return;
+    const reply = lines.slice(0, finalIndex + 1).join('\n');
+    buffer = lines.slice(finalIndex + 1).join('\r\n');
+    pending.resolve(reply);
+    pending = null;
+  };
+
+  socket.on('data', chunk => {
+    buffer += chunk;
+    flush();
+  });
+  socket.on('timeout', () => {
+    fail(new Error('SMTP connection timed out'));
+    socket.destroy();
+  });
+  socket.on('error', error => fail(error));
+
+  const readReply = (expected: number): Promise<string> =>
+    new Promise<string>((resolve, reject) => {
+      if (failure) return reject(failure);
+      pending = { resolve, reject };
+      flush();
+    }).then(reply => {
+      const finalLine = reply.split('\n').pop() ?? '';
+      const code = parseInt(finalLine.slice(0, 3), 10);
+      if (code !== expected) throw new Error(`SMTP expected ${expected}, got: ${reply}`);
+      return reply;
+    });
+
+  const command = (line: string, expected: number) => {
+    socket.write(`${line}\r\n`);
+    return readReply(expected);
+  };
+
+  try {
+    await readReply(220);
+    await command('EHLO myr-usdt-monitor', 250);
+    if (options.username) {
+      const credentials = encodeBase64(`\u0000${options.username}\u0000${options.password ?? ''}`);
+      await command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await command(`MAIL FROM:<${message.from}>`, 250);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, 250);
+    }
+    await command('DATA', 354);
+    // Dot-stuff lines that start with a period
+    const data = buildMimeMessage(message).replace(/\r\n\./g, '\r\n..');
+    await command(`${data}.`, 250);
+    await command('QUIT', 221).catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
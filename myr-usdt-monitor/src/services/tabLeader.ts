@@ -0,0 +1,134 @@
+// Cross-tab coordination
+//
+// Open tabs compete for a Web Lock; the holder is the leader and is the only tab
+// that polls the rate sources and writes to Supabase. The browser releases the
+// lock when the leader tab closes, so the next waiting tab takes over. Followers
+// receive the leader's results over a BroadcastChannel and can ask it to refresh.
+// Each pair has its own lock and channel, so tabs on different pairs each lead
+// the pair they show.
+
+import { getRateStore, RateRecord, DailyStats } from '../store/rateStore';
+import type { RateConsensus } from './rateApi';
+import type { AlertIncident } from './alertHistory';
+import { DEFAULT_PAIR_ID, PairId } from '../utils/pairs';
+
+// MYR keeps the names it had before pairs existed
+function getLockName(pair: PairId): string {
+  return pair === DEFAULT_PAIR_ID ? 'myr-usdt-monitor:leader' : `myr-usdt-monitor:${pair}:leader`;
+}
+
+function getChannelName(pair: PairId): string {
+  return pair === DEFAULT_PAIR_ID ? 'myr-usdt-monitor:tabs' : `myr-usdt-monitor:${pair}:tabs`;
+}
+
+export interface TabUpdate {
+  consensus: RateConsensus | null;
+  records: RateRecord[];
+  dailyStats: DailyStats[];
+  activeAlert: AlertIncident | null;
+  alertHistory: AlertIncident[];
+  consecutiveExpansions: number;
+  monitorMode: 'local' | 'reader';
+  error: string | null;
+}
+
+type TabMessage =
+  | { type: 'update'; update: TabUpdate }
+  | { type: 'refresh' };
+
+const channels = new Map<PairId, BroadcastChannel>();
+// Newest record each pair's followers have been sent
+const lastPublishedAt = new Map<PairId, number>();
+
+function getChannel(pair: PairId): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  let channel = channels.get(pair);
+  if (!channel) {
+    channel = new BroadcastChannel(getChannelName(pair));
+    channels.set(pair, channel);
+  }
+  return channel;
+}
+
+// Calls onLeader once this tab holds the pair's lock; the returned function gives it up
+export function electLeader(pair: PairId, onLeader: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    // No Web Locks (old browser): every tab behaves as before, on its own
+    onLeader();
+    return () => undefined;
+  }
+
+  const abort = new AbortController();
+  let release: (() => void) | null = null;
+  navigator.locks
+    .request(getLockName(pair), { signal: abort.signal }, () => {
+      lastPublishedAt.set(pair, Date.now());
+      onLeader();
+      return new Promise<void>(resolve => {
+        release = resolve;
+      });
+    })
+    .catch(error => {
+      if (error?.name !== 'AbortError') console.error('Leader election failed:', error);
+    });
+
+  return () => {
+    abort.abort();
+    release?.();
+  };
+}
+
+// Leader: send what changed since the previous update
+export function publishTabUpdate(pair: PairId, error: string | null = null): void {
+  const state = getRateStore(pair).getState();
+  const since = lastPublishedAt.get(pair) ?? Date.now();
+  const records = state.rateHistory.filter(r => r.timestamp > since);
+  lastPublishedAt.set(pair, records.length > 0 ? records[records.length - 1].timestamp : since);
+
+  const update: TabUpdate = {
+    consensus: state.rateConsensus,
+    records,
+    // Yesterday's row can still change when the day closes
+    dailyStats: state.dailyStats.slice(-2),
+    activeAlert: state.activeAlert,
+    alertHistory: state.alertHistory,
+    consecutiveExpansions: state.consecutiveExpansions,
+    monitorMode: state.monitorMode,
+    error,
+  };
+  getChannel(pair)?.postMessage({ type: 'update', update } satisfies TabMessage);
+}
+
+// Follower: apply the leader's update without writing anything back
+export function applyTabUpdate(pair: PairId, update: TabUpdate): void {
+  const rateStore = getRateStore(pair);
+  const store = rateStore.getState();
+  if (update.consensus) store.setConsensus(update.consensus);
+  store.ingestRemoteData(update.records, update.dailyStats);
+  rateStore.setState({
+    activeAlert: update.activeAlert,
+    alertHistory: update.alertHistory,
+    consecutiveExpansions: update.consecutiveExpansions,
+    monitorMode: update.monitorMode,
+  });
+}
+
+export function requestTabRefresh(pair: PairId): void {
+  getChannel(pair)?.postMessage({ type: 'refresh' } satisfies TabMessage);
+}
+
+export function onTabMessage(pair: PairId, handlers: {
+  onUpdate?: (update: TabUpdate) => void;
+  onRefresh?: () => void;
+}): () => void {
+  const tabChannel = getChannel(pair);
+  if (!tabChannel) return () => undefined;
+
+  // Listening on the same object we post from, so this tab never hears itself
+  const listener = (event: MessageEvent<TabMessage>) => {
+    if (event.data?.type === 'update') handlers.onUpdate?.(event.data.update);
+    if (event.data?.type === 'refresh') handlers.onRefresh?.();
+  };
+  tabChannel.addEventListener('message', listener);
+  return () => tabChannel.removeEventListener('message', listener);
+}
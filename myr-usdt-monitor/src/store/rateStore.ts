@@ -1,6 +1,30 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage, StateStorage } from 'zustand/middleware';
 import { supabase } from '../lib/supabase';
+import { RateConsensus, DEFAULT_CONSENSUS_OPTIONS } from '../services/rateApi';
+import { fetchDailyStats, fetchRateHistory, fromRateRow, fromDailyStatsRow, toRateRow, toDailyStatsRow } from '../services/rateRepository';
+import { enqueueWrite, OutboxOperation } from '../services/outbox';
+import { aggregateDailyStats, foldRecord, findRateAtLockTime, getLockTimestamp } from '../utils/dailyStats';
+import { getBusinessDateKey, getBusinessDayRange } from '../utils/rateUtils';
+import { DEFAULT_PAIR_ID, PairConfig, PairId, getPairConfig, getPairSettingKey, parsePairSettingKey } from '../utils/pairs';
+import { AlertChannelConfig, splitChannelSecrets, toAlertChannelSecretRow, validateAlertChannels } from '../services/alertChannels';
+import { AlertIncident, advanceIncident, fetchAlerts, toAlertRow } from '../services/alertHistory';
+import type { RiskSnapshot } from '../services/riskTransitions';
+import { AuthUser, canEditSetting, getActorName, hasRole } from '../services/auth';
+import {
+  PlatformRateEntry,
+  fetchPlatformRates,
+  findRateEntryAt,
+  findRateForDate,
+  getNextSwitchAt,
+  getScheduledEffectiveFrom,
+  mergeRateEntries,
+  toPlatformRateRow,
+} from '../services/platformRates';
+import { PnlFlow, PnlFlowInput, createPnlFlow, fetchPnlFlows, toPnlFlowRow } from '../services/pnl';
+import { ChartAnnotation, createNote, fetchAnnotations, mergeAnnotations, toAnnotationRow } from '../services/annotations';
+import { DEFAULT_TARGET_MARGIN } from '../utils/rateRecommendation';
+import { RiskAssessment, RiskLevel, RiskRule, RiskSide, getDefaultRiskRules, upgradeRiskRules, validateRiskRules } from '../utils/riskRules';
 
 export interface RateRecord {
   timestamp: number;
@@ -8,6 +32,8 @@ export interface RateRecord {
   platformRate: number;
   diff: number;
   riskLevel: 'safe' | 'warning' | 'danger' | 'critical';
+  riskSide?: RiskSide | null; // which side of the spread triggered the level
+  source?: string; // provenance, e.g. 'live' or 'backfill:coingecko'
 }
 
 export interface DailyStats {
@@ -21,212 +47,854 @@ export interface DailyStats {
   platformRate: number;
   riskLevel: 'safe' | 'warning' | 'danger' | 'critical';
   lockTimeRate?: number; // 23:50 rate
+  sampleCount?: number;
+  source?: string;
 }
 
-interface RateStore {
+export interface RateStore {
+  // Currency pair this store monitors; every pair has its own store
+  pair: PairId;
+
   // Current rates
   marketRate: number;
-  platformRate: number;
+  platformRate: number; // rate in force now, switched from the ledger
   lastUpdated: number;
+  rateConsensus: RateConsensus | null;
 
   // Settings
   costBuffer: number;
+  targetMargin: number; // margin over market + cost buffer the rate recommendation aims for
+  maxDeviation: number;
+  lockTime: string; // 'HH:mm' desk local time for the lock-time rate snapshot
+  riskRules: RiskRule[];
+  alertChannels: AlertChannelConfig[]; // without credentials, see splitChannelSecrets
+
+  // Platform-rate ledger, one locked rate per business date
+  platformRates: PlatformRateEntry[];
 
   // History
   rateHistory: RateRecord[];
   dailyStats: DailyStats[];
 
+  // Customer deposit / withdrawal volumes for the spread P&L
+  pnlFlows: PnlFlow[];
+
+  // Chart notes and settings-change markers, same window as the history
+  annotations: ChartAnnotation[];
+
+  // Notification preferences (per browser, not synced)
+  notificationLevels: RiskLevel[];
+  notificationsSnoozedUntil: number;
+
+  // 'reader' while a headless monitor is alive and owns fetching and writes
+  monitorMode: 'local' | 'reader';
+
   // Alert state
   alertDismissed: boolean;
+  activeAlert: AlertIncident | null;
+  alertHistory: AlertIncident[]; // newest first
+
+  // Signed-in user; null when signed out (the headless monitor never signs in)
+  authUser: AuthUser | null;
+  authChecked: boolean;
   consecutiveExpansions: number;
   isInitialized: boolean;
 
   // Actions
   setMarketRate: (rate: number) => void;
-  setPlatformRate: (rate: number) => void;
+  setConsensus: (consensus: RateConsensus) => void;
+  schedulePlatformRate: (date: string, rate: number) => void;
+  refreshPlatformRate: (now?: number) => void;
+  applyPlatformRate: (entry: PlatformRateEntry) => boolean; // true when the ledger changed
+  loadPlatformRates: () => Promise<void>;
   setCostBuffer: (buffer: number) => void;
+  setTargetMargin: (margin: number) => void;
+  setMaxDeviation: (deviation: number) => void;
+  setLockTime: (lockTime: string) => void;
+  setRiskRules: (rules: RiskRule[]) => void;
+  setAlertChannels: (channels: AlertChannelConfig[]) => void;
   addRateRecord: (record: RateRecord) => void;
   updateDailyStats: (stats: DailyStats) => void;
+  foldDailyStats: (record: RateRecord) => void;
+  snapshotLockTimeRate: (marketRate: number, timestamp?: number) => void;
+  closeDailyStats: (date: string) => void;
+  recomputeDailyStats: (date: string) => Promise<DailyStats | null>;
+  recordPnlFlows: (inputs: PnlFlowInput[], source: PnlFlow['source']) => Promise<boolean>;
+  deletePnlFlow: (id: string) => Promise<void>;
+  loadPnlFlows: () => Promise<void>;
+  addNote: (timestamp: number, text: string) => Promise<boolean>;
+  deleteNote: (id: string) => Promise<void>;
+  applyAnnotation: (annotation: ChartAnnotation) => void;
+  removeAnnotation: (id: string) => void;
+  loadAnnotations: () => Promise<void>;
+  setNotificationLevels: (levels: RiskLevel[]) => void;
+  snoozeNotifications: (durationMs: number) => void;
   dismissAlert: () => void;
   resetAlert: () => void;
+  trackAlertIncident: (assessment: RiskAssessment, snapshot: RiskSnapshot) => void;
+  acknowledgeAlert: (id: string) => Promise<void>;
+  loadAlertHistory: () => Promise<void>;
+  setAuthUser: (user: AuthUser | null) => void;
   incrementExpansions: () => void;
   resetExpansions: () => void;
-  clearHistory: () => void;
+  clearHistory: () => Promise<boolean>;
+  setMonitorMode: (mode: 'local' | 'reader') => void;
+  ingestRemoteData: (records: RateRecord[], stats: DailyStats[]) => void;
+  pullRecentData: () => Promise<void>;
+  applySetting: (key: string, value: string) => boolean; // true when local state changed
+  loadSettings: () => Promise<void>;
   syncWithSupabase: () => Promise<void>;
 }
 
-export const useRateStore = create<RateStore>()(
-  persist(
-    (set, get) => ({
-      marketRate: 0,
-      platformRate: 4.35,
-      lastUpdated: Date.now(),
-      costBuffer: 0.025,
-      rateHistory: [],
-      dailyStats: [],
-      alertDismissed: false,
-      consecutiveExpansions: 0,
-      isInitialized: false,
-
-      setMarketRate: (rate) => set({ marketRate: rate, lastUpdated: Date.now() }),
-
-      setPlatformRate: async (rate) => {
-        set({ platformRate: rate });
-        try {
-          await supabase.from('app_settings').upsert({ 
-            key: 'platform_rate', 
-            value: rate.toString() 
-          }, { onConflict: 'key' });
-        } catch (error) {
-          console.error('Failed to sync platform rate:', error);
-        }
-      },
-
-      setCostBuffer: async (buffer) => {
-        set({ costBuffer: buffer });
-        try {
-          await supabase.from('app_settings').upsert({ 
-            key: 'cost_buffer', 
-            value: buffer.toString() 
-          }, { onConflict: 'key' });
-        } catch (error) {
-          console.error('Failed to sync cost buffer:', error);
-        }
-      },
-
-      addRateRecord: async (record) => {
-        const history = get().rateHistory;
-        // Keep last 7 days (roughly 2000+ records at 5min intervals)
-        const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-        const filtered = history.filter(r => r.timestamp > sevenDaysAgo);
-        set({ rateHistory: [...filtered, record] });
-
-        // Push to Supabase
-        try {
-          await supabase.from('rate_history').insert([{
-            timestamp: record.timestamp,
-            market_rate: record.marketRate,
-            platform_rate: record.platformRate,
-            diff: record.diff,
-            risk_level: record.riskLevel
-          }]);
-        } catch (error) {
-          console.error('Failed to push to Supabase:', error);
-        }
-      },
-
-      updateDailyStats: async (stats) => {
-        const dailyStats = get().dailyStats;
-        const existingIndex = dailyStats.findIndex(s => s.date === stats.date);
+// updated_by lets other operators' dashboards say who changed a setting
+function settingWrite(state: RateStore, key: string, value: string): OutboxOperation {
+  const updatedBy = getActorName(state.authUser);
+  const row = { key: getPairSettingKey(state.pair, key), value, updated_by: updatedBy };
+  return { action: 'upsert', table: 'app_settings', rows: [row], onConflict: 'key' };
+}
+
+// UI hides what a role cannot change; this keeps a stray call from queueing a
+// write that RLS would reject on every retry
+function canWriteSetting(state: RateStore, key: string): boolean {
+  if (canEditSetting(state.authUser?.role, key)) return true;
+  console.error(`Changing ${key} is not permitted for this role`);
+  return false;
+}
+
+// Days of daily stats kept in localStorage; the rest is reloaded from Supabase on sync
+const PERSISTED_DAILY_STATS_DAYS = 7;
+
+// Flows kept in memory for the P&L views
+const PNL_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+// setTimeout cannot wait longer than ~24.8 days
+const MAX_SWITCH_DELAY_MS = 2 ** 31 - 1;
+
+const memoryStorage: StateStorage = {
+  getItem: () => null,
+  setItem: () => undefined,
+  removeItem: () => undefined,
+};
+
+// Signed-in user shared by every pair's store
+let currentAuthUser: AuthUser | null = null;
+let currentAuthChecked = false;
+
+function createRateStore(config: PairConfig) {
+  const { id: pair, utcOffset, scale } = config;
+  let platformRateTimer: ReturnType<typeof setTimeout> | null = null;
+
+  return create<RateStore>()(
+    persist(
+      (set, get) => ({
+        pair,
+        marketRate: 0,
+        platformRate: config.defaultPlatformRate,
+        lastUpdated: Date.now(),
+        rateConsensus: null,
+        costBuffer: Number((0.025 * scale).toPrecision(3)),
+        targetMargin: Number((DEFAULT_TARGET_MARGIN * scale).toPrecision(3)),
+        maxDeviation: DEFAULT_CONSENSUS_OPTIONS.maxDeviation,
+        lockTime: config.defaultLockTime,
+        riskRules: getDefaultRiskRules(scale),
+        alertChannels: [],
+        platformRates: [],
+        rateHistory: [],
+        dailyStats: [],
+        pnlFlows: [],
+        annotations: [],
+        notificationLevels: ['danger', 'critical'],
+        notificationsSnoozedUntil: 0,
+        monitorMode: 'local',
+        alertDismissed: false,
+        activeAlert: null,
+        alertHistory: [],
+        authUser: currentAuthUser,
+        authChecked: currentAuthChecked,
+        consecutiveExpansions: 0,
+        isInitialized: false,
+
+        setMarketRate: (rate) => set({ marketRate: rate, lastUpdated: Date.now() }),
+
+        setConsensus: (consensus) => set({
+          marketRate: consensus.rate,
+          rateConsensus: consensus,
+          lastUpdated: Date.now(),
+        }),
+
+        schedulePlatformRate: async (date, rate) => {
+          if (!canWriteSetting(get(), 'platform_rate')) return;
+          if (date < getBusinessDateKey(new Date(), utcOffset)) {
+            console.error(`Business date ${date} is closed; its platform rate can no longer change`);
+            return;
+          }
+          const now = Date.now();
+          const existing = get().platformRates.find(e => e.date === date);
+          const entry: PlatformRateEntry = {
+            date,
+            rate,
+            // A correction keeps its slot; a first rate for a day already under way starts now
+            effectiveFrom: existing?.effectiveFrom ?? Math.max(getScheduledEffectiveFrom(date, get().lockTime, utcOffset), now),
+            setBy: getActorName(get().authUser),
+            setAt: now,
+          };
+          set({ platformRates: mergeRateEntries(get().platformRates, [entry]) });
+          get().refreshPlatformRate();
+          try {
+            await enqueueWrite({ action: 'upsert', table: 'platform_rates', rows: [toPlatformRateRow(entry, pair)], onConflict: 'pair,date' });
+          } catch (error) {
+            console.error('Failed to sync platform rate:', error);
+          }
+        },
+
+        refreshPlatformRate: (now = Date.now()) => {
+          const { platformRates, platformRate } = get();
+          const entry = findRateEntryAt(platformRates, now);
+          if (entry && entry.rate !== platformRate) set({ platformRate: entry.rate });
+
+          // Switch at the next effective time itself rather than on the next poll
+          if (platformRateTimer) clearTimeout(platformRateTimer);
+          platformRateTimer = null;
+          const nextSwitch = getNextSwitchAt(platformRates, now);
+          if (nextSwitch !== null) {
+            platformRateTimer = setTimeout(() => get().refreshPlatformRate(), Math.min(nextSwitch - now, MAX_SWITCH_DELAY_MS));
+          }
+        },
+
+        applyPlatformRate: (entry) => {
+          const existing = get().platformRates.find(e => e.date === entry.date);
+          if (existing && existing.rate === entry.rate && existing.effectiveFrom === entry.effectiveFrom) return false;
+          set({ platformRates: mergeRateEntries(get().platformRates, [entry]) });
+          get().refreshPlatformRate();
+          return true;
+        },
+
+        loadPlatformRates: async () => {
+          try {
+            set({ platformRates: await fetchPlatformRates(pair) });
+            get().refreshPlatformRate();
+          } catch (error) {
+            console.error('Failed to load platform rates:', error);
+          }
+        },
+
+        setCostBuffer: async (buffer) => {
+          if (!canWriteSetting(get(), 'cost_buffer')) return;
+          set({ costBuffer: buffer });
+          try {
+            await enqueueWrite(settingWrite(get(), 'cost_buffer', buffer.toString()));
+          } catch (error) {
+            console.error('Failed to sync cost buffer:', error);
+          }
+        },
+
+        setTargetMargin: async (margin) => {
+          if (!canWriteSetting(get(), 'target_margin')) return;
+          set({ targetMargin: margin });
+          try {
+            await enqueueWrite(settingWrite(get(), 'target_margin', margin.toString()));
+          } catch (error) {
+            console.error('Failed to sync target margin:', error);
+          }
+        },
+
+        setMaxDeviation: async (deviation) => {
+          if (!canWriteSetting(get(), 'max_deviation')) return;
+          set({ maxDeviation: deviation });
+          try {
+            await enqueueWrite(settingWrite(get(), 'max_deviation', deviation.toString()));
+          } catch (error) {
+            console.error('Failed to sync max deviation:', error);
+          }
+        },
+
+        setLockTime: async (lockTime) => {
+          if (!canWriteSetting(get(), 'lock_time')) return;
+          // Rates not yet in force move with the lock time
+          const now = Date.now();
+          const rescheduled = get().platformRates
+            .filter(e => e.effectiveFrom > now)
+            .map(e => ({ ...e, effectiveFrom: Math.max(getScheduledEffectiveFrom(e.date, lockTime, utcOffset), now) }));
+          set({ lockTime, platformRates: mergeRateEntries(get().platformRates, rescheduled) });
+          get().refreshPlatformRate();
+          try {
+            await enqueueWrite(settingWrite(get(), 'lock_time', lockTime));
+            if (rescheduled.length > 0) {
+              await enqueueWrite({
+                action: 'upsert',
+                table: 'platform_rates',
+                rows: rescheduled.map(e => toPlatformRateRow(e, pair)),
+                onConflict: 'pair,date',
+              });
+            }
+          } catch (error) {
+            console.error('Failed to sync lock time:', error);
+          }
+        },
+
+        setRiskRules: async (rules) => {
+          if (!canWriteSetting(get(), 'risk_rules')) return;
+          const { rules: valid, errors } = validateRiskRules(rules, scale);
+          if (!valid) {
+            console.error('Rejected invalid risk rules:', errors);
+            return;
+          }
+          set({ riskRules: valid });
+          try {
+            await enqueueWrite(settingWrite(get(), 'risk_rules', JSON.stringify(valid)));
+          } catch (error) {
+            console.error('Failed to sync risk rules:', error);
+          }
+        },
+
+        setAlertChannels: async (channels) => {
+          if (!canWriteSetting(get(), 'alert_channels')) return;
+          const { channels: valid, errors } = validateAlertChannels(channels);
+          if (!valid) {
+            console.error('Rejected invalid alert channels:', errors);
+            return;
+          }
+          const previous = get().alertChannels;
+          const split = valid.map(splitChannelSecrets);
+          const alertChannels = split.map(({ channel }) => channel);
+          set({ alertChannels });
+          try {
+            await enqueueWrite(settingWrite(get(), 'alert_channels', JSON.stringify(alertChannels)));
+            // Credentials are only written when typed in; a blank field keeps the stored one
+            const updatedBy = getActorName(get().authUser);
+            const secretRows = split
+              .filter(({ secrets }) => Object.keys(secrets).length > 0)
+              .map(({ channel, secrets }) => toAlertChannelSecretRow(channel.id, secrets, pair, updatedBy));
+            if (secretRows.length > 0) {
+              await enqueueWrite({ action: 'upsert', table: 'alert_channel_secrets', rows: secretRows, onConflict: 'pair,channel_id' });
+            }
+            for (const removed of previous.filter(existing => !alertChannels.some(c => c.id === existing.id))) {
+              await enqueueWrite({ action: 'delete', table: 'alert_channel_secrets', match: { pair, channel_id: removed.id } });
+            }
+          } catch (error) {
+            console.error('Failed to sync alert channels:', error);
+          }
+        },
+
+        addRateRecord: async (record) => {
+          const history = get().rateHistory;
+          // Keep last 7 days (roughly 2000+ records at 5min intervals)
+          const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+          const filtered = history.filter(r => r.timestamp > sevenDaysAgo);
+          set({ rateHistory: [...filtered, record] });
+          get().foldDailyStats(record);
+
+          // Queue for Supabase (replayed until it lands)
+          try {
+            await enqueueWrite({
+              action: 'upsert',
+              table: 'rate_history',
+              rows: [toRateRow(record, pair)],
+              onConflict: 'pair,timestamp',
+              ignoreDuplicates: true,
+            });
+          } catch (error) {
+            console.error('Failed to push to Supabase:', error);
+          }
+        },
+
+        updateDailyStats: async (stats) => {
+          const dailyStats = get().dailyStats;
+          const existingIndex = dailyStats.findIndex(s => s.date === stats.date);
         
-        let newDailyStats;
-        if (existingIndex >= 0) {
-          dailyStats[existingIndex] = stats;
-          newDailyStats = [...dailyStats];
-        } else {
-          // Keep last 7 days
-          const recent = dailyStats.slice(-6);
-          newDailyStats = [...recent, stats];
-        }
-        set({ dailyStats: newDailyStats });
-
-        // Push to Supabase
-        try {
-          await supabase.from('daily_stats').upsert({
-            date: stats.date,
-            max_diff: stats.maxDiff,
-            min_diff: stats.minDiff,
-            avg_diff: stats.avgDiff,
-            max_market_rate: stats.maxMarketRate,
-            min_market_rate: stats.minMarketRate,
-            avg_market_rate: stats.avgMarketRate,
-            platform_rate: stats.platformRate,
-            risk_level: stats.riskLevel,
-            lock_time_rate: stats.lockTimeRate
-          }, { onConflict: 'date' });
-        } catch (error) {
-          console.error('Failed to push daily stats to Supabase:', error);
-        }
-      },
-
-      dismissAlert: () => set({ alertDismissed: true }),
-
-      resetAlert: () => set({ alertDismissed: false }),
-
-      incrementExpansions: () => set({ consecutiveExpansions: get().consecutiveExpansions + 1 }),
-
-      resetExpansions: () => set({ consecutiveExpansions: 0 }),
-
-      clearHistory: () => set({ rateHistory: [], dailyStats: [] }),
-
-      syncWithSupabase: async () => {
-        try {
-          // Fetch settings
-          const { data: settingsData } = await supabase.from('app_settings').select('*');
-          if (settingsData) {
-            const platformRateSetting = settingsData.find(s => s.key === 'platform_rate');
-            const costBufferSetting = settingsData.find(s => s.key === 'cost_buffer');
-            
-            if (platformRateSetting) set({ platformRate: parseFloat(platformRateSetting.value) });
-            if (costBufferSetting) set({ costBuffer: parseFloat(costBufferSetting.value) });
-          }
-          
-          // Fetch last 7 days history
+          let newDailyStats;
+          if (existingIndex >= 0) {
+            newDailyStats = [...dailyStats];
+            newDailyStats[existingIndex] = stats;
+          } else {
+            // Recomputed days can be older than the newest row, so keep date order
+            newDailyStats = [...dailyStats, stats].sort((a, b) => a.date.localeCompare(b.date));
+          }
+          set({ dailyStats: newDailyStats });
+
+          // Queue for Supabase (replayed until it lands)
+          try {
+            await enqueueWrite({ action: 'upsert', table: 'daily_stats', rows: [toDailyStatsRow(stats, pair)], onConflict: 'pair,date' });
+          } catch (error) {
+            console.error('Failed to push daily stats to Supabase:', error);
+          }
+        },
+
+        foldDailyStats: (record) => {
+          const date = getBusinessDateKey(new Date(record.timestamp), utcOffset);
+
+          // A record from a new business day closes the previous one
+          const openDay = get().dailyStats[get().dailyStats.length - 1];
+          if (openDay && openDay.date < date) get().closeDailyStats(openDay.date);
+
+          const current = get().dailyStats.find(s => s.date === date);
+          let next: DailyStats | null;
+          if (current && current.sampleCount !== undefined) {
+            next = foldRecord(current, record);
+          } else {
+            // No running count yet (first record, or a row loaded from an older
+            // client), so rebuild the day from the records we hold in memory.
+            const { start, end } = getBusinessDayRange(date, utcOffset);
+            const dayRecords = get().rateHistory.filter(r => r.timestamp >= start && r.timestamp <= end);
+            next = aggregateDailyStats(date, dayRecords, { lockTimeRate: current?.lockTimeRate });
+          }
+          // The day's locked rate, not the next day's rate seen after the evening switch
+          const platformRate = findRateForDate(get().platformRates, date, utcOffset);
+          if (next) get().updateDailyStats(platformRate !== undefined ? { ...next, platformRate } : next);
+        },
+
+        snapshotLockTimeRate: (marketRate, timestamp = Date.now()) => {
+          const date = getBusinessDateKey(new Date(timestamp), utcOffset);
+          const stats = get().dailyStats.find(s => s.date === date);
+          if (!stats || stats.lockTimeRate !== undefined) return;
+          if (timestamp < getLockTimestamp(date, get().lockTime, utcOffset)) return;
+          get().updateDailyStats({ ...stats, lockTimeRate: marketRate });
+        },
+
+        closeDailyStats: (date) => {
+          const stats = get().dailyStats.find(s => s.date === date);
+          if (!stats) return;
+          // If the tab missed the lock time, fall back to the rate in force then
+          const lockTimeRate = stats.lockTimeRate ?? findRateAtLockTime(get().rateHistory, date, get().lockTime, utcOffset);
+          const platformRate = findRateForDate(get().platformRates, date, utcOffset) ?? stats.platformRate;
+          get().updateDailyStats({ ...stats, lockTimeRate, platformRate });
+        },
+
+        recomputeDailyStats: async (date) => {
+          try {
+            const { start, end } = getBusinessDayRange(date, utcOffset);
+            const records = await fetchRateHistory(pair, start, end);
+            const platformRate = findRateForDate(get().platformRates, date, utcOffset);
+            const stats = aggregateDailyStats(date, records, {
+              lockTimeRate: findRateAtLockTime(records, date, get().lockTime, utcOffset),
+              ...(platformRate !== undefined ? { platformRate } : {}),
+            });
+            if (stats) get().updateDailyStats(stats);
+            return stats;
+          } catch (error) {
+            console.error('Failed to recompute daily stats:', error);
+            return null;
+          }
+        },
+
+        recordPnlFlows: async (inputs, source) => {
+          if (!hasRole(get().authUser?.role, 'operator')) {
+            console.error('Recording volumes requires the operator role');
+            return false;
+          }
+          if (inputs.length === 0) return false;
+          const createdBy = getActorName(get().authUser);
+          const flows = inputs.map(input => createPnlFlow(input, source, createdBy));
+          set({ pnlFlows: [...get().pnlFlows, ...flows].sort((a, b) => a.timestamp - b.timestamp) });
+          try {
+            await enqueueWrite({
+              action: 'upsert',
+              table: 'pnl_flows',
+              rows: flows.map(flow => toPnlFlowRow(flow, pair)),
+              onConflict: 'id',
+              ignoreDuplicates: true,
+            });
+          } catch (error) {
+            console.error('Failed to push volumes to Supabase:', error);
+          }
+          return true;
+        },
+
+        deletePnlFlow: async (id) => {
+          if (!hasRole(get().authUser?.role, 'operator')) {
+            console.error('Deleting volumes requires the operator role');
+            return;
+          }
+          set({ pnlFlows: get().pnlFlows.filter(f => f.id !== id) });
+          try {
+            await enqueueWrite({ action: 'delete', table: 'pnl_flows', match: { id } });
+          } catch (error) {
+            console.error('Failed to delete volume from Supabase:', error);
+          }
+        },
+
+        loadPnlFlows: async () => {
+          try {
+            const now = Date.now();
+            set({ pnlFlows: await fetchPnlFlows(pair, now - PNL_WINDOW_MS, now + 24 * 60 * 60 * 1000) });
+          } catch (error) {
+            console.error('Failed to load volumes:', error);
+          }
+        },
+
+        addNote: async (timestamp, text) => {
+          if (!hasRole(get().authUser?.role, 'operator')) {
+            console.error('Adding notes requires the operator role');
+            return false;
+          }
+          const note = createNote(timestamp, text, getActorName(get().authUser));
+          set({ annotations: mergeAnnotations(get().annotations, [note]) });
+          try {
+            await enqueueWrite({
+              action: 'upsert',
+              table: 'chart_annotations',
+              rows: [toAnnotationRow(note, pair)],
+              onConflict: 'id',
+              ignoreDuplicates: true,
+            });
+          } catch (error) {
+            console.error('Failed to push note to Supabase:', error);
+          }
+          return true;
+        },
+
+        deleteNote: async (id) => {
+          if (!hasRole(get().authUser?.role, 'operator')) {
+            console.error('Deleting notes requires the operator role');
+            return;
+          }
+          get().removeAnnotation(id);
+          try {
+            await enqueueWrite({ action: 'delete', table: 'chart_annotations', match: { id } });
+          } catch (error) {
+            console.error('Failed to delete note from Supabase:', error);
+          }
+        },
+
+        applyAnnotation: (annotation) => set({ annotations: mergeAnnotations(get().annotations, [annotation]) }),
+
+        removeAnnotation: (id) => set({ annotations: get().annotations.filter(a => a.id !== id) }),
+
+        loadAnnotations: async () => {
+          try {
+            const now = Date.now();
+            set({ annotations: await fetchAnnotations(pair, now - 7 * 24 * 60 * 60 * 1000, now + 24 * 60 * 60 * 1000) });
+          } catch (error) {
+            console.error('Failed to load annotations:', error);
+          }
+        },
+
+        setNotificationLevels: (levels) => set({ notificationLevels: levels }),
+
+        snoozeNotifications: (durationMs) => set({ notificationsSnoozedUntil: Date.now() + durationMs }),
+
+        dismissAlert: () => {
+          set({ alertDismissed: true });
+          const active = get().activeAlert;
+          if (active) get().acknowledgeAlert(active.id);
+        },
+
+        resetAlert: () => set({ alertDismissed: false }),
+
+        trackAlertIncident: async (assessment, snapshot) => {
+          const { changed, open } = advanceIncident(get().activeAlert, assessment, snapshot);
+          if (!changed) return;
+          set({
+            activeAlert: open,
+            alertHistory: [changed, ...get().alertHistory.filter(a => a.id !== changed.id)],
+          });
+
+          try {
+            await enqueueWrite({ action: 'upsert', table: 'alerts', rows: [toAlertRow(changed, pair)], onConflict: 'id' });
+          } catch (error) {
+            console.error('Failed to push alert to Supabase:', error);
+          }
+        },
+
+        acknowledgeAlert: async (id) => {
+          const incident = get().alertHistory.find(a => a.id === id);
+          if (!incident || incident.acknowledgedAt !== null) return;
+
+          const acknowledgedBy = getActorName(get().authUser) ?? '未署名';
+          const acknowledgedAt = Date.now();
+          const active = get().activeAlert;
+          set({
+            activeAlert: active?.id === id ? { ...active, acknowledgedBy, acknowledgedAt } : active,
+            alertHistory: get().alertHistory.map(a => (a.id === id ? { ...a, acknowledgedBy, acknowledgedAt } : a)),
+          });
+
+          try {
+            await enqueueWrite({
+              action: 'update',
+              table: 'alerts',
+              values: { acknowledged_by: acknowledgedBy, acknowledged_at: acknowledgedAt },
+              match: { id },
+              onlyIfNull: 'acknowledged_at',
+            });
+          } catch (error) {
+            console.error('Failed to record alert acknowledgement:', error);
+          }
+        },
+
+        loadAlertHistory: async () => {
+          try {
+            const alerts = await fetchAlerts(pair);
+            set({
+              alertHistory: alerts,
+              activeAlert: alerts.find(a => a.endedAt === null) ?? null,
+            });
+          } catch (error) {
+            console.error('Failed to load alert history:', error);
+          }
+        },
+
+        // Applies to every pair, including stores created later
+        setAuthUser: (user) => {
+          currentAuthUser = user;
+          currentAuthChecked = true;
+          stores.forEach(store => store.setState({
+            authUser: user,
+            authChecked: true,
+            // Signing out stops polling and writes until the next sign-in resyncs
+            ...(user ? {} : { isInitialized: false }),
+          }));
+        },
+
+        incrementExpansions: () => set({ consecutiveExpansions: get().consecutiveExpansions + 1 }),
+
+        resetExpansions: () => set({ consecutiveExpansions: 0 }),
+
+        clearHistory: async () => {
+          if (!hasRole(get().authUser?.role, 'admin')) {
+            console.error('Clearing history requires the admin role');
+            return false;
+          }
+          try {
+            // Destructive, so it goes straight to Supabase rather than the outbox
+            const { error: historyError } = await supabase.from('rate_history').delete().eq('pair', pair);
+            if (historyError) throw historyError;
+            const { error: statsError } = await supabase.from('daily_stats').delete().eq('pair', pair);
+            if (statsError) throw statsError;
+            set({ rateHistory: [], dailyStats: [] });
+            return true;
+          } catch (error) {
+            console.error('Failed to clear history:', error);
+            return false;
+          }
+        },
+
+        setMonitorMode: (mode) => set({ monitorMode: mode }),
+
+        // Merge rows written by the headless monitor without pushing them back
+        ingestRemoteData: (records, stats) => {
           const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-          const { data: historyData } = await supabase
-            .from('rate_history')
-            .select('*')
-            .gt('timestamp', sevenDaysAgo)
-            .order('timestamp', { ascending: true });
-
-          if (historyData) {
-            const history: RateRecord[] = historyData.map(r => ({
-              timestamp: Number(r.timestamp),
-              marketRate: r.market_rate,
-              platformRate: r.platform_rate,
-              diff: r.diff,
-              riskLevel: r.risk_level
-            }));
-            set({ rateHistory: history });
-          }
-
-          // Fetch daily stats
-          const { data: statsData } = await supabase
-            .from('daily_stats')
-            .select('*')
-            .order('date', { ascending: true });
-
-          if (statsData) {
-            const stats: DailyStats[] = statsData.map(s => ({
-              date: s.date,
-              maxDiff: s.max_diff,
-              minDiff: s.min_diff,
-              avgDiff: s.avg_diff,
-              maxMarketRate: s.max_market_rate,
-              minMarketRate: s.min_market_rate,
-              avgMarketRate: s.avg_market_rate,
-              platformRate: s.platform_rate,
-              riskLevel: s.risk_level,
-              lockTimeRate: s.lock_time_rate
-            }));
-            set({ dailyStats: stats });
-          }
-
-          // ONLY set isInitialized to true after everything is loaded
-          set({ isInitialized: true });
-        } catch (error) {
-          console.error('Supabase sync failed:', error);
-        }
-      },
+          const known = new Set(get().rateHistory.map(r => r.timestamp));
+          const rateHistory = [...get().rateHistory, ...records.filter(r => !known.has(r.timestamp))]
+            .filter(r => r.timestamp > sevenDaysAgo)
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+          const byDate = new Map(get().dailyStats.map(s => [s.date, s]));
+          stats.forEach(s => {
+            // A late echo of an older version must not roll back a running count
+            const local = byDate.get(s.date);
+            if (!local || (s.sampleCount ?? 0) >= (local.sampleCount ?? 0)) byDate.set(s.date, s);
+          });
+          const dailyStats = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+          set({ rateHistory, dailyStats });
+        },
+
+        // Fetch rows written elsewhere since the newest sample we hold
+        pullRecentData: async () => {
+          const now = Date.now();
+          const history = get().rateHistory;
+          const lastRecord = history[history.length - 1];
+          const since = lastRecord ? lastRecord.timestamp + 1 : now - 7 * 24 * 60 * 60 * 1000;
+          const [records, stats] = await Promise.all([
+            fetchRateHistory(pair, since, now),
+            // Yesterday too, so the lock-time rate written at day close shows up
+            fetchDailyStats(
+              pair,
+              getBusinessDateKey(new Date(now - 24 * 60 * 60 * 1000), utcOffset),
+              getBusinessDateKey(new Date(now), utcOffset)
+            ),
+          ]);
+          get().ingestRemoteData(records, stats);
+        },
+
+        applySetting: (key, value) => {
+          const state = get();
+          const applyNumber = (field: 'costBuffer' | 'targetMargin' | 'maxDeviation') => {
+            const parsed = parseFloat(value);
+            if (isNaN(parsed) || parsed === state[field]) return false;
+            set({ [field]: parsed });
+            return true;
+          };
+
+          switch (key) {
+            case 'cost_buffer': return applyNumber('costBuffer');
+            case 'target_margin': return applyNumber('targetMargin');
+            case 'max_deviation': return applyNumber('maxDeviation');
+            case 'lock_time':
+              if (value === state.lockTime) return false;
+              set({ lockTime: value });
+              return true;
+            case 'risk_rules':
+              try {
+                const { rules, errors } = validateRiskRules(JSON.parse(value), scale);
+                if (!rules) {
+                  console.error('Stored risk rules are invalid:', errors);
+                  return false;
+                }
+                if (JSON.stringify(rules) === JSON.stringify(state.riskRules)) return false;
+                set({ riskRules: rules });
+                return true;
+              } catch (error) {
+                console.error('Stored risk rules are not valid JSON:', error);
+                return false;
+              }
+            case 'alert_channels':
+              try {
+                const { channels, errors } = validateAlertChannels(JSON.parse(value));
+                if (!channels) {
+                  console.error('Stored alert channels are invalid:', errors);
+                  return false;
+                }
+                if (JSON.stringify(channels) === JSON.stringify(state.alertChannels)) return false;
+                set({ alertChannels: channels });
+                return true;
+              } catch (error) {
+                console.error('Stored alert channels are not valid JSON:', error);
+                return false;
+              }
+            default:
+              return false;
+          }
+        },
+
+        loadSettings: async () => {
+          try {
+            const { data: settingsData } = await supabase.from('app_settings').select('*');
+            settingsData?.forEach(setting => {
+              const { pair: settingPair, key } = parsePairSettingKey(setting.key);
+              if (settingPair === pair) get().applySetting(key, setting.value);
+            });
+          } catch (error) {
+            console.error('Failed to load settings:', error);
+          }
+        },
+
+        syncWithSupabase: async () => {
+          try {
+            await get().loadSettings();
+            await get().loadPlatformRates();
+
+            // Fetch last 7 days history
+            const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+            const { data: historyData } = await supabase
+              .from('rate_history')
+              .select('*')
+              .eq('pair', pair)
+              .gt('timestamp', sevenDaysAgo)
+              .order('timestamp', { ascending: true });
+
+            if (historyData) {
+              const history: RateRecord[] = historyData.map(fromRateRow);
+              set({ rateHistory: history });
+            }
+
+            // Fetch daily stats
+            const { data: statsData } = await supabase
+              .from('daily_stats')
+              .select('*')
+              .eq('pair', pair)
+              .order('date', { ascending: true });
+
+            if (statsData) {
+              const stats: DailyStats[] = statsData.map(fromDailyStatsRow);
+              set({ dailyStats: stats });
+            }
+
+            await get().loadAlertHistory();
+            await get().loadPnlFlows();
+            await get().loadAnnotations();
+
+            // ONLY set isInitialized to true after everything is loaded
+            set({ isInitialized: true });
+          } catch (error) {
+            console.error('Supabase sync failed:', error);
+          }
+        },
+      }),
+      {
+        // MYR keeps the key it had before pairs existed
+        name: `${pair.toLowerCase()}-usdt-rate-store`,
+        // The headless monitor has no localStorage and keeps its state in memory
+        storage: createJSONStorage(() => (typeof localStorage !== 'undefined' ? localStorage : memoryStorage)),
+        // 1: risk rules split into loss/uncompetitive sides
+        version: 1,
+        migrate: (persisted, version) => {
+          const state = persisted as Partial<RateStore>;
+          if (version < 1) {
+            return { ...state, riskRules: upgradeRiskRules(state.riskRules, scale) };
+          }
+          return state;
+        },
+        partialize: (state) => ({
+          platformRate: state.platformRate,
+          platformRates: state.platformRates,
+          costBuffer: state.costBuffer,
+          targetMargin: state.targetMargin,
+          maxDeviation: state.maxDeviation,
+          lockTime: state.lockTime,
+          riskRules: state.riskRules,
+          notificationLevels: state.notificationLevels,
+          notificationsSnoozedUntil: state.notificationsSnoozedUntil,
+          rateHistory: state.rateHistory,
+          dailyStats: state.dailyStats.slice(-PERSISTED_DAILY_STATS_DAYS),
+        }),
+      }
+    )
+  );
+}
+
+type RateStoreApi = ReturnType<typeof createRateStore>;
+
+const stores = new Map<PairId, RateStoreApi>();
+
+// Stores are created on first use, so pairs nobody looks at cost nothing
+export function getRateStore(pair: PairId): RateStoreApi {
+  let store = stores.get(pair);
+  if (!store) {
+    store = createRateStore(getPairConfig(pair));
+    stores.set(pair, store);
+  }
+  return store;
+}
+
+interface PairStore {
+  activePair: PairId;
+  setActivePair: (pair: PairId) => void;
+}
+
+// Pair shown in this browser (or monitored by the headless monitor)
+export const usePairStore = create<PairStore>()(
+  persist(
+    (set) => ({
+      activePair: DEFAULT_PAIR_ID,
+      setActivePair: (pair) => set({ activePair: pair }),
     }),
     {
-      name: 'myr-usdt-rate-store',
-      partialize: (state) => ({
-        platformRate: state.platformRate,
-        costBuffer: state.costBuffer,
-        rateHistory: state.rateHistory,
-        dailyStats: state.dailyStats,
-      }),
+      name: 'usdt-monitor-active-pair',
+      storage: createJSONStorage(() => (typeof localStorage !== 'undefined' ? localStorage : memoryStorage)),
     }
   )
 );
+
+export function usePairConfig(): PairConfig {
+  return getPairConfig(usePairStore(state => state.activePair));
+}
+
+function getActiveRateStore(): RateStoreApi {
+  return getRateStore(usePairStore.getState().activePair);
+}
+
+// The active pair's store. Works as a hook like any zustand store, and its
+// getState / setState follow the active pair, so code written for
+// a single pair keeps working unchanged.
+function useActiveRateStore(): RateStore;
+function useActiveRateStore<T>(selector: (state: RateStore) => T): T;
+function useActiveRateStore<T>(selector?: (state: RateStore) => T) {
+  const store = getRateStore(usePairStore(state => state.activePair));
+  return selector ? store(selector) : store();
+}
+
+export const useRateStore = Object.assign(useActiveRateStore, {
+  getState: (): RateStore => getActiveRateStore().getState(),
+  setState: (partial: Partial<RateStore>) => getActiveRateStore().setState(partial),
+});
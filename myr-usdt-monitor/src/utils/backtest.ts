@@ -0,0 +1,101 @@
+import type { RateRecord } from '../store/rateStore';
+import type { PairConfig } from './pairs';
+import { assessRisk, getRefreshInterval, isLockPriceWindow } from './rateUtils';
+import { RISK_LEVELS, RiskAssessment, RiskLevel, RiskRule } from './riskRules';
+
+// Risk-rule backtest
+//
+// Replays stored rate_history through a rule set the way the live monitor
+// evaluates it: lock window from each record's timestamp, expansion streaks
+// from successive spreads, and an alert on every escalation (a higher level,
+// or a new side at a non-safe level). History only stores changes, so each
+// record's level holds until the next record.
+//
+// The live monitor counts expansions per poll, and a poll that sees no change
+// ends the streak. A gap between records longer than the poll interval means
+// such a poll happened, so the replay resets the streak there too.
+
+export interface BacktestSegment {
+  start: number;
+  end: number;
+  assessment: RiskAssessment;
+}
+
+export interface BacktestResult {
+  alerts: Record<RiskLevel, number>;            // escalations into each level
+  timeInLevel: Record<RiskLevel, number>;       // ms
+  firstTrigger: Record<RiskLevel, number | null>;
+  incidents: number;                            // stretches away from 'safe'
+  segments: BacktestSegment[];
+}
+
+// Slack for polls that run late (slow sources, timer drift)
+const POLL_GAP_FACTOR = 1.5;
+
+function emptyByLevel<T>(value: T): Record<RiskLevel, T> {
+  return { safe: value, warning: value, danger: value, critical: value };
+}
+
+function isEscalation(from: RiskAssessment, to: RiskAssessment): boolean {
+  return RISK_LEVELS.indexOf(to.level) > RISK_LEVELS.indexOf(from.level)
+    || (to.level !== 'safe' && to.side !== from.side);
+}
+
+export function runBacktest(
+  records: RateRecord[],
+  rules: RiskRule[],
+  pair: PairConfig,
+  costBuffer: number,
+  end: number = records.length > 0 ? records[records.length - 1].timestamp : 0
+): BacktestResult {
+  const result: BacktestResult = {
+    alerts: emptyByLevel(0),
+    timeInLevel: emptyByLevel(0),
+    firstTrigger: emptyByLevel<number | null>(null),
+    incidents: 0,
+    segments: [],
+  };
+
+  let previous: RiskAssessment = { level: 'safe', side: null };
+  let previousDiff: number | null = null;
+  let expansions = 0;
+
+  records.forEach((record, index) => {
+    const diff = record.platformRate - record.marketRate;
+    const isLockWindow = isLockPriceWindow(new Date(record.timestamp), pair);
+    if (index > 0 && record.timestamp - records[index - 1].timestamp > getRefreshInterval(isLockWindow) * POLL_GAP_FACTOR) {
+      expansions = 0; // an unchanged poll in between
+    }
+    if (previousDiff !== null) {
+      expansions = Math.abs(diff) > Math.abs(previousDiff) ? expansions + 1 : 0;
+    }
+    previousDiff = diff;
+
+    const assessment = assessRisk(
+      diff,
+      { isLockWindow, consecutiveExpansions: expansions, costBuffer },
+      rules
+    );
+
+    if (isEscalation(previous, assessment)) {
+      result.alerts[assessment.level] += 1;
+      result.firstTrigger[assessment.level] ??= record.timestamp;
+    }
+    if (previous.level === 'safe' && assessment.level !== 'safe') result.incidents += 1;
+
+    const segmentEnd = index < records.length - 1 ? records[index + 1].timestamp : Math.max(end, record.timestamp);
+    result.timeInLevel[assessment.level] += segmentEnd - record.timestamp;
+
+    // Merge runs of the same assessment so the overlay stays small
+    const last = result.segments[result.segments.length - 1];
+    if (last && last.assessment.level === assessment.level && last.assessment.side === assessment.side) {
+      last.end = segmentEnd;
+    } else {
+      result.segments.push({ start: record.timestamp, end: segmentEnd, assessment });
+    }
+
+    previous = assessment;
+  });
+
+  return result;
+}
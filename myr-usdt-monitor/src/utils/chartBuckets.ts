@@ -0,0 +1,146 @@
+import type { RateRecord } from '../store/rateStore';
+
+// Time bucketing for charts
+//
+// Records are grouped into fixed-width time buckets. Downsampling keeps the
+// first, lowest, highest and last record of each bucket (in time order), so a
+// long range drawn with a few hundred points still shows every spike.
+
+// Index of the first record at or after the timestamp
+export function lowerBound(records: RateRecord[], timestamp: number): number {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (records[mid].timestamp < timestamp) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+export function downsampleMinMax(records: RateRecord[], bucketCount: number): RateRecord[] {
+  if (records.length <= bucketCount * 4 || bucketCount <= 0) return records;
+
+  const start = records[0].timestamp;
+  const span = records[records.length - 1].timestamp - start || 1;
+  const result: RateRecord[] = [];
+  let bucket: RateRecord[] = [];
+  let bucketIndex = 0;
+
+  const flush = () => {
+    if (bucket.length === 0) return;
+    let min = bucket[0];
+    let max = bucket[0];
+    bucket.forEach(record => {
+      if (record.marketRate < min.marketRate) min = record;
+      if (record.marketRate > max.marketRate) max = record;
+    });
+    const kept = new Set([bucket[0], min, max, bucket[bucket.length - 1]]);
+    result.push(...[...kept].sort((a, b) => a.timestamp - b.timestamp));
+    bucket = [];
+  };
+
+  records.forEach(record => {
+    const index = Math.min(bucketCount - 1, Math.floor(((record.timestamp - start) / span) * bucketCount));
+    if (index !== bucketIndex) {
+      flush();
+      bucketIndex = index;
+    }
+    bucket.push(record);
+  });
+  flush();
+
+  return result;
+}
+
+// OHLC candles
+//
+// History only stores changes, so a bucket opens at the rate carried in from
+// the record before it. The spread range is the lowest and highest diff seen in
+// the bucket; the platform rate is the one in force at its close. A bucket
+// without changes is a flat candle at the carried rate (count 0), up to `until`
+// when given, so quiet periods do not read as gaps.
+
+export interface Candle {
+  start: number;
+  end: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  spreadLow: number;
+  spreadHigh: number;
+  platformRate: number;
+  count: number; // records inside the bucket
+}
+
+export const CANDLE_INTERVALS = [
+  { id: '1m', label: '1分', ms: 60 * 1000 },
+  { id: '5m', label: '5分', ms: 5 * 60 * 1000 },
+  { id: '15m', label: '15分', ms: 15 * 60 * 1000 },
+  { id: '1h', label: '1时', ms: 60 * 60 * 1000 },
+  { id: '1d', label: '1日', ms: 24 * 60 * 60 * 1000 },
+] as const;
+
+export type CandleInterval = typeof CANDLE_INTERVALS[number]['id'];
+
+export function getCandleIntervalMs(interval: CandleInterval): number {
+  return CANDLE_INTERVALS.find(i => i.id === interval)!.ms;
+}
+
+// Buckets follow the desk's clock, so hourly candles start on the hour and
+// daily candles on the business date
+export function getBucketStart(timestamp: number, intervalMs: number, utcOffset: number): number {
+  const offsetMs = utcOffset * 3600000;
+  return Math.floor((timestamp + offsetMs) / intervalMs) * intervalMs - offsetMs;
+}
+
+function flatCandle(start: number, intervalMs: number, carried: RateRecord): Candle {
+  return {
+    start,
+    end: start + intervalMs,
+    open: carried.marketRate,
+    high: carried.marketRate,
+    low: carried.marketRate,
+    close: carried.marketRate,
+    spreadLow: carried.diff,
+    spreadHigh: carried.diff,
+    platformRate: carried.platformRate,
+    count: 0,
+  };
+}
+
+export function bucketCandles(records: RateRecord[], intervalMs: number, utcOffset: number, until?: number): Candle[] {
+  const candles: Candle[] = [];
+  let previous: RateRecord | null = null;
+
+  // Flat candles for the quiet buckets between the last candle and `start`
+  const fillTo = (start: number) => {
+    const last = candles[candles.length - 1];
+    if (!last || !previous) return;
+    for (let bucket = last.end; bucket < start; bucket += intervalMs) {
+      candles.push(flatCandle(bucket, intervalMs, previous));
+    }
+  };
+
+  records.forEach(record => {
+    const start = getBucketStart(record.timestamp, intervalMs, utcOffset);
+    let candle = candles[candles.length - 1];
+    if (!candle || candle.start !== start) {
+      fillTo(start);
+      candle = flatCandle(start, intervalMs, previous ?? record);
+      candles.push(candle);
+    }
+    candle.high = Math.max(candle.high, record.marketRate);
+    candle.low = Math.min(candle.low, record.marketRate);
+    candle.close = record.marketRate;
+    candle.spreadLow = Math.min(candle.spreadLow, record.diff);
+    candle.spreadHigh = Math.max(candle.spreadHigh, record.diff);
+    candle.platformRate = record.platformRate;
+    candle.count += 1;
+    previous = record;
+  });
+  if (until !== undefined) fillTo(until);
+
+  return candles;
+}
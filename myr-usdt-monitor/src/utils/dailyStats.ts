@@ -0,0 +1,84 @@
+import type { RateRecord, DailyStats } from '../store/rateStore';
+import { getBusinessDayRange } from './rateUtils';
+
+const RISK_ORDER: RateRecord['riskLevel'][] = ['safe', 'warning', 'danger', 'critical'];
+
+export function worstRiskLevel(levels: RateRecord['riskLevel'][]): RateRecord['riskLevel'] {
+  return levels.reduce<RateRecord['riskLevel']>(
+    (worst, level) => (RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(worst) ? level : worst),
+    'safe'
+  );
+}
+
+// Aggregate one business day's records into a DailyStats row
+//
+// Averages are per stored record, not time-weighted. History only stores
+// changes, so a burst of changes in one hour weighs more than a quiet
+// afternoon; daily_stats rows written elsewhere use the same definition.
+export function aggregateDailyStats(
+  date: string,
+  records: RateRecord[],
+  overrides: Partial<DailyStats> = {}
+): DailyStats | null {
+  if (records.length === 0) return null;
+
+  const diffs = records.map(r => r.diff);
+  const rates = records.map(r => r.marketRate);
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+  return {
+    date,
+    maxDiff: Math.max(...diffs),
+    minDiff: Math.min(...diffs),
+    avgDiff: sum(diffs) / diffs.length,
+    maxMarketRate: Math.max(...rates),
+    minMarketRate: Math.min(...rates),
+    avgMarketRate: sum(rates) / rates.length,
+    platformRate: records[records.length - 1].platformRate,
+    riskLevel: worstRiskLevel(records.map(r => r.riskLevel)),
+    sampleCount: records.length,
+    ...overrides,
+  };
+}
+
+// Fold one more record into a day's running statistics
+export function foldRecord(stats: DailyStats, record: RateRecord): DailyStats {
+  const count = stats.sampleCount ?? 1;
+  return {
+    ...stats,
+    maxDiff: Math.max(stats.maxDiff, record.diff),
+    minDiff: Math.min(stats.minDiff, record.diff),
+    avgDiff: (stats.avgDiff * count + record.diff) / (count + 1),
+    maxMarketRate: Math.max(stats.maxMarketRate, record.marketRate),
+    minMarketRate: Math.min(stats.minMarketRate, record.marketRate),
+    avgMarketRate: (stats.avgMarketRate * count + record.marketRate) / (count + 1),
+    platformRate: record.platformRate,
+    riskLevel: worstRiskLevel([stats.riskLevel, record.riskLevel]),
+    sampleCount: count + 1,
+  };
+}
+
+// Timestamp of the lock time ('HH:mm', desk local time) on a business date
+export function getLockTimestamp(date: string, lockTime: string, utcOffset: number): number {
+  const [hours, minutes] = lockTime.split(':').map(Number);
+  return getBusinessDayRange(date, utcOffset).start + (hours * 60 + minutes) * 60000;
+}
+
+// History only stores changes, so the rate in force at lock time is the
+// last record at or before it on that day.
+export function findRateAtLockTime(
+  records: RateRecord[],
+  date: string,
+  lockTime: string,
+  utcOffset: number
+): number | undefined {
+  const { start } = getBusinessDayRange(date, utcOffset);
+  const lockAt = getLockTimestamp(date, lockTime, utcOffset);
+  let rate: number | undefined;
+  for (const record of records) {
+    if (record.timestamp < start) continue;
+    if (record.timestamp > lockAt) break;
+    rate = record.marketRate;
+  }
+  return rate;
+}
@@ -0,0 +1,150 @@
+// Reading tabular files for imports
+//
+// Both readers return the first sheet as rows of cell text. CSV is parsed per
+// RFC 4180 (quoted fields may hold commas, doubled quotes and line breaks).
+// XLSX is unzipped with the browser's DecompressionStream and its XML read
+// with DOMParser; numeric cells, including dates, come back as their raw
+// value, so an Excel date arrives as a serial day number.
+
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+interface ZipEntry {
+  method: number;
+  offset: number;
+  compressedSize: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054B50) end--;
+  if (end < 0) throw new Error('不是有效的 XLSX 文件');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+    });
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('不支持的 XLSX 压缩方式');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+// Elements by local name, whatever prefix the writer used
+function byTag(parent: Document | Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', tag));
+}
+
+// 'B12' -> 1
+function getColumnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const char of letters) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+export async function readXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipDirectory(bytes);
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(bytes, entry) : null;
+  };
+
+  // First sheet in workbook order, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const [workbookXml, relsXml] = await Promise.all([read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels')]);
+  if (workbookXml && relsXml) {
+    const firstSheet = byTag(parseXml(workbookXml), 'sheet')[0];
+    const relId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const target = byTag(parseXml(relsXml), 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedXml
+    ? byTag(parseXml(sharedXml), 'si').map(si => byTag(si, 't').map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const sheetXml = await read(sheetPath);
+  if (!sheetXml) throw new Error('XLSX 文件中没有工作表');
+
+  const rows = byTag(parseXml(sheetXml), 'row').map(rowElement => {
+    const row: string[] = [];
+    byTag(rowElement, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const column = ref ? getColumnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = byTag(cell, 't').map(t => t.textContent ?? '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (row.length < column) row.push('');
+      row[column] = text;
+    });
+    return row;
+  });
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
@@ -0,0 +1,92 @@
+// Currency pairs monitored against USDT
+//
+// Each desk quotes USDT in its own fiat, runs its business day in its own
+// timezone and locks its platform rate in its own window. Price-level settings
+// (thresholds, cost buffer) are expressed in the pair's fiat, so their defaults
+// scale with how many units of it one USDT buys.
+
+export type PairId = 'MYR' | 'THB' | 'IDR' | 'SGD';
+
+export interface PairConfig {
+  id: PairId;
+  label: string; // 'MYR/USDT'
+  name: string;
+  region: string;
+  utcOffset: number; // hours; none of these desks observe daylight saving
+  lockWindow: { start: string; end: string }; // 'HH:mm' local, may wrap midnight
+  defaultLockTime: string;
+  defaultPlatformRate: number;
+  scale: number; // price level relative to MYR, used to scale default thresholds
+}
+
+export const PAIRS: PairConfig[] = [
+  {
+    id: 'MYR',
+    label: 'MYR/USDT',
+    name: '马来西亚林吉特',
+    region: '马来西亚',
+    utcOffset: 8,
+    lockWindow: { start: '23:20', end: '00:30' },
+    defaultLockTime: '23:50',
+    defaultPlatformRate: 4.35,
+    scale: 1,
+  },
+  {
+    id: 'THB',
+    label: 'THB/USDT',
+    name: '泰铢',
+    region: '泰国',
+    utcOffset: 7,
+    lockWindow: { start: '23:20', end: '00:30' },
+    defaultLockTime: '23:50',
+    defaultPlatformRate: 33.5,
+    scale: 7.5,
+  },
+  {
+    id: 'IDR',
+    label: 'IDR/USDT',
+    name: '印尼盾',
+    region: '印度尼西亚',
+    utcOffset: 7,
+    lockWindow: { start: '23:20', end: '00:30' },
+    defaultLockTime: '23:50',
+    defaultPlatformRate: 16300,
+    scale: 3700,
+  },
+  {
+    id: 'SGD',
+    label: 'SGD/USDT',
+    name: '新加坡元',
+    region: '新加坡',
+    utcOffset: 8,
+    lockWindow: { start: '23:20', end: '00:30' },
+    defaultLockTime: '23:50',
+    defaultPlatformRate: 1.34,
+    scale: 0.3,
+  },
+];
+
+export const DEFAULT_PAIR_ID: PairId = 'MYR';
+
+export function isPairId(value: unknown): value is PairId {
+  return PAIRS.some(pair => pair.id === value);
+}
+
+export function getPairConfig(id: PairId): PairConfig {
+  return PAIRS.find(pair => pair.id === id) ?? PAIRS[0];
+}
+
+export function getTimeZoneLabel(pair: PairConfig): string {
+  return `GMT${pair.utcOffset >= 0 ? '+' : ''}${pair.utcOffset}`;
+}
+
+// MYR predates pairs and keeps its unprefixed app_settings keys
+export function getPairSettingKey(pair: PairId, key: string): string {
+  return pair === DEFAULT_PAIR_ID ? key : `${pair}:${key}`;
+}
+
+export function parsePairSettingKey(settingKey: string): { pair: PairId; key: string } {
+  const [prefix, ...rest] = settingKey.split(':');
+  if (rest.length > 0 && isPairId(prefix)) return { pair: prefix, key: rest.join(':') };
+  return { pair: DEFAULT_PAIR_ID, key: settingKey };
+}
@@ -0,0 +1,100 @@
+import type { RateRecord } from '../store/rateStore';
+import { assessRisk, getBusinessDateKey } from './rateUtils';
+import { RISK_LEVELS, RiskAssessment, RiskRule } from './riskRules';
+
+// Platform-rate recommendation for the lock window
+//
+// Start from the consensus market rate plus cost buffer and target margin, then
+// shift by half the difference between the typical intraday rise and fall so
+// the margin sits in the middle of how the market usually moves in a day. Each
+// scenario replays a typical or worst recent day against the suggested rate.
+
+export interface IntradayVolatility {
+  typicalUp: number;   // mean rise of the market rate above the day's opening sample
+  typicalDown: number; // mean fall below it
+  worstUp: number;
+  worstDown: number;
+  sampleDays: number;
+}
+
+export interface RecommendationScenario {
+  label: string;
+  marketRate: number;
+  diff: number;
+  assessment: RiskAssessment;
+}
+
+export interface RateRecommendation {
+  rate: number;
+  scenarios: RecommendationScenario[]; // market rising first, falling last
+  best: RiskAssessment;
+  worst: RiskAssessment;
+}
+
+export const DEFAULT_TARGET_MARGIN = 0.01;
+
+// Days with fewer samples say little about how far the rate can move
+const MIN_DAY_SAMPLES = 3;
+
+export function estimateIntradayVolatility(records: RateRecord[], utcOffset: number): IntradayVolatility {
+  const days = new Map<string, number[]>();
+  records.forEach(record => {
+    const date = getBusinessDateKey(new Date(record.timestamp), utcOffset);
+    const rates = days.get(date) ?? [];
+    rates.push(record.marketRate);
+    days.set(date, rates);
+  });
+
+  const ups: number[] = [];
+  const downs: number[] = [];
+  days.forEach(rates => {
+    if (rates.length < MIN_DAY_SAMPLES) return;
+    ups.push(Math.max(...rates) - rates[0]);
+    downs.push(rates[0] - Math.min(...rates));
+  });
+
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0);
+  return {
+    typicalUp: mean(ups),
+    typicalDown: mean(downs),
+    worstUp: ups.length > 0 ? Math.max(...ups) : 0,
+    worstDown: downs.length > 0 ? Math.max(...downs) : 0,
+    sampleDays: ups.length,
+  };
+}
+
+function rankAssessment(assessment: RiskAssessment): number {
+  return RISK_LEVELS.indexOf(assessment.level);
+}
+
+export function recommendPlatformRate(
+  marketRate: number,
+  costBuffer: number,
+  targetMargin: number,
+  volatility: IntradayVolatility,
+  rules: RiskRule[]
+): RateRecommendation {
+  const skew = (volatility.typicalUp - volatility.typicalDown) / 2;
+  const rate = Number((marketRate + costBuffer + targetMargin + skew).toFixed(4));
+
+  // The next day is mostly outside the lock window and starts with no expansion streak
+  const context = { isLockWindow: false, consecutiveExpansions: 0, costBuffer };
+  const scenarios = [
+    { label: '最大涨幅', marketRate: marketRate + volatility.worstUp },
+    { label: '典型涨幅', marketRate: marketRate + volatility.typicalUp },
+    { label: '当前市场', marketRate },
+    { label: '典型跌幅', marketRate: marketRate - volatility.typicalDown },
+    { label: '最大跌幅', marketRate: marketRate - volatility.worstDown },
+  ].map(scenario => {
+    const diff = rate - scenario.marketRate;
+    return { ...scenario, diff, assessment: assessRisk(diff, context, rules) };
+  });
+
+  const sorted = [...scenarios].sort((a, b) => rankAssessment(a.assessment) - rankAssessment(b.assessment));
+  return {
+    rate,
+    scenarios,
+    best: sorted[0].assessment,
+    worst: sorted[sorted.length - 1].assessment,
+  };
+}
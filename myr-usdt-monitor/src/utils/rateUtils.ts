@@ -1,65 +1,120 @@
 import { format, addHours } from 'date-fns';
+import { DEFAULT_PAIR_ID, getPairConfig, PairConfig } from './pairs';
+import { DEFAULT_RISK_RULES, evaluateRisk, RiskAssessment, RiskContext, RiskRule, RiskSide } from './riskRules';
+import { downloadBlob, ExportRow, toCSV } from './exportFormats';
 
-// Malaysia timezone offset (GMT+8)
-const MALAYSIA_OFFSET = 8;
+const DEFAULT_PAIR = getPairConfig(DEFAULT_PAIR_ID);
 
-export function getMalaysiaTime(date: Date = new Date()): Date {
+// Wall-clock time at a desk's fixed UTC offset (hours)
+export function getLocalTime(date: Date = new Date(), utcOffset: number = DEFAULT_PAIR.utcOffset): Date {
   const utc = date.getTime() + date.getTimezoneOffset() * 60000;
-  return new Date(utc + MALAYSIA_OFFSET * 3600000);
+  return new Date(utc + utcOffset * 3600000);
 }
 
-export function formatMalaysiaTime(date: Date = new Date(), formatStr: string = 'yyyy-MM-dd HH:mm:ss'): string {
-  return format(getMalaysiaTime(date), formatStr);
+export function formatLocalTime(
+  date: Date = new Date(),
+  formatStr: string = 'yyyy-MM-dd HH:mm:ss',
+  utcOffset: number = DEFAULT_PAIR.utcOffset
+): string {
+  return format(getLocalTime(date, utcOffset), formatStr);
 }
 
-export function getMalaysiaHour(date: Date = new Date()): number {
-  return getMalaysiaTime(date).getHours();
+// Business date key (yyyy-MM-dd) in the desk's local time
+export function getBusinessDateKey(date: Date = new Date(), utcOffset: number = DEFAULT_PAIR.utcOffset): string {
+  return formatLocalTime(date, 'yyyy-MM-dd', utcOffset);
 }
 
-export function getMalaysiaMinute(date: Date = new Date()): number {
-  return getMalaysiaTime(date).getMinutes();
+// Millisecond range [start, end] covering a business date at the given offset
+export function getBusinessDayRange(dateKey: string, utcOffset: number = DEFAULT_PAIR.utcOffset): { start: number; end: number } {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const start = Date.UTC(year, month - 1, day) - utcOffset * 3600000;
+  return { start, end: start + 24 * 3600000 - 1 };
 }
 
-// Check if current time is in lock price window (23:20 - 00:30)
-export function isLockPriceWindow(date: Date = new Date()): boolean {
-  const myTime = getMalaysiaTime(date);
-  const hour = myTime.getHours();
-  const minute = myTime.getMinutes();
+// 'yyyy-M-d[ H:mm[:ss]]' (or with a 'T') read as desk local time; a bare date
+// is its midnight. Out-of-range fields (2025-02-30, 24:00) are rejected.
+export function parseLocalDateTime(value: string, utcOffset: number = DEFAULT_PAIR.utcOffset): number | null {
+  const local = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!local) return null;
+  const [year, month, day, hours, minutes, seconds] = local.slice(1).map(field => Number(field ?? 0));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return date.getTime() - utcOffset * 3600000 + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+export function getLocalHour(date: Date = new Date(), utcOffset: number = DEFAULT_PAIR.utcOffset): number {
+  return getLocalTime(date, utcOffset).getHours();
+}
+
+export function getLocalMinute(date: Date = new Date(), utcOffset: number = DEFAULT_PAIR.utcOffset): number {
+  return getLocalTime(date, utcOffset).getMinutes();
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Check if the time is in the pair's lock price window (23:20 - 00:30 by default)
+export function isLockPriceWindow(date: Date = new Date(), pair: PairConfig = DEFAULT_PAIR): boolean {
+  const localTime = getLocalTime(date, pair.utcOffset);
+  const minutes = localTime.getHours() * 60 + localTime.getMinutes();
+  const start = toMinutes(pair.lockWindow.start);
+  const end = toMinutes(pair.lockWindow.end);
+
+  // A window past midnight, e.g. 23:20 - 23:59 or 00:00 - 00:30
+  if (start > end) return minutes >= start || minutes <= end;
+  return minutes >= start && minutes <= end;
+}
 
-  // 23:20 - 23:59 or 00:00 - 00:30
-  if (hour === 23 && minute >= 20) return true;
-  if (hour === 0 && minute <= 30) return true;
-  return false;
+// Lock windows overlapping [start, end] as timestamp ranges, clipped to it
+export function getLockWindowRanges(start: number, end: number, pair: PairConfig = DEFAULT_PAIR): { start: number; end: number }[] {
+  const windowStart = toMinutes(pair.lockWindow.start);
+  // The end minute is still inside the window (see isLockPriceWindow)
+  const length = (((toMinutes(pair.lockWindow.end) - windowStart + 1440) % 1440) + 1) * 60000;
+  const ranges: { start: number; end: number }[] = [];
+  // A window can begin the evening before the range
+  const firstDay = getBusinessDayRange(getBusinessDateKey(new Date(start - 24 * 3600000), pair.utcOffset), pair.utcOffset).start;
+  for (let day = firstDay; day <= end; day += 24 * 3600000) {
+    const from = day + windowStart * 60000;
+    const to = from + length;
+    if (to > start && from < end) ranges.push({ start: Math.max(from, start), end: Math.min(to, end) });
+  }
+  return ranges;
 }
 
-// Calculate risk level based on diff and time window
+// Calculate risk level based on diff and time window, evaluated through the active rule set
 export function calculateRiskLevel(
   diff: number,
   isLockWindow: boolean = false,
-  consecutiveExpansions: number = 0
+  consecutiveExpansions: number = 0,
+  rules: RiskRule[] = DEFAULT_RISK_RULES,
+  costBuffer: number = 0
 ): 'safe' | 'warning' | 'danger' | 'critical' {
-  // Diff is (Platform - Market). Risk increases as diff becomes more negative.
-  // We use the absolute value for thresholds if they represent the "spread" size.
-  // However, the user wants "Platform - Market", so let's look at the gap.
-  const spread = diff; // Platform - Market
-  const absSpread = Math.abs(spread);
-
-  // Critical: spread <= -0.08 OR (lock window + consecutive expansions >= 2)
-  if (absSpread >= 0.08) return 'critical';
-  if (isLockWindow && consecutiveExpansions >= 2 && absSpread >= 0.04) return 'critical';
-
-  // Danger: spread <= -0.06
-  if (absSpread >= 0.06) return 'danger';
-
-  // Warning: spread <= -0.05 OR (lock window + diff <= -0.04)
-  if (absSpread >= 0.05) return 'warning';
-  if (isLockWindow && absSpread >= 0.04) return 'warning';
+  return assessRisk(diff, { isLockWindow, consecutiveExpansions, costBuffer }, rules).level;
+}
 
-  return 'safe';
+// Risk level together with the side of the spread that triggered it.
+// Diff is (Platform - Market): negative loses money, positive is uncompetitive.
+export function assessRisk(
+  diff: number,
+  context: RiskContext,
+  rules: RiskRule[] = DEFAULT_RISK_RULES
+): RiskAssessment {
+  return evaluateRisk(diff, context, rules);
 }
 
-// Get risk level color
-export function getRiskColor(level: 'safe' | 'warning' | 'danger' | 'critical'): string {
+// Get risk level color; the uncompetitive side uses a blue palette so it is
+// never mistaken for a losing spread
+export function getRiskColor(level: 'safe' | 'warning' | 'danger' | 'critical', side?: RiskSide | null): string {
+  if (side === 'uncompetitive' && level !== 'safe') {
+    switch (level) {
+      case 'warning': return 'text-sky-400';
+      case 'danger': return 'text-blue-400';
+      case 'critical': return 'text-indigo-400';
+    }
+  }
   switch (level) {
     case 'safe': return 'text-green-500';
     case 'warning': return 'text-yellow-500';
@@ -68,7 +123,14 @@ export function getRiskColor(level: 'safe' | 'warning' | 'danger' | 'critical'):
   }
 }
 
-export function getRiskBgColor(level: 'safe' | 'warning' | 'danger' | 'critical'): string {
+export function getRiskBgColor(level: 'safe' | 'warning' | 'danger' | 'critical', side?: RiskSide | null): string {
+  if (side === 'uncompetitive' && level !== 'safe') {
+    switch (level) {
+      case 'warning': return 'bg-sky-500/10 border-sky-500/30';
+      case 'danger': return 'bg-blue-500/10 border-blue-500/30';
+      case 'critical': return 'bg-indigo-500/10 border-indigo-500/30';
+    }
+  }
   switch (level) {
     case 'safe': return 'bg-green-500/10 border-green-500/30';
     case 'warning': return 'bg-yellow-500/10 border-yellow-500/30';
@@ -77,6 +139,14 @@ export function getRiskBgColor(level: 'safe' | 'warning' | 'danger' | 'critical'
   }
 }
 
+// Solid background for banners
+export function getRiskBannerColor(level: 'safe' | 'warning' | 'danger' | 'critical', side?: RiskSide | null): string {
+  if (side === 'uncompetitive') {
+    return level === 'critical' ? 'bg-indigo-600' : level === 'danger' ? 'bg-blue-600' : 'bg-sky-600';
+  }
+  return level === 'critical' ? 'bg-red-600' : level === 'danger' ? 'bg-orange-600' : 'bg-yellow-600';
+}
+
 export function getRiskIcon(level: 'safe' | 'warning' | 'danger' | 'critical'): string {
   switch (level) {
     case 'safe': return '✓';
@@ -86,7 +156,14 @@ export function getRiskIcon(level: 'safe' | 'warning' | 'danger' | 'critical'):
   }
 }
 
-export function getRiskText(level: 'safe' | 'warning' | 'danger' | 'critical'): string {
+export function getRiskText(level: 'safe' | 'warning' | 'danger' | 'critical', side?: RiskSide | null): string {
+  if (side === 'uncompetitive') {
+    switch (level) {
+      case 'warning': return '偏高注意';
+      case 'danger': return '偏高危险';
+      case 'critical': return '偏高紧急';
+    }
+  }
   switch (level) {
     case 'safe': return '安全';
     case 'warning': return '注意';
@@ -100,32 +177,24 @@ export function calculateAdjustedDiff(marketRate: number, platformRate: number,
   return platformRate - marketRate - costBuffer;
 }
 
+// Human-readable duration, e.g. '1小时05分' or '42秒'
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}小时${minutes.toString().padStart(2, '0')}分`;
+  if (minutes > 0) return `${minutes}分${seconds.toString().padStart(2, '0')}秒`;
+  return `${seconds}秒`;
+}
+
 // Get refresh interval based on time window
 export function getRefreshInterval(isLockWindow: boolean): number {
   return 10000; // Fixed to 10 seconds
 }
 
-// Export data to CSV
-export function exportToCSV(data: any[], filename: string): void {
-  if (data.length === 0) return;
-
-  const headers = Object.keys(data[0]);
-  const csvContent = [
-    headers.join(','),
-    ...data.map(row =>
-      headers.map(h => {
-        const value = row[h];
-        if (typeof value === 'string' && value.includes(',')) {
-          return `"${value}"`;
-        }
-        return value;
-      }).join(',')
-    )
-  ].join('\n');
-
-  const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(blob);
-  link.download = filename;
-  link.click();
+// Export data to CSV, with a BOM so spreadsheet apps read it as UTF-8
+export function exportToCSV(data: ExportRow[], filename: string): void {
+  if (data.length === 0) throw new Error('所选范围内没有可导出的数据');
+  downloadBlob(new Blob(['\ufeff' + toCSV(data)], { type: 'text/csv;charset=utf-8;' }), filename);
 }
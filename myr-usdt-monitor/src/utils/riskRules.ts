@@ -0,0 +1,182 @@
+import { z } from 'zod';
+
+// Declarative risk rules
+//
+// Each rule raises the risk to `level` when the spread crosses `threshold` in the
+// given direction, optionally only inside (or outside) the lock window and only
+// after a number of consecutive spread expansions. The highest matching level wins.
+//
+// Directions map to the two sides of the spread (diff = platform - market):
+//   below - platform under market, we lose money; cost buffer is added to the gap
+//   above - platform over market, we are uncompetitive
+//   abs   - either side (legacy rules)
+
+export type RiskLevel = 'safe' | 'warning' | 'danger' | 'critical';
+
+export const RISK_LEVELS: RiskLevel[] = ['safe', 'warning', 'danger', 'critical'];
+
+export const riskRuleSchema = z.object({
+  id: z.string().min(1),
+  level: z.enum(['warning', 'danger', 'critical']),
+  threshold: z.number().positive('阈值必须大于 0'),
+  direction: z.enum(['abs', 'below', 'above']),
+  window: z.enum(['any', 'lock', 'normal']),
+  minExpansions: z.number().int().min(0).max(10),
+});
+
+export const riskRuleSetSchema = z
+  .array(riskRuleSchema)
+  .min(1, '至少需要一条规则')
+  .refine(rules => new Set(rules.map(r => r.id)).size === rules.length, '规则 ID 不能重复');
+
+export type RiskRule = z.infer<typeof riskRuleSchema>;
+export type RiskDirection = RiskRule['direction'];
+export type RiskWindow = RiskRule['window'];
+
+export type RiskSide = 'loss' | 'uncompetitive';
+
+export interface RiskContext {
+  isLockWindow: boolean;
+  consecutiveExpansions: number;
+  costBuffer?: number;
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  side: RiskSide | null;
+}
+
+// Losing side keeps the original ladder and lock-window escalation; the
+// uncompetitive side only needs attention once the premium is clearly too wide.
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  { id: 'loss-critical', level: 'critical', threshold: 0.08, direction: 'below', window: 'any', minExpansions: 0 },
+  { id: 'loss-critical-lock-expansion', level: 'critical', threshold: 0.04, direction: 'below', window: 'lock', minExpansions: 2 },
+  { id: 'loss-danger', level: 'danger', threshold: 0.06, direction: 'below', window: 'any', minExpansions: 0 },
+  { id: 'loss-warning', level: 'warning', threshold: 0.05, direction: 'below', window: 'any', minExpansions: 0 },
+  { id: 'loss-warning-lock', level: 'warning', threshold: 0.04, direction: 'below', window: 'lock', minExpansions: 0 },
+  { id: 'uncompetitive-critical', level: 'critical', threshold: 0.10, direction: 'above', window: 'any', minExpansions: 0 },
+  { id: 'uncompetitive-danger', level: 'danger', threshold: 0.08, direction: 'above', window: 'any', minExpansions: 0 },
+  { id: 'uncompetitive-warning', level: 'warning', threshold: 0.05, direction: 'above', window: 'any', minExpansions: 0 },
+];
+
+// Thresholds are in the pair's fiat; the defaults above are tuned for MYR and
+// other pairs scale them by their price level
+export function getDefaultRiskRules(scale: number = 1): RiskRule[] {
+  if (scale === 1) return DEFAULT_RISK_RULES;
+  return DEFAULT_RISK_RULES.map(rule => ({ ...rule, threshold: Number((rule.threshold * scale).toPrecision(3)) }));
+}
+
+// Which side of the spread a rule fires on, or null if it does not match
+export function matchRule(rule: RiskRule, diff: number, context: RiskContext): RiskSide | null {
+  if (rule.window === 'lock' && !context.isLockWindow) return null;
+  if (rule.window === 'normal' && context.isLockWindow) return null;
+  if (context.consecutiveExpansions < rule.minExpansions) return null;
+
+  // Cost buffer widens the losing gap: buying USDT costs more than the market rate
+  const lossSpread = (context.costBuffer ?? 0) - diff;
+  const premium = diff;
+  const onLoss = rule.direction !== 'above' && lossSpread >= rule.threshold;
+  const onPremium = rule.direction !== 'below' && premium >= rule.threshold;
+
+  if (onLoss) return 'loss';
+  if (onPremium) return 'uncompetitive';
+  return null;
+}
+
+export function ruleMatches(rule: RiskRule, diff: number, context: RiskContext): boolean {
+  return matchRule(rule, diff, context) !== null;
+}
+
+// Highest matching level wins; on a tie the losing side takes precedence
+export function evaluateRisk(diff: number, context: RiskContext, rules: RiskRule[]): RiskAssessment {
+  return rules.reduce<RiskAssessment>((current, rule) => {
+    const side = matchRule(rule, diff, context);
+    if (!side) return current;
+    const rank = RISK_LEVELS.indexOf(rule.level);
+    const currentRank = RISK_LEVELS.indexOf(current.level);
+    if (rank > currentRank || (rank === currentRank && side === 'loss' && current.side !== 'loss')) {
+      return { level: rule.level, side };
+    }
+    return current;
+  }, { level: 'safe', side: null });
+}
+
+export function evaluateRiskRules(diff: number, context: RiskContext, rules: RiskRule[]): RiskLevel {
+  return evaluateRisk(diff, context, rules).level;
+}
+
+// A threshold above one price-level unit (1 MYR) is almost certainly a typo
+export function validateRiskRules(input: unknown, scale: number = 1): { rules: RiskRule[] | null; errors: string[] } {
+  const result = riskRuleSetSchema
+    .superRefine((rules, ctx) => rules.forEach((rule, index) => {
+      if (rule.threshold > scale) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'threshold'], message: `阈值不能超过 ${scale}` });
+      }
+    }))
+    .safeParse(input);
+  if (result.success) return { rules: result.data, errors: [] };
+  return {
+    rules: null,
+    errors: result.error.issues.map(issue => {
+      const index = typeof issue.path[0] === 'number' ? `规则 ${issue.path[0] + 1}: ` : '';
+      return index + issue.message;
+    }),
+  };
+}
+
+// Rules saved before the spread was split into sides only use 'abs', so they
+// never flag an uncompetitive premium; those (and anything that no longer
+// validates) are replaced by the current default ladder. Directional rule sets
+// are the operator's own and are kept.
+export function upgradeRiskRules(input: unknown, scale: number = 1): RiskRule[] {
+  const { rules } = validateRiskRules(input, scale);
+  if (!rules || rules.every(rule => rule.direction === 'abs')) return getDefaultRiskRules(scale);
+  return rules;
+}
+
+export function getDirectionLabel(direction: RiskDirection): string {
+  switch (direction) {
+    case 'abs': return '|点差| ≥';
+    case 'below': return '亏损点差(含成本) ≥';
+    case 'above': return '溢价点差 ≥';
+  }
+}
+
+export function getWindowLabel(window: RiskWindow): string {
+  switch (window) {
+    case 'any': return '全天';
+    case 'lock': return '锁价时段';
+    case 'normal': return '非锁价时段';
+  }
+}
+
+// Human readable condition, used by the on-screen legend
+export function describeRiskRule(rule: RiskRule): string {
+  let text = `${getDirectionLabel(rule.direction)}${rule.threshold}`;
+  if (rule.minExpansions > 0) text += ` 且连续${rule.minExpansions}次扩张`;
+  return text;
+}
+
+// Market-over-platform gap at which the losing side reaches `level` without a
+// lock window or expansion streak, net of the cost buffer; null if no such rule.
+// Used for the chart's reference lines.
+export function getLossBandOffset(rules: RiskRule[], level: RiskLevel, costBuffer: number = 0): number | null {
+  const thresholds = rules
+    .filter(rule => rule.level === level && rule.direction !== 'above' && rule.window !== 'lock' && rule.minExpansions === 0)
+    .map(rule => rule.threshold);
+  if (thresholds.length === 0) return null;
+  return Number((Math.min(...thresholds) - costBuffer).toPrecision(3));
+}
+
+export function sortRulesBySeverity(rules: RiskRule[]): RiskRule[] {
+  return [...rules].sort((a, b) =>
+    RISK_LEVELS.indexOf(a.level) - RISK_LEVELS.indexOf(b.level) || a.threshold - b.threshold
+  );
+}
+
+export function getSideText(side: RiskSide): string {
+  switch (side) {
+    case 'loss': return '亏损风险';
+    case 'uncompetitive': return '竞争力不足';
+  }
+}
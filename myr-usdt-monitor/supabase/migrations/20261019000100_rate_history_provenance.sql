@@ -0,0 +1,6 @@
+-- Provenance of stored observations: 'live' for dashboard/monitor samples,
+-- 'backfill:<source>' for rows written by the historical backfill.
+alter table rate_history add column if not exists source text not null default 'live';
+alter table daily_stats add column if not exists source text not null default 'live';
+
+create index if not exists rate_history_timestamp_idx on rate_history (timestamp);
@@ -0,0 +1,3 @@
+-- Number of rate_history rows folded into each day, needed to keep the
+-- running averages correct when the day is updated incrementally.
+alter table daily_stats add column if not exists sample_count integer;
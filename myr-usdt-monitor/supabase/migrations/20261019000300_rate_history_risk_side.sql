@@ -0,0 +1,4 @@
+-- Side of the spread that produced risk_level: 'loss' (platform below market,
+-- net of cost buffer) or 'uncompetitive' (platform above market). Null when safe.
+alter table rate_history add column if not exists risk_side text
+  check (risk_side in ('loss', 'uncompetitive'));
@@ -0,0 +1,14 @@
+-- One row per outbound alert delivery attempt (including retries)
+create table if not exists alert_deliveries (
+  id bigint generated always as identity primary key,
+  channel_id text not null,
+  channel_type text not null check (channel_type in ('webhook', 'chatbot', 'email')),
+  attempt integer not null,
+  status text not null check (status in ('success', 'failed')),
+  error text,
+  level text not null,
+  transition_at bigint not null,
+  attempted_at bigint not null
+);
+
+create index if not exists alert_deliveries_attempted_at_idx on alert_deliveries (attempted_at desc);
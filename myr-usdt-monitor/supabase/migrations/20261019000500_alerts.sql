@@ -0,0 +1,17 @@
+-- One row per alert incident: opens when the spread leaves 'safe', closes when
+-- it returns. transitions holds every level/side change as
+-- [{ at, level, side, diff }].
+create table if not exists alerts (
+  id uuid primary key,
+  started_at bigint not null,
+  ended_at bigint,
+  peak_level text not null check (peak_level in ('warning', 'danger', 'critical')),
+  peak_side text check (peak_side in ('loss', 'uncompetitive')),
+  peak_diff double precision not null,
+  transitions jsonb not null default '[]'::jsonb,
+  acknowledged_by text,
+  acknowledged_at bigint
+);
+
+create index if not exists alerts_started_at_idx on alerts (started_at desc);
+create index if not exists alerts_open_idx on alerts (ended_at) where ended_at is null;
@@ -0,0 +1,17 @@
+-- Who last changed a setting, shown to other operators in the change toast
+alter table app_settings add column if not exists updated_by text;
+
+-- Stream changes to dashboards over Supabase Realtime
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['app_settings', 'rate_history', 'daily_stats'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
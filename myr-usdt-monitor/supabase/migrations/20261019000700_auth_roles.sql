@@ -0,0 +1,104 @@
+-- Dashboard sign-in with viewer / operator / admin roles
+--
+-- The headless monitor connects with the service role key, which bypasses
+-- RLS, so none of these policies apply to it.
+
+create table if not exists profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  display_name text,
+  role text not null default 'viewer' check (role in ('viewer', 'operator', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+-- New accounts start as viewers; an admin promotes them
+create or replace function handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into profiles (id, email, display_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'display_name')
+  on conflict (id) do nothing;
+  return new;
+end $$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
+-- Security definer so policies on profiles itself do not recurse
+create or replace function has_role(required text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (
+    select 1 from profiles
+    where id = auth.uid()
+      and case role when 'admin' then 2 when 'operator' then 1 else 0 end
+        >= case required when 'admin' then 2 when 'operator' then 1 else 0 end
+  );
+$$;
+
+alter table profiles enable row level security;
+
+drop policy if exists "profiles_select_own" on profiles;
+create policy "profiles_select_own" on profiles
+  for select to authenticated using (id = auth.uid() or has_role('admin'));
+
+drop policy if exists "profiles_admin_all" on profiles;
+create policy "profiles_admin_all" on profiles
+  for all to authenticated using (has_role('admin')) with check (has_role('admin'));
+
+-- Settings: platform rate and cost buffer are operator-level, everything else admin
+alter table app_settings enable row level security;
+
+-- Every signed-in user (sign-ups start as viewers) reads every setting, so no
+-- setting may hold credentials. Alert channel tokens and passwords live in the
+-- admin-only alert_channel_secrets table; this rejects a client that tries
+-- to save them here.
+alter table app_settings drop constraint if exists app_settings_no_credentials;
+alter table app_settings add constraint app_settings_no_credentials check (
+  case when regexp_replace(key, '^[A-Z]{3}:', '') = 'alert_channels'
+    then not jsonb_path_exists(value::jsonb, '$[*] ? (exists(@.botToken) || exists(@.password))')
+    else true
+  end
+);
+
+drop policy if exists "app_settings_select" on app_settings;
+create policy "app_settings_select" on app_settings
+  for select to authenticated using (true);
+
+drop policy if exists "app_settings_insert" on app_settings;
+create policy "app_settings_insert" on app_settings
+  for insert to authenticated
+  with check (has_role(case when key in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end));
+
+drop policy if exists "app_settings_update" on app_settings;
+create policy "app_settings_update" on app_settings
+  for update to authenticated
+  using (has_role(case when key in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end))
+  with check (has_role(case when key in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end));
+
+-- Observations: any signed-in dashboard may record them (a viewer's tab can
+-- be the polling leader); only admins may delete history
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['rate_history', 'daily_stats', 'alerts', 'alert_deliveries'] loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists "%s_select" on public.%I', t, t);
+    execute format('create policy "%s_select" on public.%I for select to authenticated using (true)', t, t);
+    execute format('drop policy if exists "%s_insert" on public.%I', t, t);
+    execute format('create policy "%s_insert" on public.%I for insert to authenticated with check (true)', t, t);
+    execute format('drop policy if exists "%s_update" on public.%I', t, t);
+    execute format('create policy "%s_update" on public.%I for update to authenticated using (true) with check (true)', t, t);
+    execute format('drop policy if exists "%s_delete" on public.%I', t, t);
+    execute format('create policy "%s_delete" on public.%I for delete to authenticated using (has_role(''admin''))', t, t);
+  end loop;
+end $$;
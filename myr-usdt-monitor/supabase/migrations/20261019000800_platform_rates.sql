@@ -0,0 +1,49 @@
+-- Dated platform-rate ledger: one locked rate per business date (Malaysia),
+-- taking over at effective_from (by default the lock time on the evening
+-- before). Replaces the single mutable app_settings.platform_rate value.
+create table if not exists platform_rates (
+  date text primary key,
+  rate double precision not null check (rate > 0),
+  effective_from bigint not null,
+  set_by text,
+  set_at bigint not null
+);
+
+create index if not exists platform_rates_effective_from_idx on platform_rates (effective_from);
+
+-- Seed today's business date from the old setting so the rate in force carries over
+insert into platform_rates (date, rate, effective_from, set_by, set_at)
+select
+  to_char(now() at time zone 'Asia/Kuala_Lumpur', 'YYYY-MM-DD'),
+  value::double precision,
+  (extract(epoch from date_trunc('day', now() at time zone 'Asia/Kuala_Lumpur') at time zone 'Asia/Kuala_Lumpur') * 1000)::bigint,
+  updated_by,
+  (extract(epoch from now()) * 1000)::bigint
+from app_settings
+where key = 'platform_rate'
+on conflict (date) do nothing;
+
+-- Same permissions as the old setting: anyone signed in reads, operators write
+alter table platform_rates enable row level security;
+
+drop policy if exists "platform_rates_select" on platform_rates;
+create policy "platform_rates_select" on platform_rates
+  for select to authenticated using (true);
+
+drop policy if exists "platform_rates_insert" on platform_rates;
+create policy "platform_rates_insert" on platform_rates
+  for insert to authenticated with check (has_role('operator'));
+
+drop policy if exists "platform_rates_update" on platform_rates;
+create policy "platform_rates_update" on platform_rates
+  for update to authenticated using (has_role('operator')) with check (has_role('operator'));
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'platform_rates'
+  ) then
+    alter publication supabase_realtime add table public.platform_rates;
+  end if;
+end $$;
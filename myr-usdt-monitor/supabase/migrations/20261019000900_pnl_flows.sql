@@ -0,0 +1,29 @@
+-- Customer deposit / withdrawal volumes (USDT) for the spread P&L. A row is
+-- either one transaction or an hourly total, starting at timestamp.
+create table if not exists pnl_flows (
+  id uuid primary key,
+  timestamp bigint not null,
+  deposits double precision not null default 0 check (deposits >= 0),
+  withdrawals double precision not null default 0 check (withdrawals >= 0),
+  note text,
+  source text not null default 'manual' check (source in ('manual', 'import')),
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists pnl_flows_timestamp_idx on pnl_flows (timestamp);
+
+-- Volumes are business data: everyone signed in reads, operators record and correct
+alter table pnl_flows enable row level security;
+
+drop policy if exists "pnl_flows_select" on pnl_flows;
+create policy "pnl_flows_select" on pnl_flows
+  for select to authenticated using (true);
+
+drop policy if exists "pnl_flows_insert" on pnl_flows;
+create policy "pnl_flows_insert" on pnl_flows
+  for insert to authenticated with check (has_role('operator'));
+
+drop policy if exists "pnl_flows_delete" on pnl_flows;
+create policy "pnl_flows_delete" on pnl_flows
+  for delete to authenticated using (has_role('operator'));
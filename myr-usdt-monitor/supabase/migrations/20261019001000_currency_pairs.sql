@@ -0,0 +1,39 @@
+-- Monitor several USDT pairs side by side
+--
+-- Every observation table gains a pair column; existing rows are MYR. Settings
+-- stay in app_settings with the key prefixed by the pair ('THB:platform_rate'),
+-- except MYR, whose keys keep their original unprefixed names.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['rate_history', 'daily_stats', 'alerts', 'alert_deliveries', 'platform_rates', 'pnl_flows'] loop
+    execute format('alter table public.%I add column if not exists pair text not null default ''MYR''', t);
+  end loop;
+end $$;
+
+-- One row per pair and date instead of per date
+alter table daily_stats drop constraint if exists daily_stats_pkey;
+alter table daily_stats drop constraint if exists daily_stats_date_key;
+alter table daily_stats drop constraint if exists daily_stats_pair_date_key;
+alter table daily_stats add constraint daily_stats_pair_date_key unique (pair, date);
+
+alter table platform_rates drop constraint if exists platform_rates_pkey;
+alter table platform_rates add primary key (pair, date);
+
+create index if not exists rate_history_pair_timestamp_idx on rate_history (pair, timestamp);
+create index if not exists alerts_pair_started_at_idx on alerts (pair, started_at desc);
+create index if not exists pnl_flows_pair_timestamp_idx on pnl_flows (pair, timestamp);
+
+-- Operator-level keys are the same for every pair once the prefix is stripped
+drop policy if exists "app_settings_insert" on app_settings;
+create policy "app_settings_insert" on app_settings
+  for insert to authenticated
+  with check (has_role(case when regexp_replace(key, '^[A-Z]{3}:', '') in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end));
+
+drop policy if exists "app_settings_update" on app_settings;
+create policy "app_settings_update" on app_settings
+  for update to authenticated
+  using (has_role(case when regexp_replace(key, '^[A-Z]{3}:', '') in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end))
+  with check (has_role(case when regexp_replace(key, '^[A-Z]{3}:', '') in ('platform_rate', 'cost_buffer') then 'operator' else 'admin' end));
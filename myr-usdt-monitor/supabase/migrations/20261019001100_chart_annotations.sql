@@ -0,0 +1,76 @@
+-- Chart annotations: operators' free-text notes at a moment in time, plus one
+-- row per settings change so reviews can see when a setting moved
+create table if not exists chart_annotations (
+  id uuid primary key,
+  pair text not null default 'MYR',
+  timestamp bigint not null,
+  kind text not null default 'note' check (kind in ('note', 'setting')),
+  text text not null,
+  setting_key text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chart_annotations_pair_timestamp_idx on chart_annotations (pair, timestamp);
+
+-- Settings changes are recorded here, so every writer (dashboards and the
+-- headless monitor) is covered. Only plain numeric / time settings are
+-- copied: the table is readable by every signed-in user, and JSON settings
+-- such as alert_channels can hold credentials.
+create or replace function record_setting_annotation()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  setting_pair text := coalesce(substring(new.key from '^([A-Z]{3}):'), 'MYR');
+  setting_key text := regexp_replace(new.key, '^[A-Z]{3}:', '');
+begin
+  if setting_key not in ('cost_buffer', 'target_margin', 'max_deviation', 'lock_time') then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and new.value is not distinct from old.value then
+    return new;
+  end if;
+  insert into chart_annotations (id, pair, timestamp, kind, text, setting_key, created_by)
+  values (
+    gen_random_uuid(),
+    setting_pair,
+    (extract(epoch from now()) * 1000)::bigint,
+    'setting',
+    left(new.value, 500),
+    setting_key,
+    new.updated_by
+  );
+  return new;
+end $$;
+
+drop trigger if exists on_app_setting_changed on app_settings;
+create trigger on_app_setting_changed
+  after insert or update on app_settings
+  for each row execute function record_setting_annotation();
+
+-- Everyone signed in reads; operators add and remove notes
+alter table chart_annotations enable row level security;
+
+drop policy if exists "chart_annotations_select" on chart_annotations;
+create policy "chart_annotations_select" on chart_annotations
+  for select to authenticated using (true);
+
+drop policy if exists "chart_annotations_insert" on chart_annotations;
+create policy "chart_annotations_insert" on chart_annotations
+  for insert to authenticated with check (kind = 'note' and has_role('operator'));
+
+drop policy if exists "chart_annotations_delete" on chart_annotations;
+create policy "chart_annotations_delete" on chart_annotations
+  for delete to authenticated using (kind = 'note' and has_role('operator'));
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chart_annotations'
+  ) then
+    alter publication supabase_realtime add table public.chart_annotations;
+  end if;
+end $$;
@@ -0,0 +1,37 @@
+-- Filtered rate history for the history table
+--
+-- Returns rate_history rows so PostgREST can still order, page and count the
+-- result. The time-of-day window is in the pair's local time, given as minutes
+-- since midnight; a window whose start is after its end wraps past midnight.
+-- Runs as the caller, so the table's policies still apply.
+create or replace function filter_rate_history(
+  p_pair text,
+  p_start bigint,
+  p_end bigint,
+  p_levels text[] default null,
+  p_minute_from integer default null,
+  p_minute_to integer default null,
+  p_utc_offset numeric default 0
+)
+returns setof rate_history
+language sql
+stable
+as $$
+  select r.*
+  from rate_history r
+  cross join lateral (
+    select ((floor(r.timestamp / 60000.0) + round(p_utc_offset * 60))::bigint % 1440 + 1440) % 1440 as minute
+  ) clock
+  where r.pair = p_pair
+    and r.timestamp between p_start and p_end
+    and (p_levels is null or r.risk_level = any(p_levels))
+    and (
+      p_minute_from is null or p_minute_to is null
+      or case
+        when p_minute_from <= p_minute_to then clock.minute between p_minute_from and p_minute_to
+        else clock.minute >= p_minute_from or clock.minute <= p_minute_to
+      end
+    );
+$$;
+
+grant execute on function filter_rate_history(text, bigint, bigint, text[], integer, integer, numeric) to authenticated;
@@ -0,0 +1,21 @@
+-- Alert channel credentials (chat bot tokens, SMTP passwords)
+--
+-- app_settings is read by every signed-in dashboard and broadcast over
+-- realtime, so the alert_channels setting only keeps the non-secret fields.
+-- The credentials live here, one row per pair and channel. Only admins can
+-- read or write them from a dashboard; the headless monitor reads them with
+-- the service role key. Not part of the realtime publication.
+create table if not exists alert_channel_secrets (
+  pair text not null default 'MYR',
+  channel_id text not null,
+  secrets jsonb not null default '{}'::jsonb,
+  updated_by text,
+  updated_at timestamptz not null default now(),
+  primary key (pair, channel_id)
+);
+
+alter table alert_channel_secrets enable row level security;
+
+drop policy if exists "alert_channel_secrets_admin_all" on alert_channel_secrets;
+create policy "alert_channel_secrets_admin_all" on alert_channel_secrets
+  for all to authenticated using (has_role('admin')) with check (has_role('admin'));
@@ -0,0 +1,13 @@
+-- One rate_history row per pair and timestamp
+--
+-- The outbox replays a write whose response was lost, so the insert may
+-- already have landed. Rows now go in as upserts on (pair, timestamp) that
+-- ignore duplicates; drop the copies earlier replays left behind first.
+delete from rate_history a
+using rate_history b
+where a.pair = b.pair
+  and a.timestamp = b.timestamp
+  and a.ctid > b.ctid;
+
+drop index if exists rate_history_pair_timestamp_idx;
+create unique index if not exists rate_history_pair_timestamp_key on rate_history (pair, timestamp);